@@ -1,4 +1,4 @@
-import React, { useState, useRef } from 'react';
+import React, { useState, useRef, useMemo, useEffect } from 'react';
 import FileUpload from './components/FileUpload';
 import ConfigurationForm from './components/ConfigurationForm';
 import InitialReportView from './components/InitialReportView';
@@ -6,68 +6,374 @@ import ReportDashboard from './components/ReportDashboard';
 import StepIndicator from './components/StepIndicator';
 import ValidationDataInput from './components/ValidationDataInput';
 import MenuBar from './components/MenuBar'; // Import the new MenuBar component
-import { ReportConfig, ProcessedData, ValidationStats, Step, ProjectState, DeliveryValidationData } from './types';
-import { processAndAnalyzeData, fileToText, processValidationData, calculateDeliveryValidation } from './services/dataProcessor';
+import ColumnMappingWizard from './components/ColumnMappingWizard';
+import WorkbookImportDialog from './components/WorkbookImportDialog';
+import CsvImportOptionsForm from './components/CsvImportOptionsForm';
+import WetCalibrationForm from './components/WetCalibrationForm';
+import TankSwitcher from './components/TankSwitcher';
+import SiteSummary from './components/SiteSummary';
+import RecentProjects from './components/RecentProjects';
+import ConfirmDialog from './components/ConfirmDialog';
+import { ReportConfig, ProcessedData, ValidationStats, Step, ProjectState, ValidationDataset, ParsedTable, ColumnRole, WorkbookData, CsvImportOptions, RejectedRow, AppliedCorrection, QualityFix, InterpolationMethod, StrappingChartSettings, WetCalibrationLog, TemperatureSettings, DipSettings, ExtrapolationPolicy, ToleranceProfile, ManualValidationEntry, UncertaintySettings, SiteDetails, TankWorkspace, LibraryProject, ChartImportSettings } from './types';
+import { fileToText, calculateDeliveryValidation, calculatePointValidation, parseFileContent, suggestColumnRoles, processChartTable } from './services/dataProcessor';
+import { allValidationPoints, carryOverExclusions, createDeliveryDataset, createPointDataset, revalueDatasets, setReadingExclusion } from './services/validationDatasets';
+import { LoadedSite, readProjectFile, writeProjectFile } from './services/projectFile';
+import { describeLibraryProject, listLibraryProjects, loadLibraryProject, nextLibraryProjectId, readActiveLibraryProjectId, saveLibraryProject, writeActiveLibraryProjectId } from './services/projectLibrary';
+import { nextTankId, siteDetailsFromConfig, tankLabel, withSiteDetails } from './services/siteProject';
+import { createDefaultReportConfig, DEFAULT_CLIENT_NAME, restoreReportConfig } from './services/reportConfig';
+import { exportSiteReports } from './services/exportService';
+import { loadSavedMapping, saveMapping } from './services/mappingStore';
+import { loadClientToleranceProfile } from './services/toleranceStore';
+import { isWorkbookFile, readWorkbook, sheetToTable } from './services/excelImport';
+import { defaultCsvImportOptions } from './services/csvParser';
+import { applyQualityFix } from './services/dataQuality';
+import { generateTheoreticalChart, getTankGeometry } from './services/tankGeometry';
+import { heightUnitLabel, volumeUnitLabel } from './services/units';
+import { applyTiltCorrection } from './services/tiltCorrection';
+import { runComputeTask } from './services/computeClient';
+import { applyDipSettings } from './services/dipReadings';
+import { defaultManualEntry, readManualEntry } from './services/manualEntry';
+import { buildWetCalibrationChart } from './services/wetCalibration';
 
 // Use saveAs from CDN script, declare for TypeScript
 declare const saveAs: (blob: Blob, filename: string) => void;
 
+/** Quiet time after the last change before the project is autosaved. */
+const AUTOSAVE_DELAY_MS = 2000;
+
+const createEmptyTank = (reportConfig: ReportConfig): TankWorkspace => ({
+    id: nextTankId(),
+    project: { reportConfig, processedData: [], validationStats: null, chartFileName: '', validationDatasets: [] },
+    chartFile: null,
+    validationFiles: {},
+});
+
 const App: React.FC = () => {
     const [step, setStep] = useState<Step>(Step.UploadChart);
+    // The active tank lives in the state below; its entry in `tanks` is only brought up to date when switching or saving.
+    const [tanks, setTanks] = useState<TankWorkspace[]>(() => [createEmptyTank(createDefaultReportConfig())]);
+    const [activeTankId, setActiveTankId] = useState<string>(() => tanks[0].id);
+    const [site, setSite] = useState<SiteDetails>(() => siteDetailsFromConfig(tanks[0].project.reportConfig));
+    const [showSiteSummary, setShowSiteSummary] = useState(false);
+    // Id of the project in the browser's project library; assigned on its first autosave.
+    const libraryProjectIdRef = useRef<string | null>(null);
+    const [lastAutosave, setLastAutosave] = useState<string | null>(null);
+    // Why the last autosave failed; the project has unsaved changes until a later one succeeds.
+    const [autosaveError, setAutosaveError] = useState<string | null>(null);
+    // The project left open when the page was last closed, offered for restoring.
+    const [restorableProject, setRestorableProject] = useState<LibraryProject | null>(null);
+    const [isConfirmingReset, setIsConfirmingReset] = useState(false);
     const [chartFile, setChartFile] = useState<File | null>(null);
+    /** Chart name of an opened project that does not carry the chart file itself. */
+    const [loadedChartFileName, setLoadedChartFileName] = useState<string | null>(null);
+    /** Uploaded validation files by dataset id, embedded when the project is saved. */
+    const [validationFiles, setValidationFiles] = useState<Record<string, File>>({});
     const [projectFileName, setProjectFileName] = useState<string | null>(null);
     const [isLoading, setIsLoading] = useState(false);
     const [error, setError] = useState<string | null>(null);
     const [successMessage, setSuccessMessage] = useState<string | null>(null);
     const openProjectInputRef = useRef<HTMLInputElement>(null);
+    const [parsedTable, setParsedTable] = useState<ParsedTable | null>(null);
+    const [columnRoles, setColumnRoles] = useState<ColumnRole[]>([]);
+    // Client of a saved mapping offered on the mapping step for confirmation.
+    const [mappingSavedFor, setMappingSavedFor] = useState<string | undefined>(undefined);
+    const [workbook, setWorkbook] = useState<WorkbookData | null>(null);
+    const [sourceFormat, setSourceFormat] = useState<string | null>(null);
+    const [csvOptions, setCsvOptions] = useState<CsvImportOptions>(defaultCsvImportOptions);
+    // How the chart file was read, saved so that it can be re-processed from the project file.
+    const [chartImport, setChartImport] = useState<ChartImportSettings | null>(null);
+    const [rejectedRows, setRejectedRows] = useState<RejectedRow[]>([]);
+    const [qualityCorrections, setQualityCorrections] = useState<AppliedCorrection[]>([]);
+    const [chartSource, setChartSource] = useState<'file' | 'geometry' | 'wet'>('file');
+    const [wetCalibrationLog, setWetCalibrationLog] = useState<WetCalibrationLog | null>(null);
 
 
     const [processedData, setProcessedData] = useState<ProcessedData[]>([]);
-    const [validationStats, setValidationStats] = useState<ValidationStats | null>(null);
-    const [deliveryValidationData, setDeliveryValidationData] = useState<DeliveryValidationData[] | null>(null);
-    const [reportConfig, setReportConfig] = useState<ReportConfig>({
-        clientName: 'Default Client',
-        tankCode: '',
-        tankDiameter: '',
-        tankHeight: '',
-        tankLength: '',
-        tankCapacity: '',
-        calibrationDate: new Date().toISOString().split('T')[0],
-        calibrationCompany: '',
-        heightHeader: 'Height (m)',
-        volumeHeader: 'Volume (L)',
-        columnOrder: 'height-volume',
-        decimalPlaces: 2,
-    });
+    // Field volumes that came with the chart file itself, as opposed to the validation datasets.
+    const [chartFieldStats, setChartFieldStats] = useState<ValidationStats | null>(null);
+    const [validationDatasets, setValidationDatasets] = useState<ValidationDataset[]>([]);
+    const [manualEntry, setManualEntry] = useState<ManualValidationEntry>(defaultManualEntry);
+    const [reportConfig, setReportConfig] = useState<ReportConfig>(createDefaultReportConfig);
+
+    // processedData holds the chart as uploaded; everything downstream uses the tilt-corrected chart.
+    const chartData = useMemo(() => applyTiltCorrection(processedData, reportConfig), [processedData, reportConfig]);
+    const hasWork = processedData.length > 0 || validationDatasets.length > 0 || tanks.length > 1;
     
     const clearMessages = () => {
         setError(null);
         setSuccessMessage(null);
     };
 
+    const applyColumnMapping = (table: ParsedTable, roles: ColumnRole[]) => {
+        const { data, stats, initialConfig, rejectedRows } = processChartTable(table, roles);
+        setColumnRoles(roles);
+        setChartImport({ csvOptions, columnRoles: roles, ...(table.sheet && { sheet: table.sheet }) });
+        setRejectedRows(rejectedRows);
+        setQualityCorrections([]);
+        setSourceFormat(table.format || null);
+        setProcessedData(data);
+        setChartFieldStats(stats);
+        setReportConfig(prev => ({ ...prev, ...initialConfig }));
+        setStep(Step.Configure);
+    };
+
+    const handleParsedChartTable = (table: ParsedTable) => {
+        setParsedTable(table);
+
+        const saved = loadSavedMapping(table.headers, reportConfig.clientName);
+        setMappingSavedFor(saved?.clientName);
+        if (saved && saved.clientName === reportConfig.clientName && reportConfig.clientName !== DEFAULT_CLIENT_NAME) {
+            applyColumnMapping(table, saved.roles);
+            return;
+        }
+        if (saved) {
+            // Saved for another client, or the client is not known yet: the client is confirmed on the mapping step.
+            setColumnRoles(saved.roles);
+            setStep(Step.MapColumns);
+            return;
+        }
+
+        const { roles, isAmbiguous } = suggestColumnRoles(table.headers);
+        if (isAmbiguous) {
+            setColumnRoles(roles);
+            setStep(Step.MapColumns);
+        } else {
+            applyColumnMapping(table, roles);
+        }
+    };
+
     const handleChartUpload = async (uploadedFile: File) => {
         clearMessages();
+        setChartSource('file');
+        setWetCalibrationLog(null);
         setChartFile(uploadedFile);
+        setLoadedChartFileName(null);
         setProjectFileName(null); // Reset project file name when a new chart is uploaded
+        setWorkbook(null);
         setIsLoading(true);
         try {
+            if (isWorkbookFile(uploadedFile)) {
+                // Workbooks need a sheet and header row chosen before the columns can be mapped.
+                setWorkbook(await readWorkbook(uploadedFile));
+                return;
+            }
             const fileText = await fileToText(uploadedFile);
-            const { data, stats, initialConfig } = await processAndAnalyzeData(fileText);
-            setProcessedData(data);
-            setValidationStats(stats); // This would be from a combined file
-            setReportConfig(prev => ({ ...prev, ...initialConfig }));
-            setStep(Step.Configure);
+            handleParsedChartTable(parseFileContent(fileText, csvOptions));
         } catch (err) {
             setError((err as Error).message);
             setChartFile(null);
+            setParsedTable(null);
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    const handleWorkbookImport = (table: ParsedTable) => {
+        clearMessages();
+        try {
+            handleParsedChartTable(table);
+            setWorkbook(null);
+        } catch (err) {
+            setError((err as Error).message);
+        }
+    };
+
+    const handleWorkbookCancel = () => {
+        clearMessages();
+        setWorkbook(null);
+        setChartFile(null);
+    };
+
+    const handleColumnMappingSubmit = (roles: ColumnRole[], remember: boolean, clientName: string) => {
+        if (!parsedTable) return;
+        clearMessages();
+        try {
+            applyColumnMapping(parsedTable, roles);
+            const client = clientName || reportConfig.clientName;
+            if (client !== reportConfig.clientName) {
+                const clientProfile = loadClientToleranceProfile(client);
+                if (clientProfile) setReportConfig(prev => ({ ...prev, tolerance: clientProfile }));
+                handleChangeSite({ ...site, clientName: client });
+            }
+            if (remember) saveMapping(parsedTable.headers, client, roles);
+        } catch (err) {
+            setError((err as Error).message);
+        }
+    };
+
+    const handleApplyQualityFix = (fix: QualityFix) => {
+        clearMessages();
+        try {
+            const { data, correction } = applyQualityFix(processedData, fix);
+            // Validation results are recomputed so they refer to the corrected chart.
+            setValidationDatasets(revalueDatasets(validationDatasets, applyTiltCorrection(data, reportConfig), reportConfig));
+            setProcessedData(data);
+            setQualityCorrections(prev => [...prev, correction]);
+            setSuccessMessage(correction.description);
+        } catch (err) {
+            setError((err as Error).message);
+        }
+    };
+
+    const applyChartSettings = (config: ReportConfig) => {
+        // Validation results are recomputed so they always refer to the chart being reported.
+        const correctedChart = applyTiltCorrection(processedData, config);
+        setValidationDatasets(revalueDatasets(validationDatasets, correctedChart, config));
+        setReportConfig(config);
+    };
+
+    const handleApplyTilt = (tiltAngle: number, dipPointOffset: string) => {
+        clearMessages();
+        applyChartSettings({ ...reportConfig, tiltAngle, dipPointOffset });
+    };
+
+    const handleChangeInterpolation = (interpolationMethod: InterpolationMethod) => {
+        clearMessages();
+        applyChartSettings({ ...reportConfig, interpolationMethod });
+    };
+
+    const handleChangeExtrapolation = (extrapolation: ExtrapolationPolicy, includeOutOfRangeInStats: boolean) => {
+        clearMessages();
+        applyChartSettings({ ...reportConfig, extrapolation, includeOutOfRangeInStats });
+    };
+
+    const handleEstimateTilt = async (dipPointOffset: string) => {
+        clearMessages();
+        setIsLoading(true);
+        try {
+            const config = { ...reportConfig, dipPointOffset };
+            const estimate = await runComputeTask('estimateTilt', processedData, allValidationPoints(validationDatasets).filter(p => !p.outOfRange && !p.exclusion), config);
+            applyChartSettings({ ...config, tiltAngle: estimate.tiltAngle });
+            setSuccessMessage(`Estimated a tilt of ${estimate.tiltAngle.toFixed(3)}° from ${estimate.pointCount} validation points. RMS deviation went from ${estimate.rmsBefore.toFixed(reportConfig.decimalPlaces)} to ${estimate.rmsAfter.toFixed(reportConfig.decimalPlaces)}.`);
+        } catch (err) {
+            setError((err as Error).message);
         } finally {
             setIsLoading(false);
         }
     };
 
+    const handleChangeTemperature = (temperature: TemperatureSettings) => {
+        clearMessages();
+        try {
+            applyChartSettings({ ...reportConfig, temperature });
+        } catch (err) {
+            // Out-of-range densities are reported but kept, so the field can still be edited.
+            setReportConfig({ ...reportConfig, temperature });
+            setError((err as Error).message);
+        }
+    };
+
+    const handleChangeTolerance = (tolerance: ToleranceProfile) => {
+        clearMessages();
+        try {
+            applyChartSettings({ ...reportConfig, tolerance });
+        } catch (err) {
+            // A profile being edited may be incomplete (e.g. no height bands yet); keep it so editing can continue.
+            setReportConfig({ ...reportConfig, tolerance });
+            setError((err as Error).message);
+        }
+    };
+
+    const handleChangeUncertainty = (uncertainty: UncertaintySettings) => {
+        clearMessages();
+        try {
+            applyChartSettings({ ...reportConfig, uncertainty });
+        } catch (err) {
+            // Only an out-of-range product density fails here; the temperature panel reports it too.
+            setReportConfig({ ...reportConfig, uncertainty });
+            setError((err as Error).message);
+        }
+    };
+
+    const handleChangeDipSettings = (dip: DipSettings) => {
+        // Loaded readings were moved onto the chart datum with the current settings and keep no raw dips to convert again.
+        if (validationDatasets.length > 0) {
+            setError('Remove the validation datasets before changing the dip settings; their readings were converted with the current settings.');
+            return;
+        }
+        setReportConfig(prev => ({ ...prev, dip }));
+    };
+
+    const handleChangeStrappingSettings = (strappingChart: StrappingChartSettings) => {
+        setReportConfig(prev => ({ ...prev, strappingChart }));
+    };
+
+    const startWithoutChartFile = (source: 'geometry' | 'wet') => {
+        clearMessages();
+        setChartSource(source);
+        setChartFile(null);
+        setChartImport(null);
+        setLoadedChartFileName(null);
+        setParsedTable(null);
+        setProcessedData([]);
+        setChartFieldStats(null);
+        setValidationDatasets([]);
+        setRejectedRows([]);
+        setQualityCorrections([]);
+    };
+
+    const handleStartFromGeometry = () => {
+        startWithoutChartFile('geometry');
+        setWetCalibrationLog(null);
+        setSourceFormat('Theoretical chart (tank geometry)');
+        setStep(Step.Configure);
+    };
+
+    const handleStartWetCalibration = () => {
+        startWithoutChartFile('wet');
+        setSourceFormat(null);
+        setStep(Step.WetCalibration);
+    };
+
+    const handleWetCalibrationSubmit = (log: WetCalibrationLog) => {
+        clearMessages();
+        try {
+            const { chart } = buildWetCalibrationChart(log);
+            setWetCalibrationLog(log);
+            setProcessedData(chart);
+            setChartFieldStats(null);
+            setValidationDatasets([]);
+            setQualityCorrections([]);
+            setSourceFormat(`Wet calibration (${log.entries.length} metered fills)`);
+            setReportConfig(prev => ({
+                ...prev,
+                heightHeader: `Height (${heightUnitLabel(log.heightUnit)})`,
+                volumeHeader: `Volume (${volumeUnitLabel(log.volumeUnit)})`,
+                heightUnit: log.heightUnit,
+                volumeUnit: log.volumeUnit,
+                outputHeightUnit: log.heightUnit,
+                outputVolumeUnit: log.volumeUnit,
+                // The chart is already a monotone cubic fit, so the same method is used between its points.
+                interpolationMethod: 'pchip',
+            }));
+            setStep(Step.Configure);
+        } catch (err) {
+            setError((err as Error).message);
+        }
+    };
+
     const handleConfigSubmit = (config: ReportConfig) => {
         clearMessages();
+        if (chartSource === 'geometry') {
+            // The chart is regenerated on every submit so edited dimensions take effect.
+            const { geometry, error } = getTankGeometry(config);
+            if (!geometry) {
+                setError(error);
+                return;
+            }
+            config = {
+                ...config,
+                heightHeader: `Height (${heightUnitLabel(config.heightUnit)})`,
+                volumeHeader: `Volume (${volumeUnitLabel(config.volumeUnit)})`,
+            };
+            setProcessedData(generateTheoreticalChart(geometry, config));
+        }
+        if (config.clientName !== reportConfig.clientName) {
+            const clientProfile = loadClientToleranceProfile(config.clientName);
+            if (clientProfile) config = { ...config, tolerance: clientProfile };
+        }
         setReportConfig(config);
+        handleChangeSite(siteDetailsFromConfig(config, site));
         setStep(Step.Analysis);
     };
 
@@ -76,17 +382,13 @@ const App: React.FC = () => {
         setIsLoading(true);
         try {
             const validationText = await fileToText(validationFile);
-            const result = await processValidationData(validationText, processedData);
-
-            if (result.type === 'delivery_validation') {
-                setDeliveryValidationData(result.deliveryData);
-                setValidationStats(result.stats);
-                setProcessedData(processedData); // Keep original chart data
-            } else { // point_validation
-                setProcessedData(result.combinedData);
-                setValidationStats(result.stats);
-                setDeliveryValidationData(null); // Clear other validation type
-            }
+            const result = await runComputeTask('processValidationData', validationText, chartData, csvOptions, reportConfig);
+            const created = result.type === 'delivery_validation'
+                ? createDeliveryDataset(validationFile.name, result.deliveryData, result.stats, result.rejectedRows)
+                : createPointDataset(validationFile.name, result.combinedData, result.stats, result.rejectedRows);
+            const dataset: ValidationDataset = { ...created, csvOptions };
+            setValidationDatasets(prev => [...prev, dataset]);
+            setValidationFiles(prev => ({ ...prev, [dataset.id]: validationFile }));
             setStep(Step.FinalReport);
         } catch (err) {
             setError((err as Error).message);
@@ -95,18 +397,40 @@ const App: React.FC = () => {
         }
     };
 
-    const handleManualValidationSubmit = async (points: { height: number; delivery: number }[]) => {
+    const handleManualValidationSubmit = async () => {
         clearMessages();
         setIsLoading(true);
         try {
-            if (points.length < 2) {
-                throw new Error("Delivery validation requires at least two data points (e.g., before and after delivery).");
+            const readings = applyDipSettings(readManualEntry(manualEntry, reportConfig.temperature.enabled), reportConfig.dip);
+            let dataset: ValidationDataset;
+            if (manualEntry.type === 'point') {
+                if (readings.length === 0) {
+                    throw new Error("Enter at least one measurement to validate.");
+                }
+                const points = readings.map(r => ({ height: r.height, fieldVolume: r.value, conditions: r.conditions }));
+                const result = calculatePointValidation(points, chartData, reportConfig);
+                dataset = createPointDataset('Manual measurements', result.combinedData, result.stats);
+            } else {
+                if (readings.length < 2) {
+                    throw new Error("Delivery validation requires at least two data points (e.g., before and after delivery).");
+                }
+                const points = readings.map(r => ({ height: r.height, delivery: r.value, conditions: r.conditions }));
+                const result = calculateDeliveryValidation(points, chartData, reportConfig);
+                dataset = createDeliveryDataset('Manual deliveries', result.deliveryData, result.stats);
             }
-            const result = calculateDeliveryValidation(points, processedData);
-            
-            setDeliveryValidationData(result.deliveryData);
-            setValidationStats(result.stats);
-            setProcessedData(processedData); // Keep original chart data
+
+            // Re-running an entry replaces the dataset it produced before rather than adding another,
+            // keeping the exclusions of readings that are still there.
+            const previous = validationDatasets.find(d => d.id === manualEntry.datasetId);
+            if (previous) {
+                dataset = { ...carryOverExclusions(previous, dataset, reportConfig), id: previous.id, name: previous.type === dataset.type ? previous.name : dataset.name };
+                setValidationDatasets(prev => prev.map(d => (d.id === previous.id ? dataset : d)));
+            } else {
+                const manualCount = validationDatasets.filter(d => d.name.startsWith(dataset.name)).length;
+                if (manualCount > 0) dataset = { ...dataset, name: `${dataset.name} ${manualCount + 1}` };
+                setValidationDatasets(prev => [...prev, dataset]);
+            }
+            setManualEntry({ ...manualEntry, datasetId: dataset.id });
             setStep(Step.FinalReport);
         } catch (err) {
             setError((err as Error).message);
@@ -115,37 +439,144 @@ const App: React.FC = () => {
         }
     };
     
+    /**
+     * Reads the active tank's chart and validation files again with the settings they were first
+     * read with, e.g. after the import code was fixed. Exclusions of readings that remain are kept.
+     */
+    const handleReprocessSourceFiles = async () => {
+        clearMessages();
+        const datasetFiles = validationDatasets.filter(d => validationFiles[d.id]);
+        if (!chartFile && datasetFiles.length === 0) {
+            setError('This tank has no uploaded files to re-process.');
+            return;
+        }
+        setIsLoading(true);
+        try {
+            let chart = processedData;
+            if (chartFile) {
+                if (!chartImport) {
+                    throw new Error('This project does not record how its chart file was read. Upload the chart again to re-process it.');
+                }
+                const table = chartImport.sheet
+                    ? sheetToTable(await readWorkbook(chartFile), chartImport.sheet)
+                    : parseFileContent(await fileToText(chartFile), chartImport.csvOptions);
+                const result = processChartTable(table, chartImport.columnRoles);
+                chart = result.data;
+                setProcessedData(chart);
+                setChartFieldStats(result.stats);
+                setRejectedRows(result.rejectedRows);
+                setQualityCorrections([]);
+            }
+
+            const correctedChart = applyTiltCorrection(chart, reportConfig);
+            const datasets: ValidationDataset[] = [];
+            for (const previous of validationDatasets) {
+                const file = validationFiles[previous.id];
+                if (!file) {
+                    datasets.push(...revalueDatasets([previous], correctedChart, reportConfig));
+                    continue;
+                }
+                const options = previous.csvOptions || defaultCsvImportOptions;
+                const result = await runComputeTask('processValidationData', await fileToText(file), correctedChart, options, reportConfig);
+                const rerun = result.type === 'delivery_validation'
+                    ? createDeliveryDataset(previous.name, result.deliveryData, result.stats, result.rejectedRows)
+                    : createPointDataset(previous.name, result.combinedData, result.stats, result.rejectedRows);
+                datasets.push({ ...carryOverExclusions(previous, rerun, reportConfig), id: previous.id, csvOptions: options });
+            }
+            setValidationDatasets(datasets);
+            setSuccessMessage(`Re-processed ${[chartFile?.name, ...datasetFiles.map(d => validationFiles[d.id].name)].filter(Boolean).join(', ')}.`
+                + (chartFile && qualityCorrections.length > 0 ? ' The chart quality fixes were undone; apply them again if they are still needed.' : ''));
+        } catch (err) {
+            setError((err as Error).message);
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    const handleRemoveDataset = (id: string) => {
+        clearMessages();
+        setValidationDatasets(prev => prev.filter(d => d.id !== id));
+        setValidationFiles(({ [id]: _removed, ...rest }) => rest);
+    };
+
+    const handleSetExclusion = (datasetId: string, index: number, reason: string | null) => {
+        clearMessages();
+        try {
+            setValidationDatasets(validationDatasets.map(d => (d.id === datasetId ? setReadingExclusion(d, index, reason, reportConfig) : d)));
+        } catch (err) {
+            setError((err as Error).message);
+        }
+    };
+
     const handleReset = () => {
+        libraryProjectIdRef.current = null;
+        writeActiveLibraryProjectId(null);
+        setLastAutosave(null);
+        setAutosaveError(null);
+        setRestorableProject(null);
+        setIsConfirmingReset(false);
+        const tank = createEmptyTank(createDefaultReportConfig());
+        setTanks([tank]);
+        setActiveTankId(tank.id);
+        setSite(siteDetailsFromConfig(tank.project.reportConfig));
+        setShowSiteSummary(false);
         setStep(Step.UploadChart);
         setChartFile(null);
+        setChartImport(null);
+        setLoadedChartFileName(null);
+        setValidationFiles({});
         setProjectFileName(null);
+        setParsedTable(null);
+        setColumnRoles([]);
+        setWorkbook(null);
+        setSourceFormat(null);
+        setRejectedRows([]);
+        setQualityCorrections([]);
+        setChartSource('file');
+        setWetCalibrationLog(null);
         setProcessedData([]);
-        setValidationStats(null);
-        setDeliveryValidationData(null);
+        setChartFieldStats(null);
+        setValidationDatasets([]);
+        setManualEntry(defaultManualEntry);
         clearMessages();
-        setReportConfig({
-            clientName: 'Default Client',
-            tankCode: '',
-            tankDiameter: '',
-            tankHeight: '',
-            tankLength: '',
-            tankCapacity: '',
-            calibrationDate: new Date().toISOString().split('T')[0],
-            calibrationCompany: '',
-            heightHeader: 'Height (m)',
-            volumeHeader: 'Volume (L)',
-            columnOrder: 'height-volume',
-            decimalPlaces: 2,
-        });
+        setReportConfig(createDefaultReportConfig());
+    };
+
+    const handleRequestReset = () => {
+        if (hasWork) setIsConfirmingReset(true);
+        else handleReset();
+    };
+
+    const handleConfirmReset = async () => {
+        // Saved first so that the project can still be reopened from Recent Projects; it stays open if that fails.
+        try {
+            await autosave();
+        } catch (err) {
+            setIsConfirmingReset(false);
+            setError(`The project was not closed because it could not be saved in this browser: ${(err as Error).message} Save it to a file first.`);
+            return;
+        }
+        handleReset();
     };
 
     const handleBack = () => {
         clearMessages();
+        if (showSiteSummary) {
+            setShowSiteSummary(false);
+            return;
+        }
         let previousStep;
         switch (step) {
-            case Step.Configure:
+            case Step.MapColumns:
                 previousStep = Step.UploadChart;
                 break;
+            case Step.WetCalibration:
+                previousStep = Step.UploadChart;
+                break;
+            case Step.Configure:
+                // Return to the column mapping while the parsed file is still available.
+                previousStep = parsedTable ? Step.MapColumns : chartSource === 'wet' ? Step.WetCalibration : Step.UploadChart;
+                break;
             case Step.Analysis:
                 previousStep = Step.Configure;
                 break;
@@ -170,22 +601,167 @@ const App: React.FC = () => {
         return `${client}_${tank}`;
     };
 
-    const handleSaveProject = async () => {
-        clearMessages();
-
-        const projectState: ProjectState = {
+    const captureActiveTank = (): TankWorkspace => {
+        const project: ProjectState = {
             reportConfig,
             processedData,
-            validationStats,
-            chartFileName: chartFile?.name || 'Untitled Project',
-            deliveryValidationData,
+            validationStats: chartFieldStats,
+            chartFileName: chartFile?.name || loadedChartFileName || 'Untitled Project',
+            validationDatasets,
+            manualEntry,
+            wetCalibrationLog,
+            sourceFormat: sourceFormat || undefined,
+            qualityCorrections,
+            chartImport,
         };
-        const blob = new Blob([JSON.stringify(projectState)], { type: 'application/json' });
-        
-        const baseFilename = generateBaseFilename(reportConfig);
+        return { id: activeTankId, project, chartFile, validationFiles };
+    };
+
+    /** Every tank of the site, with the active one as currently edited. */
+    const currentTanks = (): TankWorkspace[] => tanks.map(t => (t.id === activeTankId ? captureActiveTank() : t));
+
+    const openTank = (tank: TankWorkspace) => {
+        const { project } = tank;
+        setActiveTankId(tank.id);
+        setReportConfig(restoreReportConfig(project.reportConfig));
+        setProcessedData(project.processedData);
+        setChartFieldStats(project.validationStats);
+        setValidationDatasets(project.validationDatasets || []);
+        setValidationFiles(tank.validationFiles);
+        setManualEntry(project.manualEntry || defaultManualEntry);
+        setChartFile(tank.chartFile);
+        setChartImport(project.chartImport || null);
+        setLoadedChartFileName(project.chartFileName || null);
+        setParsedTable(null);
+        setColumnRoles([]);
+        setWorkbook(null);
+        setSourceFormat(project.sourceFormat || null);
+        setRejectedRows([]);
+        setQualityCorrections(project.qualityCorrections || []);
+        setWetCalibrationLog(project.wetCalibrationLog || null);
+        setChartSource(project.wetCalibrationLog ? 'wet' : 'file');
+        setShowSiteSummary(false);
+        setStep(project.processedData.length > 0 ? Step.Analysis : Step.UploadChart);
+    };
+
+    const handleSelectTank = (id: string) => {
+        clearMessages();
+        if (id === activeTankId) {
+            setShowSiteSummary(false);
+            return;
+        }
+        const updated = currentTanks();
+        setTanks(updated);
+        openTank(updated.find(t => t.id === id) as TankWorkspace);
+    };
+
+    const handleAddTank = () => {
+        clearMessages();
+        const tank = createEmptyTank(withSiteDetails({ ...createDefaultReportConfig(), tankCode: `Tank ${tanks.length + 1}` }, site));
+        setTanks([...currentTanks(), tank]);
+        openTank(tank);
+    };
+
+    const handleRemoveTank = (id: string) => {
+        clearMessages();
+        const remaining = currentTanks().filter(t => t.id !== id);
+        if (remaining.length === 0) return;
+        setTanks(remaining);
+        if (id === activeTankId) openTank(remaining[0]);
+    };
+
+    const handleShowSiteSummary = () => {
+        clearMessages();
+        setTanks(currentTanks());
+        setShowSiteSummary(true);
+    };
+
+    const handleChangeSite = (details: SiteDetails) => {
+        setSite(details);
+        setReportConfig(prev => withSiteDetails(prev, details));
+        setTanks(prev => prev.map(t => ({ ...t, project: { ...t.project, reportConfig: withSiteDetails(t.project.reportConfig, details) } })));
+    };
+
+    const handleExportSite = async (format: 'pdf' | 'excel') => {
+        clearMessages();
+        setIsLoading(true);
+        try {
+            const siteTanks = currentTanks();
+            const skipped = await exportSiteReports(site, siteTanks, format);
+            const exportedCount = siteTanks.length - skipped.length;
+            setSuccessMessage(`Exported the strapping charts and reports of ${exportedCount} tank${exportedCount === 1 ? '' : 's'} and the site summary.`
+                + (skipped.length > 0 ? ` Skipped ${skipped.join(', ')}: no chart yet.` : ''));
+        } catch (err) {
+            setError((err as Error).message);
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    const autosave = async () => {
+        const siteTanks = currentTanks();
+        const id = libraryProjectIdRef.current || nextLibraryProjectId();
+        libraryProjectIdRef.current = id;
+        const contents = await writeProjectFile(site, siteTanks, activeTankId);
+        await saveLibraryProject(describeLibraryProject(id, site, siteTanks), contents);
+        writeActiveLibraryProjectId(id);
+        setLastAutosave(new Date().toLocaleTimeString(undefined, { timeStyle: 'short' }));
+        setAutosaveError(null);
+    };
+
+    useEffect(() => {
+        if (!hasWork) return;
+        const timer = setTimeout(() => {
+            autosave().catch(err => setAutosaveError((err as Error).message));
+        }, AUTOSAVE_DELAY_MS);
+        return () => clearTimeout(timer);
+        // Every piece of project state; autosave itself reads them when it runs.
+    }, [site, tanks, activeTankId, reportConfig, processedData, chartFieldStats, validationDatasets, manualEntry, wetCalibrationLog, sourceFormat, qualityCorrections, chartImport, chartFile, validationFiles]);
+
+    useEffect(() => {
+        const activeId = readActiveLibraryProjectId();
+        if (!activeId) return;
+        listLibraryProjects()
+            .then(projects => setRestorableProject(projects.find(p => p.id === activeId) || null))
+            .catch(err => console.error('Failed to read the project library:', err));
+    }, []);
+
+    const openLoadedSite = (loaded: LoadedSite) => {
+        setSite(loaded.site);
+        setTanks(loaded.tanks);
+        openTank(loaded.tanks.find(t => t.id === loaded.activeTankId) as TankWorkspace);
+    };
+
+    const handleOpenLibraryProject = async (id: string) => {
+        clearMessages();
+        setIsLoading(true);
+        try {
+            openLoadedSite(await readProjectFile(await loadLibraryProject(id)));
+            libraryProjectIdRef.current = id;
+            writeActiveLibraryProjectId(id);
+            setProjectFileName(null);
+            setRestorableProject(null);
+        } catch (err) {
+            setError((err as Error).message);
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    const handleDismissRestore = () => {
+        writeActiveLibraryProjectId(libraryProjectIdRef.current);
+        setRestorableProject(null);
+    };
+
+    const handleSaveProject = async () => {
+        clearMessages();
+
+        const siteFilename = site.siteName.replace(/\s+/g, '_').replace(/[/\\?%*:|"<>]/g, '-');
+        const baseFilename = tanks.length > 1 && siteFilename ? siteFilename : generateBaseFilename(reportConfig);
         const defaultFileName = projectFileName || `${baseFilename}.adf`;
         
         try {
+            const blob = new Blob([await writeProjectFile(site, currentTanks(), activeTankId)], { type: 'application/json' });
             saveAs(blob, defaultFileName);
             setSuccessMessage("Project file download initiated. Please check your browser's downloads.");
         } catch (err) {
@@ -202,18 +778,14 @@ const App: React.FC = () => {
         clearMessages();
         setIsLoading(true);
         const reader = new FileReader();
-        reader.onload = (event) => {
+        reader.onload = async (event) => {
             try {
-                const projectState: ProjectState = JSON.parse(event.target?.result as string);
-                setReportConfig(projectState.reportConfig);
-                setProcessedData(projectState.processedData);
-                setValidationStats(projectState.validationStats);
-                setDeliveryValidationData(projectState.deliveryValidationData || null);
-                setChartFile(new File([], projectState.chartFileName));
+                openLoadedSite(await readProjectFile(event.target?.result as string));
+                // An opened file starts its own entry in the project library.
+                libraryProjectIdRef.current = null;
                 setProjectFileName(file.name); // Store the loaded project's filename
-                setStep(Step.Analysis); // Jump to analysis after loading
             } catch (err) {
-                setError('Invalid or corrupted project file.');
+                setError((err as Error).message);
             } finally {
                 setIsLoading(false);
             }
@@ -234,14 +806,60 @@ const App: React.FC = () => {
     const renderStep = () => {
         switch (step) {
             case Step.UploadChart:
+                if (workbook) {
+                    return (
+                        <WorkbookImportDialog
+                            key={workbook.fileName}
+                            workbook={workbook}
+                            isLoading={isLoading}
+                            onImport={handleWorkbookImport}
+                            onCancel={handleWorkbookCancel}
+                        />
+                    );
+                }
                 return (
                     <FileUpload 
                         onFileUpload={handleChartUpload}
                         title="Step 1: Upload Calibration Data"
-                        description="Upload a CSV/TXT file with calibration data to begin."
+                        description="Upload a CSV/TXT file or an Excel workbook with calibration data to begin."
                         isLoading={isLoading}
                         file={chartFile}
-                        acceptedFileType=".csv,.txt"
+                        acceptedFileType=".csv,.txt,.xlsx,.xls"
+                    >
+                        <CsvImportOptionsForm options={csvOptions} onChange={setCsvOptions} />
+                        <div className="text-center mt-6">
+                            <button onClick={handleStartFromGeometry} className="text-sm font-semibold text-indigo-600 hover:text-indigo-800 underline">
+                                No chart file? Generate a theoretical chart from the tank geometry
+                            </button>
+                        </div>
+                        <div className="text-center mt-2">
+                            <button onClick={handleStartWetCalibration} className="text-sm font-semibold text-indigo-600 hover:text-indigo-800 underline">
+                                Wet calibration: build a chart from metered fills
+                            </button>
+                        </div>
+                        <RecentProjects onOpen={handleOpenLibraryProject} />
+                    </FileUpload>
+                );
+            case Step.MapColumns:
+                return parsedTable ? (
+                    <ColumnMappingWizard
+                        key={parsedTable.headers.join('|')}
+                        table={parsedTable}
+                        initialRoles={columnRoles}
+                        initialClientName={reportConfig.clientName !== DEFAULT_CLIENT_NAME ? reportConfig.clientName : mappingSavedFor !== DEFAULT_CLIENT_NAME ? mappingSavedFor || '' : ''}
+                        savedForClient={mappingSavedFor}
+                        isLoading={isLoading}
+                        onSubmit={handleColumnMappingSubmit}
+                    />
+                ) : null;
+            case Step.WetCalibration:
+                return (
+                    <WetCalibrationForm
+                        initialLog={wetCalibrationLog}
+                        config={reportConfig}
+                        csvOptions={csvOptions}
+                        isLoading={isLoading}
+                        onSubmit={handleWetCalibrationSubmit}
                     />
                 );
             case Step.Configure:
@@ -249,9 +867,19 @@ const App: React.FC = () => {
             case Step.Analysis:
                 return (
                     <InitialReportView
-                        data={processedData}
-                        stats={validationStats}
+                        data={chartData}
+                        stats={chartFieldStats}
                         config={reportConfig}
+                        sourceFormat={sourceFormat}
+                        rejectedRows={rejectedRows}
+                        corrections={qualityCorrections}
+                        onApplyQualityFix={handleApplyQualityFix}
+                        validationPointCount={allValidationPoints(validationDatasets).length}
+                        onApplyTilt={handleApplyTilt}
+                        onEstimateTilt={handleEstimateTilt}
+                        onChangeInterpolation={handleChangeInterpolation}
+                        onChangeExtrapolation={handleChangeExtrapolation}
+                        onChangeStrappingSettings={handleChangeStrappingSettings}
                         onNavigateToValidation={() => setStep(Step.ValidateData)}
                         onSaveProject={handleSaveProject}
                     />
@@ -260,19 +888,36 @@ const App: React.FC = () => {
                 return (
                     <ValidationDataInput
                         onFileUpload={handleValidationUpload}
+                        manualEntry={manualEntry}
+                        onChangeManualEntry={setManualEntry}
                         onManualSubmit={handleManualValidationSubmit}
                         isLoading={isLoading}
+                        temperature={reportConfig.temperature}
+                        onChangeTemperature={handleChangeTemperature}
+                        dip={reportConfig.dip}
+                        heightUnit={heightUnitLabel(reportConfig.heightUnit)}
+                        volumeUnit={volumeUnitLabel(reportConfig.volumeUnit)}
+                        onChangeDip={handleChangeDipSettings}
+                        tolerance={reportConfig.tolerance}
+                        clientName={reportConfig.clientName}
+                        onChangeTolerance={handleChangeTolerance}
+                        uncertainty={reportConfig.uncertainty}
+                        onChangeUncertainty={handleChangeUncertainty}
+                        datasetCount={validationDatasets.length}
                     />
                 );
             case Step.FinalReport:
                 return (
                     <ReportDashboard
-                        data={processedData}
-                        stats={validationStats}
+                        chartData={chartData}
+                        datasets={validationDatasets}
                         config={reportConfig}
-                        onReset={handleReset}
+                        onReset={handleRequestReset}
                         onSaveProject={handleSaveProject}
-                        deliveryData={deliveryValidationData}
+                        onAddDataset={() => setStep(Step.ValidateData)}
+                        onRemoveDataset={handleRemoveDataset}
+                        onSetExclusion={handleSetExclusion}
+                        corrections={qualityCorrections}
                     />
                 );
             default:
@@ -282,6 +927,16 @@ const App: React.FC = () => {
 
     return (
         <div className="bg-slate-100 min-h-screen font-sans">
+            {isConfirmingReset && (
+                <ConfirmDialog
+                    title="Start a new project?"
+                    message="The current project will be closed. It is autosaved in this browser and can be reopened from Recent Projects on the upload step."
+                    confirmLabel="Start New Project"
+                    onConfirm={handleConfirmReset}
+                    onCancel={() => setIsConfirmingReset(false)}
+                />
+            )}
+
             {/* Hidden file input for opening projects */}
             <input
                 type="file"
@@ -293,14 +948,15 @@ const App: React.FC = () => {
 
             <div className="max-w-7xl mx-auto p-4 sm:p-8">
                 <MenuBar
-                    onNew={handleReset}
+                    onNew={handleRequestReset}
                     onOpen={handleOpenProjectClick}
                     onSave={handleSaveProject}
                     onExport={handleSaveProject}
-                    onExit={handleReset}
+                    onReprocess={handleReprocessSourceFiles}
+                    onExit={handleRequestReset}
                     onBack={handleBack}
-                    onStartOver={handleReset}
-                    showNavigationButtons={step > Step.UploadChart}
+                    onStartOver={handleRequestReset}
+                    showNavigationButtons={step > Step.UploadChart || showSiteSummary}
                 />
                 <header className="text-center mb-8 relative mt-4">
                     <h1 className="text-4xl font-extrabold text-slate-800 tracking-tight">
@@ -312,9 +968,37 @@ const App: React.FC = () => {
                 </header>
                 
                 <main className="bg-white rounded-xl shadow-lg p-4 sm:p-8 mt-8 relative">
-                    <StepIndicator currentStep={step} />
+                    {autosaveError ? (
+                        <p className="absolute top-2 right-4 text-xs font-semibold text-red-600" title={autosaveError}>Not saved in this browser: {autosaveError}</p>
+                    ) : lastAutosave && (
+                        <p className="absolute top-2 right-4 text-xs text-slate-400">Autosaved in this browser at {lastAutosave}</p>
+                    )}
+                    <TankSwitcher
+                        siteName={site.siteName}
+                        tanks={tanks.map((t, i) => ({ id: t.id, label: tankLabel(t.id === activeTankId ? { ...t.project, reportConfig } : t.project, i) }))}
+                        activeTankId={activeTankId}
+                        showingSummary={showSiteSummary}
+                        onSelectTank={handleSelectTank}
+                        onAddTank={handleAddTank}
+                        onRemoveTank={handleRemoveTank}
+                        onShowSummary={handleShowSiteSummary}
+                    />
+                    {!showSiteSummary && <StepIndicator currentStep={step} isWetCalibration={chartSource === 'wet'} />}
                     
                     <div className="mt-8">
+                        {restorableProject && (
+                            <div className="bg-sky-50 border-l-4 border-sky-500 text-sky-900 p-4 mb-6 flex flex-col sm:flex-row sm:items-center justify-between gap-3" role="status">
+                                <p>
+                                    <span className="font-bold">Restore your last session?</span>{' '}
+                                    {restorableProject.siteName || restorableProject.clientName} ({restorableProject.tankCodes.join(', ')}) was autosaved{' '}
+                                    {new Date(restorableProject.updatedAt).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' })}.
+                                </p>
+                                <div className="flex gap-2 shrink-0">
+                                    <button onClick={() => handleOpenLibraryProject(restorableProject.id)} className="bg-sky-600 hover:bg-sky-700 text-white font-semibold py-2 px-4 rounded-lg shadow transition">Restore</button>
+                                    <button onClick={handleDismissRestore} className="bg-gray-200 hover:bg-gray-300 text-gray-800 font-semibold py-2 px-4 rounded-lg transition">Dismiss</button>
+                                </div>
+                            </div>
+                        )}
                         {error && (
                             <div className="bg-red-100 border-l-4 border-red-500 text-red-700 p-4 mb-6" role="alert">
                                 <p className="font-bold">An error occurred:</p>
@@ -327,7 +1011,16 @@ const App: React.FC = () => {
                                 <p>{successMessage}</p>
                             </div>
                         )}
-                        {renderStep()}
+                        {showSiteSummary ? (
+                            <SiteSummary
+                                site={site}
+                                tanks={tanks}
+                                isLoading={isLoading}
+                                onChangeSite={handleChangeSite}
+                                onOpenTank={handleSelectTank}
+                                onExportAll={handleExportSite}
+                            />
+                        ) : renderStep()}
                     </div>
                 </main>
 
@@ -0,0 +1,68 @@
+import React, { useMemo, useState } from 'react';
+import { ProcessedData, ReportConfig } from '../types';
+import { atgConsoleProfiles, reduceChartPoints } from '../services/atgExport';
+import { exportAtgTankTable } from '../services/exportService';
+import { heightUnitLabel, volumeUnitLabel } from '../services/units';
+
+interface AtgExportPanelProps {
+    data: ProcessedData[];
+    config: ReportConfig;
+}
+
+const AtgExportPanel: React.FC<AtgExportPanelProps> = ({ data, config }) => {
+    const [consoleId, setConsoleId] = useState(atgConsoleProfiles[0].id);
+    const profile = atgConsoleProfiles.find(p => p.id === consoleId) || atgConsoleProfiles[0];
+    const [maxPoints, setMaxPoints] = useState(profile.maxPoints);
+    const [error, setError] = useState<string | null>(null);
+
+    const pointLimit = Math.max(2, Math.min(maxPoints || profile.maxPoints, profile.maxPoints));
+    const reduced = useMemo(() => reduceChartPoints(data, pointLimit), [data, pointLimit]);
+    const volumeUnit = volumeUnitLabel(config.volumeUnit);
+
+    const handleConsoleChange = (id: string) => {
+        const next = atgConsoleProfiles.find(p => p.id === id);
+        setConsoleId(id);
+        if (next) setMaxPoints(next.maxPoints);
+    };
+
+    const handleExport = () => {
+        setError(null);
+        try {
+            exportAtgTankTable(data, config, consoleId, pointLimit);
+        } catch (err) {
+            setError((err as Error).message);
+        }
+    };
+
+    return (
+        <div className="pt-6 border-t">
+            <h3 className="text-xl font-semibold text-slate-700 mb-4 text-center">Export ATG Console Tank Table</h3>
+            <div className="grid grid-cols-2 gap-4 max-w-sm mx-auto">
+                <div>
+                    <label htmlFor="atgConsole" className="block text-sm font-medium text-gray-700">Console</label>
+                    <select id="atgConsole" value={consoleId} onChange={(e) => handleConsoleChange(e.target.value)} className="mt-1 block w-full pl-3 pr-10 py-2 border-gray-300 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 rounded-md">
+                        {atgConsoleProfiles.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                    </select>
+                </div>
+                <div>
+                    <label htmlFor="atgMaxPoints" className="block text-sm font-medium text-gray-700">Points (max {profile.maxPoints})</label>
+                    <input type="number" id="atgMaxPoints" min="2" max={profile.maxPoints} value={maxPoints} onChange={(e) => setMaxPoints(parseInt(e.target.value, 10))} className="mt-1 block w-full px-3 py-2 bg-white border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"/>
+                </div>
+            </div>
+            <p className="text-sm text-slate-500 text-center mt-3">
+                {reduced.points.length} of {data.length} points selected.
+                {reduced.maxError > 0
+                    ? ` Max interpolation error ${reduced.maxError.toFixed(config.decimalPlaces)} ${volumeUnit} at ${reduced.maxErrorHeight.toFixed(config.decimalPlaces)} ${heightUnitLabel(config.heightUnit)}.`
+                    : ' The table reproduces the chart exactly.'}
+            </p>
+            {error && <p className="text-sm text-red-600 text-center mt-2">{error}</p>}
+            <div className="text-center mt-4">
+                <button onClick={handleExport} className="bg-slate-700 hover:bg-slate-800 text-white font-bold py-2 px-4 rounded-lg shadow transition">
+                    Download Tank Table
+                </button>
+            </div>
+        </div>
+    );
+};
+
+export default AtgExportPanel;
@@ -10,13 +10,15 @@ interface ChartComponentProps {
     yAxisLabel?: string;
     font?: string;
     fontSize?: number;
+    overlayValues?: number[];
+    overlayLabel?: string;
 }
 
 export interface ChartRef {
     getChartInstance: () => any;
 }
 
-const ChartComponent = forwardRef<ChartRef, ChartComponentProps>(({ data, config, xAxisLabel, yAxisLabel, font, fontSize }, ref) => {
+const ChartComponent = forwardRef<ChartRef, ChartComponentProps>(({ data, config, xAxisLabel, yAxisLabel, font, fontSize, overlayValues, overlayLabel }, ref) => {
     const chartRef = useRef<HTMLCanvasElement>(null);
     const chartInstance = useRef<any>(null);
 
@@ -43,20 +45,36 @@ const ChartComponent = forwardRef<ChartRef, ChartComponentProps>(({ data, config
             gradient.addColorStop(0, 'rgba(79, 70, 229, 0.5)');
             gradient.addColorStop(1, 'rgba(79, 70, 229, 0)');
 
+            const datasets: any[] = [{
+                label: config.volumeHeader,
+                data: chartData,
+                borderColor: 'rgba(79, 70, 229, 1)',
+                backgroundColor: gradient,
+                borderWidth: 2,
+                pointRadius: 0,
+                fill: true,
+                tension: 0.1
+            }];
+
+            // Optional second curve (e.g. a theoretical chart) drawn over the same heights.
+            if (overlayValues && overlayValues.length === data.length) {
+                datasets.push({
+                    label: overlayLabel || 'Overlay',
+                    data: overlayValues.map(v => v.toFixed(config.decimalPlaces)),
+                    borderColor: 'rgba(234, 88, 12, 1)',
+                    borderDash: [6, 4],
+                    borderWidth: 2,
+                    pointRadius: 0,
+                    fill: false,
+                    tension: 0.1
+                });
+            }
+
             chartInstance.current = new Chart(ctx, {
                 type: 'line',
                 data: {
                     labels: labels,
-                    datasets: [{
-                        label: config.volumeHeader,
-                        data: chartData,
-                        borderColor: 'rgba(79, 70, 229, 1)',
-                        backgroundColor: gradient,
-                        borderWidth: 2,
-                        pointRadius: 0,
-                        fill: true,
-                        tension: 0.1
-                    }]
+                    datasets
                 },
                 options: {
                     responsive: true,
@@ -85,7 +103,7 @@ const ChartComponent = forwardRef<ChartRef, ChartComponentProps>(({ data, config
                     },
                     plugins: {
                         legend: {
-                            display: false
+                            display: datasets.length > 1
                         },
                         tooltip: {
                             mode: 'index',
@@ -107,7 +125,7 @@ const ChartComponent = forwardRef<ChartRef, ChartComponentProps>(({ data, config
                 chartInstance.current.destroy();
             }
         };
-    }, [data, config, xAxisLabel, yAxisLabel, font, fontSize]);
+    }, [data, config, xAxisLabel, yAxisLabel, font, fontSize, overlayValues, overlayLabel]);
 
     return (
         <div style={{ position: 'relative', height: '40vh' }}>
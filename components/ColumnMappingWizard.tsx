@@ -0,0 +1,154 @@
+import React, { useState } from 'react';
+import { ColumnRole, ParsedTable } from '../types';
+import { validateColumnRoles } from '../services/dataProcessor';
+import { listMappingClients, loadSavedMapping } from '../services/mappingStore';
+
+interface ColumnMappingWizardProps {
+    table: ParsedTable;
+    initialRoles: ColumnRole[];
+    /** Client the mapping is remembered for; empty when none has been chosen yet. */
+    initialClientName: string;
+    /** Set when the initial roles are a mapping saved for this client. */
+    savedForClient?: string;
+    isLoading: boolean;
+    onSubmit: (roles: ColumnRole[], remember: boolean, clientName: string) => void;
+}
+
+const roleOptions: { value: ColumnRole; label: string }[] = [
+    { value: 'height', label: 'Height' },
+    { value: 'chartVolume', label: 'Chart Volume' },
+    { value: 'fieldVolume', label: 'Field Volume' },
+    { value: 'delivery', label: 'Delivery' },
+    { value: 'ignore', label: 'Ignore' },
+];
+
+const roleColor = (role: ColumnRole): string => {
+    switch (role) {
+        case 'height': return 'bg-indigo-50';
+        case 'chartVolume': return 'bg-green-50';
+        case 'fieldVolume': return 'bg-yellow-50';
+        case 'delivery': return 'bg-orange-50';
+        default: return '';
+    }
+};
+
+const PREVIEW_ROWS = 10;
+
+const ColumnMappingWizard: React.FC<ColumnMappingWizardProps> = ({ table, initialRoles, initialClientName, savedForClient, isLoading, onSubmit }) => {
+    const [roles, setRoles] = useState<ColumnRole[]>(initialRoles);
+    const [remember, setRemember] = useState(true);
+    const [clientName, setClientName] = useState(initialClientName);
+    const knownClients = listMappingClients(table.headers);
+
+    const validationMessage = validateColumnRoles(roles);
+    const previewRows = table.data.slice(0, PREVIEW_ROWS);
+
+    const handleRoleChange = (index: number, role: ColumnRole) => {
+        setRoles(prev => prev.map((r, i) => {
+            if (i === index) return role;
+            // Height and chart volume are single-column roles; reassigning one frees the previous column.
+            if ((role === 'height' || role === 'chartVolume') && r === role) return 'ignore';
+            return r;
+        }));
+    };
+
+    const handleClientChange = (name: string) => {
+        setClientName(name);
+        // Switching to a client with its own mapping for these headers brings that mapping up.
+        const saved = loadSavedMapping(table.headers, name.trim());
+        if (saved && saved.clientName === name.trim()) setRoles(saved.roles);
+    };
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (validationMessage) return;
+        onSubmit(roles, remember, clientName.trim());
+    };
+
+    return (
+        <div className="max-w-5xl mx-auto">
+            <h2 className="text-2xl font-bold text-slate-700 text-center mb-2">Step 2: Map File Columns</h2>
+            <p className="text-slate-500 text-center mb-6">
+                {savedForClient
+                    ? `These headers match a mapping saved for ${savedForClient}. Choose the client of this file and check the columns below.`
+                    : 'The columns in this file could not be identified with confidence. Assign a role to each column below.'}
+            </p>
+            <form onSubmit={handleSubmit} className="space-y-6 bg-slate-50 p-6 rounded-lg">
+                <div className="max-w-sm">
+                    <label htmlFor="mappingClientName" className="block text-sm font-medium text-gray-700">Client</label>
+                    <input
+                        type="text"
+                        id="mappingClientName"
+                        list="mappingClients"
+                        value={clientName}
+                        onChange={(e) => handleClientChange(e.target.value)}
+                        placeholder="Client this file comes from"
+                        className="mt-1 block w-full px-3 py-2 bg-white border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+                    />
+                    <datalist id="mappingClients">
+                        {knownClients.map(name => <option key={name} value={name} />)}
+                    </datalist>
+                </div>
+                <div className="overflow-x-auto bg-white rounded-lg shadow">
+                    <table className="min-w-full divide-y divide-gray-200">
+                        <thead className="bg-gray-50">
+                            <tr>
+                                {table.headers.map((header, index) => (
+                                    <th key={index} scope="col" className={`px-4 py-3 text-left align-top ${roleColor(roles[index])}`}>
+                                        <div className="text-xs font-medium text-gray-500 uppercase tracking-wider mb-2">{header || `Column ${index + 1}`}</div>
+                                        <select
+                                            value={roles[index]}
+                                            onChange={(e) => handleRoleChange(index, e.target.value as ColumnRole)}
+                                            className="block w-full pl-2 pr-8 py-1 text-sm border-gray-300 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 rounded-md"
+                                        >
+                                            {roleOptions.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+                                        </select>
+                                    </th>
+                                ))}
+                            </tr>
+                        </thead>
+                        <tbody className="bg-white divide-y divide-gray-200">
+                            {previewRows.map((row, rowIndex) => (
+                                <tr key={rowIndex}>
+                                    {table.headers.map((_, colIndex) => (
+                                        <td key={colIndex} className={`px-4 py-2 whitespace-nowrap text-sm text-gray-800 ${roleColor(roles[colIndex])}`}>
+                                            {row[colIndex] ?? ''}
+                                        </td>
+                                    ))}
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+                <p className="text-xs text-slate-500 text-center">
+                    Showing {previewRows.length} of {table.data.length} rows.
+                </p>
+
+                {validationMessage && (
+                    <p className="text-sm text-red-600 text-center">{validationMessage}</p>
+                )}
+
+                <div className="flex flex-col sm:flex-row justify-between items-center gap-4">
+                    <label className="inline-flex items-center text-sm text-gray-700">
+                        <input
+                            type="checkbox"
+                            checked={remember}
+                            onChange={(e) => setRemember(e.target.checked)}
+                            className="h-4 w-4 text-indigo-600 border-gray-300 rounded mr-2"
+                        />
+                        Remember this mapping for {clientName.trim() ? `${clientName.trim()}'s files` : 'files'} with the same headers
+                    </label>
+                    <button
+                        type="submit"
+                        disabled={!!validationMessage || isLoading}
+                        className="w-full sm:w-auto bg-indigo-600 hover:bg-indigo-700 text-white font-bold py-3 px-8 rounded-lg shadow-md transition disabled:bg-gray-400"
+                    >
+                        {isLoading ? 'Processing...' : 'Apply Mapping & Continue'}
+                    </button>
+                </div>
+            </form>
+        </div>
+    );
+};
+
+export default ColumnMappingWizard;
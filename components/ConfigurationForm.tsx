@@ -1,5 +1,6 @@
 import React, { useState } from 'react';
 import { ReportConfig } from '../types';
+import { heightUnits, volumeUnits } from '../services/units';
 
 interface ConfigurationFormProps {
     initialConfig: ReportConfig;
@@ -59,7 +60,7 @@ const ConfigurationForm: React.FC<ConfigurationFormProps> = ({ initialConfig, on
 
     return (
         <div className="max-w-3xl mx-auto">
-            <h2 className="text-2xl font-bold text-slate-700 text-center mb-6">Step 2: Configure Report Details</h2>
+            <h2 className="text-2xl font-bold text-slate-700 text-center mb-6">Step 3: Configure Report Details</h2>
             <form onSubmit={handleSubmit} className="space-y-6 bg-slate-50 p-8 rounded-lg">
                  <h3 className="text-lg font-medium text-slate-600 border-b pb-2">Client & Tank Information</h3>
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
@@ -98,6 +99,44 @@ const ConfigurationForm: React.FC<ConfigurationFormProps> = ({ initialConfig, on
                         <input type="text" name="tankCapacity" id="tankCapacity" value={config.tankCapacity} onChange={handleInputChange} placeholder="e.g., 50,000L" className="mt-1 block w-full px-3 py-2 bg-white border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"/>
                     </div>
                 </div>
+                <h3 className="text-lg font-medium text-slate-600 border-b pb-2 pt-4">Tank Geometry</h3>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                    <div>
+                        <label htmlFor="tankShape" className="block text-sm font-medium text-gray-700">Tank Shape</label>
+                        <select id="tankShape" name="tankShape" value={config.tankShape} onChange={handleInputChange} className="mt-1 block w-full pl-3 pr-10 py-2 border-gray-300 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 rounded-md">
+                            <option value="horizontal-cylinder">Horizontal Cylinder</option>
+                            <option value="vertical-cylinder">Vertical Cylinder</option>
+                            <option value="rectangular">Rectangular</option>
+                        </select>
+                    </div>
+                    {config.tankShape === 'horizontal-cylinder' && (
+                        <div>
+                            <label htmlFor="headType" className="block text-sm font-medium text-gray-700">Head Type</label>
+                            <select id="headType" name="headType" value={config.headType} onChange={handleInputChange} className="mt-1 block w-full pl-3 pr-10 py-2 border-gray-300 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 rounded-md">
+                                <option value="flat">Flat</option>
+                                <option value="dished">Dished (Torispherical)</option>
+                                <option value="ellipsoidal">Ellipsoidal</option>
+                                <option value="hemispherical">Hemispherical</option>
+                            </select>
+                        </div>
+                    )}
+                    {config.tankShape === 'horizontal-cylinder' && (config.headType === 'dished' || config.headType === 'ellipsoidal') && (
+                        <div>
+                            <label htmlFor="headDepth" className="block text-sm font-medium text-gray-700">Head Depth (blank for standard)</label>
+                            <input type="text" name="headDepth" id="headDepth" value={config.headDepth} onChange={handleInputChange} placeholder="e.g., 500mm" className="mt-1 block w-full px-3 py-2 bg-white border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"/>
+                        </div>
+                    )}
+                    {config.tankShape === 'rectangular' && (
+                        <div>
+                            <label htmlFor="tankWidth" className="block text-sm font-medium text-gray-700">Tank Width</label>
+                            <input type="text" name="tankWidth" id="tankWidth" value={config.tankWidth} onChange={handleInputChange} placeholder="e.g., 2m" className="mt-1 block w-full px-3 py-2 bg-white border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"/>
+                        </div>
+                    )}
+                </div>
+                <p className="text-xs text-slate-500">
+                    Dimensions without a unit are read in the chart height unit. They are used to compute the theoretical chart.
+                </p>
+
                  <h3 className="text-lg font-medium text-slate-600 border-b pb-2 pt-4">Calibration Information</h3>
                  <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                     <div>
@@ -142,6 +181,37 @@ const ConfigurationForm: React.FC<ConfigurationFormProps> = ({ initialConfig, on
                         <input type="number" name="decimalPlaces" id="decimalPlaces" value={config.decimalPlaces} onChange={handleInputChange} min="0" max="10" className="mt-1 block w-full px-3 py-2 bg-white border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"/>
                     </div>
                 </div>
+                <h3 className="text-lg font-medium text-slate-600 border-b pb-2 pt-4">Units</h3>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                    <div>
+                        <label htmlFor="heightUnit" className="block text-sm font-medium text-gray-700">Chart Height Unit</label>
+                        <select id="heightUnit" name="heightUnit" value={config.heightUnit} onChange={handleInputChange} className="mt-1 block w-full pl-3 pr-10 py-2 border-gray-300 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 rounded-md">
+                            {Object.entries(heightUnits).map(([unit, def]) => <option key={unit} value={unit}>{def.name} ({def.label})</option>)}
+                        </select>
+                    </div>
+                    <div>
+                        <label htmlFor="volumeUnit" className="block text-sm font-medium text-gray-700">Chart Volume Unit</label>
+                        <select id="volumeUnit" name="volumeUnit" value={config.volumeUnit} onChange={handleInputChange} className="mt-1 block w-full pl-3 pr-10 py-2 border-gray-300 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 rounded-md">
+                            {Object.entries(volumeUnits).map(([unit, def]) => <option key={unit} value={unit}>{def.name} ({def.label})</option>)}
+                        </select>
+                    </div>
+                    <div>
+                        <label htmlFor="outputHeightUnit" className="block text-sm font-medium text-gray-700">Report Height Unit</label>
+                        <select id="outputHeightUnit" name="outputHeightUnit" value={config.outputHeightUnit} onChange={handleInputChange} className="mt-1 block w-full pl-3 pr-10 py-2 border-gray-300 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 rounded-md">
+                            {Object.entries(heightUnits).map(([unit, def]) => <option key={unit} value={unit}>{def.name} ({def.label})</option>)}
+                        </select>
+                    </div>
+                    <div>
+                        <label htmlFor="outputVolumeUnit" className="block text-sm font-medium text-gray-700">Report Volume Unit</label>
+                        <select id="outputVolumeUnit" name="outputVolumeUnit" value={config.outputVolumeUnit} onChange={handleInputChange} className="mt-1 block w-full pl-3 pr-10 py-2 border-gray-300 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 rounded-md">
+                            {Object.entries(volumeUnits).map(([unit, def]) => <option key={unit} value={unit}>{def.name} ({def.label})</option>)}
+                        </select>
+                    </div>
+                </div>
+                <p className="text-xs text-slate-500">
+                    The chart units describe the uploaded data. All exports are converted to the report units.
+                </p>
+
                 <div className="pt-4 text-center">
                     <button type="submit" className="w-full md:w-auto bg-indigo-600 hover:bg-indigo-700 text-white font-bold py-3 px-8 rounded-lg shadow-md transition-transform transform hover:scale-105 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500">
                         Analyze Data & Prepare for Export
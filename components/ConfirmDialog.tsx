@@ -0,0 +1,24 @@
+import React from 'react';
+
+interface ConfirmDialogProps {
+    title: string;
+    message: string;
+    confirmLabel: string;
+    onConfirm: () => void;
+    onCancel: () => void;
+}
+
+const ConfirmDialog: React.FC<ConfirmDialogProps> = ({ title, message, confirmLabel, onConfirm, onCancel }) => (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/50 p-4" role="dialog" aria-modal="true" aria-labelledby="confirm-dialog-title">
+        <div className="bg-white rounded-xl shadow-xl max-w-md w-full p-6">
+            <h2 id="confirm-dialog-title" className="text-lg font-bold text-slate-800">{title}</h2>
+            <p className="mt-2 text-sm text-slate-600">{message}</p>
+            <div className="mt-6 flex justify-end gap-2">
+                <button onClick={onCancel} autoFocus className="bg-gray-200 hover:bg-gray-300 text-gray-800 font-semibold py-2 px-4 rounded-lg transition">Cancel</button>
+                <button onClick={onConfirm} className="bg-red-600 hover:bg-red-700 text-white font-semibold py-2 px-4 rounded-lg shadow transition">{confirmLabel}</button>
+            </div>
+        </div>
+    </div>
+);
+
+export default ConfirmDialog;
@@ -0,0 +1,122 @@
+import React, { useState } from 'react';
+import { ChartCorrectionProposal, DeliveryValidationData, ProcessedData, ReportConfig } from '../types';
+import ChartComponent from './Chart';
+import { proposeCorrectedChart } from '../services/chartCorrection';
+import { exportStrappingChartToPDF, exportStrappingChartToExcel, exportStrappingChartToWord } from '../services/exportService';
+import { heightUnitLabel, volumeUnitLabel } from '../services/units';
+
+interface CorrectedChartPanelProps {
+    chart: ProcessedData[];
+    pointData: ProcessedData[] | null;
+    deliveryData: DeliveryValidationData[] | null;
+    config: ReportConfig;
+}
+
+const PREVIEW_ROWS = 15;
+
+const CorrectedChartPanel: React.FC<CorrectedChartPanelProps> = ({ chart, pointData, deliveryData, config }) => {
+    const [proposal, setProposal] = useState<ChartCorrectionProposal | null>(null);
+    const [revisionNote, setRevisionNote] = useState('');
+    const [error, setError] = useState<string | null>(null);
+
+    const dp = config.decimalPlaces;
+    const heightUnit = heightUnitLabel(config.heightUnit);
+    const volumeUnit = volumeUnitLabel(config.volumeUnit);
+
+    const handlePropose = () => {
+        setError(null);
+        try {
+            const result = deliveryData
+                ? proposeCorrectedChart(chart, { deliveries: deliveryData })
+                : proposeCorrectedChart(chart, { points: pointData || [] });
+            const count = deliveryData ? `${deliveryData.length} deliveries` : `${(pointData || []).length} field measurements`;
+            setProposal(result);
+            setRevisionNote(`Corrected from ${count}, ${new Date().toISOString().split('T')[0]}`);
+        } catch (err) {
+            setError((err as Error).message);
+        }
+    };
+
+    const handleExport = async (exporter: (data: ProcessedData[], config: ReportConfig, revisionNote?: string) => Promise<void>) => {
+        if (!proposal) return;
+        setError(null);
+        try {
+            await exporter(proposal.correctedChart, config, revisionNote.trim() || 'Corrected chart');
+        } catch (err) {
+            setError((err as Error).message);
+        }
+    };
+
+    const stride = proposal ? Math.max(1, Math.ceil(proposal.correctedChart.length / PREVIEW_ROWS)) : 1;
+    const previewRows = proposal
+        ? proposal.correctedChart
+            .map((point, i) => ({ height: point.height, original: proposal.originalChart[i].chartVolume, corrected: point.chartVolume }))
+            .filter((_, i, all) => i % stride === 0 || i === all.length - 1)
+        : [];
+
+    return (
+        <div className="bg-white rounded-lg shadow p-6 space-y-4">
+            <div className="flex flex-col md:flex-row justify-between items-center gap-4">
+                <div>
+                    <h3 className="text-xl font-semibold text-slate-700">Corrected Chart Proposal</h3>
+                    <p className="text-sm text-slate-500">
+                        {deliveryData
+                            ? 'Spreads each delivery deviation over its height band and fits a smooth correction curve through the accumulated result.'
+                            : 'Fits a smooth correction curve through the field deviations, averaged per height band.'}
+                    </p>
+                </div>
+                <button onClick={handlePropose} className="bg-indigo-600 hover:bg-indigo-700 text-white font-bold py-2 px-4 rounded-lg shadow transition whitespace-nowrap">
+                    {proposal ? 'Recalculate Proposal' : 'Propose Corrected Chart'}
+                </button>
+            </div>
+            {error && <p className="text-sm text-red-600">{error}</p>}
+            {proposal && (
+                <>
+                    <p className="text-sm text-slate-600">
+                        Largest correction: {proposal.maxCorrection >= 0 ? '+' : ''}{proposal.maxCorrection.toFixed(dp)} {volumeUnit} at {proposal.maxCorrectionHeight.toFixed(dp)} {heightUnit}.
+                    </p>
+                    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 items-start">
+                        <div className="bg-slate-50 p-2 rounded-lg">
+                            <ChartComponent data={proposal.originalChart} config={config} overlayValues={proposal.correctedChart.map(p => p.chartVolume)} overlayLabel="Corrected" />
+                        </div>
+                        <div className="overflow-x-auto">
+                            <table className="min-w-full divide-y divide-gray-200 text-sm">
+                                <thead className="bg-gray-50">
+                                    <tr>
+                                        <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Height ({heightUnit})</th>
+                                        <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Original ({volumeUnit})</th>
+                                        <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Corrected ({volumeUnit})</th>
+                                        <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Correction</th>
+                                    </tr>
+                                </thead>
+                                <tbody className="divide-y divide-gray-200">
+                                    {previewRows.map((row, i) => (
+                                        <tr key={i}>
+                                            <td className="px-4 py-1">{row.height.toFixed(dp)}</td>
+                                            <td className="px-4 py-1">{row.original.toFixed(dp)}</td>
+                                            <td className="px-4 py-1">{row.corrected.toFixed(dp)}</td>
+                                            <td className="px-4 py-1">{(row.corrected - row.original).toFixed(dp)}</td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                    </div>
+                    <div className="pt-4 border-t flex flex-col md:flex-row items-end gap-4">
+                        <div className="flex-grow w-full">
+                            <label htmlFor="revisionNote" className="block text-sm font-medium text-gray-700">Revision Note</label>
+                            <input type="text" id="revisionNote" value={revisionNote} onChange={(e) => setRevisionNote(e.target.value)} className="mt-1 block w-full px-3 py-2 bg-white border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"/>
+                        </div>
+                        <div className="flex gap-2">
+                            <button onClick={() => handleExport(exportStrappingChartToPDF)} className="bg-red-500 hover:bg-red-600 text-white font-bold py-2 px-4 rounded-lg shadow transition">PDF</button>
+                            <button onClick={() => handleExport(exportStrappingChartToExcel)} className="bg-emerald-500 hover:bg-emerald-600 text-white font-bold py-2 px-4 rounded-lg shadow transition">Excel</button>
+                            <button onClick={() => handleExport(exportStrappingChartToWord)} className="bg-blue-500 hover:bg-blue-600 text-white font-bold py-2 px-4 rounded-lg shadow transition">Word</button>
+                        </div>
+                    </div>
+                </>
+            )}
+        </div>
+    );
+};
+
+export default CorrectedChartPanel;
@@ -0,0 +1,38 @@
+import React from 'react';
+import { CsvImportOptions } from '../types';
+
+interface CsvImportOptionsFormProps {
+    options: CsvImportOptions;
+    onChange: (options: CsvImportOptions) => void;
+}
+
+const CsvImportOptionsForm: React.FC<CsvImportOptionsFormProps> = ({ options, onChange }) => {
+    const handleChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+        const { name, value } = e.target;
+        onChange({ ...options, [name]: value });
+    };
+
+    return (
+        <div className="grid grid-cols-2 gap-4 mt-4 max-w-md mx-auto">
+            <div>
+                <label htmlFor="csvDelimiter" className="block text-xs font-medium text-gray-600">Delimiter (CSV/TXT)</label>
+                <select id="csvDelimiter" name="delimiter" value={options.delimiter} onChange={handleChange} className="mt-1 block w-full pl-3 pr-10 py-1 text-sm border-gray-300 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 rounded-md">
+                    <option value="auto">Auto-detect</option>
+                    <option value=",">Comma ( , )</option>
+                    <option value=";">Semicolon ( ; )</option>
+                    <option value={'\t'}>Tab</option>
+                </select>
+            </div>
+            <div>
+                <label htmlFor="csvDecimalSeparator" className="block text-xs font-medium text-gray-600">Number Format</label>
+                <select id="csvDecimalSeparator" name="decimalSeparator" value={options.decimalSeparator} onChange={handleChange} className="mt-1 block w-full pl-3 pr-10 py-1 text-sm border-gray-300 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 rounded-md">
+                    <option value="auto">Auto-detect</option>
+                    <option value=".">1,234.5 (decimal point)</option>
+                    <option value=",">1.234,5 (decimal comma)</option>
+                </select>
+            </div>
+        </div>
+    );
+};
+
+export default CsvImportOptionsForm;
@@ -0,0 +1,76 @@
+import React, { useMemo } from 'react';
+import { AppliedCorrection, ProcessedData, QualityFix, QualitySeverity, ReportConfig } from '../types';
+import { inspectChartQuality } from '../services/dataQuality';
+
+interface DataQualityPanelProps {
+    data: ProcessedData[];
+    config: ReportConfig;
+    corrections: AppliedCorrection[];
+    onApplyFix: (fix: QualityFix) => void;
+}
+
+const severityStyles: Record<QualitySeverity, string> = {
+    error: 'bg-red-100 text-red-800',
+    warning: 'bg-yellow-100 text-yellow-800',
+    info: 'bg-blue-100 text-blue-800',
+};
+
+const fixLabels: Record<QualityFix, string> = {
+    'sort': 'Sort by Height',
+    'drop-duplicates': 'Drop Duplicates',
+    'remove-negative': 'Remove Negative Rows',
+    'remove-outliers': 'Remove Outliers',
+};
+
+const MAX_LISTED_ROWS = 8;
+
+const DataQualityPanel: React.FC<DataQualityPanelProps> = ({ data, config, corrections, onApplyFix }) => {
+    const issues = useMemo(() => inspectChartQuality(data, config), [data, config]);
+
+    const describeRows = (rows: number[]): string => {
+        const listed = rows.slice(0, MAX_LISTED_ROWS)
+            .map(r => `${r} (h=${data[r - 1]?.height.toFixed(config.decimalPlaces) ?? '?'})`)
+            .join(', ');
+        return rows.length > MAX_LISTED_ROWS ? `${listed} and ${rows.length - MAX_LISTED_ROWS} more` : listed;
+    };
+
+    return (
+        <div className="bg-white rounded-lg shadow p-6">
+            <h3 className="text-xl font-semibold text-slate-700 mb-4">Data Quality</h3>
+            {issues.length === 0 ? (
+                <p className="text-sm text-green-700">No data-quality issues were found in the chart.</p>
+            ) : (
+                <ul className="space-y-3">
+                    {issues.map(issue => (
+                        <li key={issue.id} className="border rounded-md p-3 flex flex-col md:flex-row md:items-center gap-3">
+                            <span className={`self-start text-xs font-bold uppercase px-2 py-1 rounded ${severityStyles[issue.severity]}`}>{issue.severity}</span>
+                            <div className="flex-grow">
+                                <p className="font-semibold text-slate-700">{issue.title}</p>
+                                <p className="text-sm text-slate-600">{issue.message}</p>
+                                <p className="text-xs text-slate-500 mt-1">Rows: {describeRows(issue.rows)}</p>
+                            </div>
+                            {issue.fix && (
+                                <button
+                                    onClick={() => onApplyFix(issue.fix as QualityFix)}
+                                    className="bg-indigo-600 hover:bg-indigo-700 text-white text-sm font-bold py-2 px-3 rounded-lg shadow transition whitespace-nowrap"
+                                >
+                                    {fixLabels[issue.fix]}
+                                </button>
+                            )}
+                        </li>
+                    ))}
+                </ul>
+            )}
+            {corrections.length > 0 && (
+                <div className="mt-6 pt-4 border-t">
+                    <h4 className="text-sm font-semibold text-slate-600 mb-2">Corrections applied (included in reports)</h4>
+                    <ul className="text-sm text-slate-600 list-disc list-inside">
+                        {corrections.map((c, i) => <li key={i}>{c.description}</li>)}
+                    </ul>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default DataQualityPanel;
@@ -1,10 +1,16 @@
 import React from 'react';
 import { ProcessedData, ReportConfig } from '../types';
+import ToleranceBadge from './ToleranceBadge';
+import ExclusionCell from './ExclusionCell';
+import UncertaintyValue from './UncertaintyValue';
+import { findDeviationOutliers } from '../services/dataQuality';
 
 interface DataTableProps {
     data: ProcessedData[];
     config: ReportConfig;
     hasValidationData: boolean;
+    /** Excludes a reading with a reason, or restores it with null. Adds the exclusion column. */
+    onSetExclusion?: (index: number, reason: string | null) => void;
 }
 
 const getDeviationColor = (deviation: number, maxAbsDeviation: number): string => {
@@ -15,10 +21,19 @@ const getDeviationColor = (deviation: number, maxAbsDeviation: number): string =
     return 'bg-green-100';
 };
 
+// Rejected readings have NaN volumes, which become null in saved projects.
+const formatValue = (value: number | null | undefined, decimals: number): string =>
+    typeof value === 'number' && !isNaN(value) ? value.toFixed(decimals) : 'N/A';
 
-const DataTable: React.FC<DataTableProps> = ({ data, config, hasValidationData }) => {
+// Struck-through cells of an excluded reading; the exclusion cell itself stays readable.
+const EXCLUDED_ROW_CLASS = 'bg-gray-50 text-gray-400 [&>td:not(:last-child)]:line-through';
+
+const DataTable: React.FC<DataTableProps> = ({ data, config, hasValidationData, onSetExclusion }) => {
     
-    const maxAbsDeviation = hasValidationData ? Math.max(...data.map(d => Math.abs(d.deviation || 0))) : 0;
+    const maxAbsDeviation = hasValidationData ? Math.max(...data.filter(d => !d.exclusion).map(d => Math.abs(d.deviation || 0))) : 0;
+    const isCompensated = hasValidationData && data.some(d => d.compensation);
+    const hasTolerance = hasValidationData && data.some(d => d.withinTolerance !== undefined);
+    const hasUncertainty = hasValidationData && data.some(d => d.uncertainty !== undefined);
     
     const headers = [];
     if (config.columnOrder === 'height-volume') {
@@ -32,8 +47,17 @@ const DataTable: React.FC<DataTableProps> = ({ data, config, hasValidationData }
     if(hasValidationData) {
         headers[headers.indexOf(config.volumeHeader)] = `Chart ${config.volumeHeader}`;
         headers.push(`Field ${config.volumeHeader}`);
-        headers.push('Deviation');
+        if (isCompensated) {
+            headers.push('Tank Temp (°C)', 'Gross Deviation', 'Net Deviation');
+        } else {
+            headers.push('Deviation');
+        }
+        if (hasTolerance) headers.push('Tolerance');
+        if (hasUncertainty) headers.push('U (k=2)');
     }
+    const canExclude = hasValidationData && !!onSetExclusion;
+    const outliers = canExclude ? findDeviationOutliers(data) : new Map<number, number>();
+    if (canExclude) headers.push('Include');
 
     return (
         <div className="overflow-x-auto bg-white rounded-lg shadow">
@@ -50,26 +74,61 @@ const DataTable: React.FC<DataTableProps> = ({ data, config, hasValidationData }
                     </thead>
                     <tbody className="bg-white divide-y divide-gray-200">
                         {data.map((row, index) => {
-                            const deviationColor = hasValidationData && row.deviation !== undefined
+                            const deviationColor = hasValidationData && row.deviation !== undefined && !row.exclusion
                                 ? getDeviationColor(row.deviation, maxAbsDeviation)
                                 : 'bg-white';
                                 
-                            const heightCell = <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-800">{row.height.toFixed(config.decimalPlaces)}</td>;
-                            const chartVolumeCell = <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-800">{row.chartVolume.toFixed(config.decimalPlaces)}</td>;
+                            const heightCell = (
+                                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-800">
+                                    {row.height.toFixed(config.decimalPlaces)}
+                                    {row.outOfRange && <span className="ml-2 text-xs font-semibold text-amber-700" title="Outside the chart's height range">Out of range</span>}
+                                </td>
+                            );
+                            const chartVolumeCell = <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-800">{formatValue(row.chartVolume, config.decimalPlaces)}</td>;
                             
                             return (
-                                <tr key={index} className="hover:bg-gray-50">
+                                <tr key={index} className={row.exclusion ? EXCLUDED_ROW_CLASS : row.outOfRange ? 'bg-amber-50 hover:bg-amber-100' : 'hover:bg-gray-50'}>
                                     {config.columnOrder === 'height-volume' ? <>{heightCell}{chartVolumeCell}</> : <>{chartVolumeCell}{heightCell}</>}
                                     {hasValidationData && (
                                         <>
                                             <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-800">
-                                                {row.fieldVolume?.toFixed(config.decimalPlaces) || 'N/A'}
-                                            </td>
-                                            <td className={`px-6 py-4 whitespace-nowrap text-sm font-medium ${deviationColor}`}>
-                                                {row.deviation?.toFixed(config.decimalPlaces) || 'N/A'}
+                                                {formatValue(row.fieldVolume, config.decimalPlaces)}
                                             </td>
+                                            {isCompensated ? (
+                                                <>
+                                                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-800">{row.conditions?.tankTemperature ?? 'N/A'}</td>
+                                                    <td className={`px-6 py-4 whitespace-nowrap text-sm ${config.temperature.comparisonBasis === 'gross' || !row.compensation ? `font-medium ${deviationColor}` : 'text-gray-800'}`}>
+                                                        {formatValue(row.compensation ? row.compensation.grossDeviation : row.deviation, config.decimalPlaces)}
+                                                    </td>
+                                                    <td className={`px-6 py-4 whitespace-nowrap text-sm ${config.temperature.comparisonBasis === 'net' && row.compensation ? `font-medium ${deviationColor}` : 'text-gray-800'}`}>
+                                                        {formatValue(row.compensation?.netDeviation, config.decimalPlaces)}
+                                                    </td>
+                                                </>
+                                            ) : (
+                                                <td className={`px-6 py-4 whitespace-nowrap text-sm font-medium ${deviationColor}`}>
+                                                    {formatValue(row.deviation, config.decimalPlaces)}
+                                                </td>
+                                            )}
+                                            {hasTolerance && (
+                                                <td className="px-6 py-4 whitespace-nowrap text-sm">
+                                                    <ToleranceBadge withinTolerance={row.withinTolerance} tolerance={row.tolerance} decimals={config.decimalPlaces} />
+                                                </td>
+                                            )}
+                                            {hasUncertainty && (
+                                                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-800">
+                                                    <UncertaintyValue uncertainty={row.uncertainty} withinUncertainty={row.withinUncertainty} decimals={config.decimalPlaces} />
+                                                </td>
+                                            )}
                                         </>
                                     )}
+                                    {canExclude && (
+                                        <ExclusionCell
+                                            exclusion={row.exclusion}
+                                            outlierScore={outliers.get(index)}
+                                            onExclude={(reason) => onSetExclusion(index, reason)}
+                                            onRestore={() => onSetExclusion(index, null)}
+                                        />
+                                    )}
                                 </tr>
                             );
                         })}
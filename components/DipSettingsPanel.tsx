@@ -0,0 +1,57 @@
+import React from 'react';
+import { DipSettings } from '../types';
+
+interface DipSettingsPanelProps {
+    settings: DipSettings;
+    heightUnit: string;
+    /** Set once validation datasets exist, since their readings were converted with these settings. */
+    isLocked: boolean;
+    onChange: (settings: DipSettings) => void;
+}
+
+const inputClassName = 'mt-1 block w-full px-3 py-2 bg-white border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500';
+
+const DipSettingsPanel: React.FC<DipSettingsPanelProps> = ({ settings, heightUnit, isLocked, onChange }) => {
+    const update = (changes: Partial<DipSettings>) => onChange({ ...settings, ...changes });
+
+    return (
+        <div className="bg-slate-50 p-4 rounded-lg shadow-inner mb-6">
+            <fieldset disabled={isLocked} className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div>
+                    <label htmlFor="dipEntryMode" className="block text-sm font-medium text-gray-700">Readings Are</label>
+                    <select
+                        id="dipEntryMode"
+                        value={settings.entryMode}
+                        onChange={(e) => update({ entryMode: e.target.value as DipSettings['entryMode'] })}
+                        className="mt-1 block w-full pl-3 pr-10 py-2 border-gray-300 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 rounded-md"
+                    >
+                        <option value="innage">Innage (dip up from the plate)</option>
+                        <option value="ullage">Ullage (down from the reference point)</option>
+                    </select>
+                </div>
+                <div>
+                    <label htmlFor="dipReferenceHeight" className="block text-sm font-medium text-gray-700">Reference Height ({heightUnit})</label>
+                    <input
+                        type="number"
+                        id="dipReferenceHeight"
+                        value={settings.referenceHeight}
+                        onChange={(e) => update({ referenceHeight: parseFloat(e.target.value) || 0 })}
+                        disabled={settings.entryMode === 'innage'}
+                        className={`${inputClassName} disabled:bg-gray-100`}
+                    />
+                </div>
+                <div>
+                    <label htmlFor="dipDatumOffset" className="block text-sm font-medium text-gray-700">Dip Plate Above Chart Datum ({heightUnit})</label>
+                    <input type="number" id="dipDatumOffset" value={settings.datumOffset} onChange={(e) => update({ datumOffset: parseFloat(e.target.value) || 0 })} className={`${inputClassName} disabled:bg-gray-100`}/>
+                </div>
+            </fieldset>
+            <p className="text-xs text-slate-500 mt-3">
+                Applied when readings are entered. A "Water" column (water-finding paste cut, from the dip plate) is subtracted from
+                the product volume through the chart.
+                {isLocked && ' The settings are locked while validation datasets are loaded, as their readings were converted with them; remove the datasets to change them.'}
+            </p>
+        </div>
+    );
+};
+
+export default DipSettingsPanel;
@@ -0,0 +1,75 @@
+import React, { useState } from 'react';
+import { ReadingExclusion } from '../types';
+
+interface ExclusionCellProps {
+    exclusion?: ReadingExclusion;
+    /** Robust z-score of the reading when it is suggested as an outlier. */
+    outlierScore?: number;
+    onExclude: (reason: string) => void;
+    onRestore: () => void;
+}
+
+const ExclusionCell: React.FC<ExclusionCellProps> = ({ exclusion, outlierScore, onExclude, onRestore }) => {
+    const [isEditing, setIsEditing] = useState(false);
+    const [reason, setReason] = useState('');
+
+    const handleConfirm = () => {
+        if (!reason.trim()) return;
+        onExclude(reason.trim());
+        setIsEditing(false);
+        setReason('');
+    };
+
+    if (exclusion) {
+        return (
+            <td className="px-6 py-4 text-sm">
+                <span className="block text-xs text-gray-600" title={`Excluded ${exclusion.excludedAt.split('T')[0]}`}>Excluded: {exclusion.reason}</span>
+                <button onClick={onRestore} className="text-xs font-medium text-indigo-600 hover:text-indigo-800">Restore</button>
+            </td>
+        );
+    }
+
+    if (isEditing) {
+        return (
+            <td className="px-6 py-4 text-sm">
+                <input
+                    type="text"
+                    value={reason}
+                    autoFocus
+                    onChange={(e) => setReason(e.target.value)}
+                    onKeyDown={(e) => {
+                        if (e.key === 'Enter') handleConfirm();
+                        if (e.key === 'Escape') setIsEditing(false);
+                    }}
+                    placeholder="Reason, e.g. dip mis-read"
+                    className="block w-48 px-2 py-1 text-sm bg-white border border-gray-300 rounded-md focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+                />
+                <div className="mt-1 flex gap-2">
+                    <button onClick={handleConfirm} disabled={!reason.trim()} className="text-xs font-medium text-red-600 hover:text-red-800 disabled:text-gray-400">Exclude</button>
+                    <button onClick={() => setIsEditing(false)} className="text-xs font-medium text-gray-500 hover:text-gray-700">Cancel</button>
+                </div>
+            </td>
+        );
+    }
+
+    return (
+        <td className="px-6 py-4 whitespace-nowrap text-sm">
+            {outlierScore !== undefined && (
+                <span className="mr-2 px-2 py-0.5 rounded text-xs font-semibold bg-amber-100 text-amber-800" title={`Robust z-score ${outlierScore.toFixed(1)}`}>
+                    Possible outlier
+                </span>
+            )}
+            <button
+                onClick={() => {
+                    setReason(outlierScore !== undefined ? `Outlier (robust z-score ${outlierScore.toFixed(1)})` : '');
+                    setIsEditing(true);
+                }}
+                className="text-xs font-medium text-gray-600 hover:text-red-700"
+            >
+                Exclude
+            </button>
+        </td>
+    );
+};
+
+export default ExclusionCell;
@@ -7,6 +7,7 @@ interface FileUploadProps {
     isLoading: boolean;
     file?: File | null;
     acceptedFileType?: string;
+    children?: React.ReactNode;
 }
 
 const FileIcon: React.FC = () => (
@@ -16,7 +17,7 @@ const FileIcon: React.FC = () => (
 );
 
 
-const FileUpload: React.FC<FileUploadProps> = ({ onFileUpload, title, description, isLoading, file, acceptedFileType = ".txt" }) => {
+const FileUpload: React.FC<FileUploadProps> = ({ onFileUpload, title, description, isLoading, file, acceptedFileType = ".txt", children }) => {
     const [isDragging, setIsDragging] = useState(false);
 
     const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -88,6 +89,7 @@ const FileUpload: React.FC<FileUploadProps> = ({ onFileUpload, title, descriptio
                 </label>
                 <input id="file-upload" name="file-upload" type="file" className="sr-only" onChange={handleFileChange} accept={acceptedFileType} />
             </div>
+            {children}
         </div>
     );
 };
@@ -0,0 +1,89 @@
+import React, { useMemo } from 'react';
+import { ProcessedData, ReportConfig } from '../types';
+import ChartComponent from './Chart';
+import { compareWithTheoretical, getTankGeometry } from '../services/tankGeometry';
+import { heightUnitLabel, volumeUnitLabel } from '../services/units';
+
+interface GeometryComparisonPanelProps {
+    data: ProcessedData[];
+    config: ReportConfig;
+}
+
+const WORST_POINTS = 10;
+
+const GeometryComparisonPanel: React.FC<GeometryComparisonPanelProps> = ({ data, config }) => {
+    const { geometry, error } = useMemo(() => getTankGeometry(config), [config]);
+    const comparison = useMemo(() => (geometry ? compareWithTheoretical(data, geometry, config) : []), [data, geometry, config]);
+
+    const sortedData = useMemo(() => comparison.map(c => ({ height: c.height, chartVolume: c.chartVolume })), [comparison]);
+    const theoreticalValues = useMemo(() => comparison.map(c => c.theoreticalVolume), [comparison]);
+    const worstPoints = useMemo(
+        // Ranked by absolute deviation: near-empty heights have tiny theoretical volumes and inflated percentages.
+        () => [...comparison].sort((a, b) => Math.abs(b.deviation) - Math.abs(a.deviation)).slice(0, WORST_POINTS),
+        [comparison]
+    );
+
+    const dp = config.decimalPlaces;
+    const heightUnit = heightUnitLabel(config.heightUnit);
+    const volumeUnit = volumeUnitLabel(config.volumeUnit);
+
+    if (!geometry) {
+        return (
+            <div className="bg-white rounded-lg shadow p-6">
+                <h3 className="text-xl font-semibold text-slate-700 mb-2">Theoretical Chart Comparison</h3>
+                <p className="text-sm text-slate-500">{error}</p>
+            </div>
+        );
+    }
+
+    const maxAbsDeviation = comparison.reduce((max, c) => Math.max(max, Math.abs(c.deviation)), 0);
+    const rmsDeviation = Math.sqrt(comparison.reduce((sum, c) => sum + c.deviation * c.deviation, 0) / (comparison.length || 1));
+
+    return (
+        <div className="bg-white rounded-lg shadow p-6 space-y-4">
+            <h3 className="text-xl font-semibold text-slate-700">Theoretical Chart Comparison</h3>
+            <p className="text-sm text-slate-500">
+                Uploaded chart compared with a {geometry.shape.replace('-', ' ')}
+                {geometry.shape === 'horizontal-cylinder' ? ` with ${geometry.headType} heads` : ''} computed from the configured dimensions.
+            </p>
+            <div className="grid grid-cols-2 gap-4 text-center">
+                <div>
+                    <p className="text-xs text-gray-500">Max Deviation</p>
+                    <p className="text-2xl font-semibold text-red-600">{maxAbsDeviation.toFixed(dp)} {volumeUnit}</p>
+                </div>
+                <div>
+                    <p className="text-xs text-gray-500">RMS Deviation</p>
+                    <p className="text-2xl font-semibold text-blue-600">{rmsDeviation.toFixed(dp)} {volumeUnit}</p>
+                </div>
+            </div>
+            <ChartComponent data={sortedData} config={config} overlayValues={theoreticalValues} overlayLabel="Theoretical" />
+            <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200 text-sm">
+                    <thead className="bg-gray-50">
+                        <tr>
+                            <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Height ({heightUnit})</th>
+                            <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Chart ({volumeUnit})</th>
+                            <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Theoretical ({volumeUnit})</th>
+                            <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Deviation</th>
+                            <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">%</th>
+                        </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-200">
+                        {worstPoints.map((c, i) => (
+                            <tr key={i}>
+                                <td className="px-4 py-2">{c.height.toFixed(dp)}</td>
+                                <td className="px-4 py-2">{c.chartVolume.toFixed(dp)}</td>
+                                <td className="px-4 py-2">{c.theoreticalVolume.toFixed(dp)}</td>
+                                <td className="px-4 py-2">{c.deviation.toFixed(dp)}</td>
+                                <td className={`px-4 py-2 font-medium ${Math.abs(c.percentDeviation) > 1 ? 'text-red-600' : 'text-gray-800'}`}>{c.percentDeviation.toFixed(2)}%</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+                <p className="text-xs text-slate-500 mt-2">Showing the {worstPoints.length} points with the largest deviation.</p>
+            </div>
+        </div>
+    );
+};
+
+export default GeometryComparisonPanel;
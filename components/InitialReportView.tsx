@@ -1,7 +1,14 @@
 import React, { useState, useRef } from 'react';
-import { ProcessedData, ValidationStats, ReportConfig } from '../types';
+import { ProcessedData, ValidationStats, ReportConfig, RejectedRow, AppliedCorrection, QualityFix, InterpolationMethod, ExtrapolationPolicy, StrappingChartSettings } from '../types';
 import ChartComponent, { ChartRef } from './Chart';
 import DataTable from './DataTable';
+import AtgExportPanel from './AtgExportPanel';
+import DataQualityPanel from './DataQualityPanel';
+import GeometryComparisonPanel from './GeometryComparisonPanel';
+import TiltCorrectionPanel from './TiltCorrectionPanel';
+import InterpolationPanel from './InterpolationPanel';
+import StrappingChartSettingsForm from './StrappingChartSettingsForm';
+import RejectedRowsNotice from './RejectedRowsNotice';
 import { exportToPDF, exportToExcel, exportStrappingChartToPDF, exportStrappingChartToExcel, exportStrappingChartToWord } from '../services/exportService';
 
 
@@ -131,6 +138,16 @@ interface InitialReportViewProps {
     data: ProcessedData[];
     stats: ValidationStats | null;
     config: ReportConfig;
+    sourceFormat?: string | null;
+    rejectedRows?: RejectedRow[];
+    corrections: AppliedCorrection[];
+    onApplyQualityFix: (fix: QualityFix) => void;
+    validationPointCount: number;
+    onApplyTilt: (tiltAngle: number, dipPointOffset: string) => void;
+    onEstimateTilt: (dipPointOffset: string) => void;
+    onChangeInterpolation: (method: InterpolationMethod) => void;
+    onChangeExtrapolation: (policy: ExtrapolationPolicy, includeInStats: boolean) => void;
+    onChangeStrappingSettings: (settings: StrappingChartSettings) => void;
     onNavigateToValidation: () => void;
     onSaveProject: () => void;
 }
@@ -151,25 +168,41 @@ const InitialReportView: React.FC<InitialReportViewProps> = (props) => {
     const handleExportPDF = () => {
         const pdfTitle = `${props.config.clientName} - ${props.config.tankCode || 'N/A'} - Initial Analysis Report`;
         const pdfFilename = `${baseFilename}_Initial_Analysis.pdf`;
-        exportToPDF(props.data, props.config, pdfTitle, props.stats, pdfFilename);
+        exportToPDF(props.data, props.config, pdfTitle, props.stats, pdfFilename, props.corrections);
     };
 
     const handleExportExcel = () => {
         const filename = `${baseFilename}_Initial_Analysis.xlsx`;
-        exportToExcel(props.data, props.config, filename, props.stats);
+        exportToExcel(props.data, props.config, filename, props.stats, props.corrections);
     };
 
-    const handleExportStrappingPDF = () => exportStrappingChartToPDF(props.data, props.config);
-    const handleExportStrappingExcel = () => exportStrappingChartToExcel(props.data, props.config);
-    const handleExportStrappingWord = () => exportStrappingChartToWord(props.data, props.config);
+    const runStrappingExport = async (exporter: (data: ProcessedData[], config: ReportConfig) => Promise<void>) => {
+        try {
+            await exporter(props.data, props.config);
+        } catch (err) {
+            alert((err as Error).message);
+        }
+    };
+
+    const handleExportStrappingPDF = () => runStrappingExport(exportStrappingChartToPDF);
+    const handleExportStrappingExcel = () => runStrappingExport(exportStrappingChartToExcel);
+    const handleExportStrappingWord = () => runStrappingExport(exportStrappingChartToWord);
     
     return (
         <div className="space-y-8">
             <div className="text-center">
-                <h2 className="text-3xl font-bold text-slate-800">Step 3: Analysis & Next Steps</h2>
+                <h2 className="text-3xl font-bold text-slate-800">Step 4: Analysis & Next Steps</h2>
                 <p className="text-slate-500 mt-2">
                     Review the initial analysis of your data. You can now export this view, or proceed to generate a formatted report from a template or validate the data with field measurements.
                 </p>
+                {props.sourceFormat && (
+                    <p className="mt-3 inline-block bg-indigo-50 text-indigo-700 text-sm font-medium px-3 py-1 rounded-full">
+                        Detected format: {props.sourceFormat} &middot; {props.data.length} chart points
+                    </p>
+                )}
+                {props.rejectedRows && props.rejectedRows.length > 0 && (
+                    <RejectedRowsNotice rows={props.rejectedRows} className="mt-4 max-w-2xl mx-auto text-left" />
+                )}
             </div>
 
             <div className="grid grid-cols-1 lg:grid-cols-2 gap-8 items-start bg-slate-50 p-6 rounded-xl shadow-inner">
@@ -184,13 +217,21 @@ const InitialReportView: React.FC<InitialReportViewProps> = (props) => {
                      </div>
                      <div className="pt-6 border-t">
                         <h3 className="text-xl font-semibold text-slate-700 mb-4 text-center">Generate A4 Strapping Chart</h3>
-                        <p className="text-sm text-slate-500 text-center mb-4">Export a 300-point, single-page chart for printing.</p>
+                        <StrappingChartSettingsForm data={props.data} config={props.config} onChange={props.onChangeStrappingSettings} />
                         <div className="flex justify-center items-center gap-4 flex-wrap">
                             <button onClick={handleExportStrappingPDF} className="bg-red-500 hover:bg-red-600 text-white font-bold py-2 px-4 rounded-lg shadow transition">PDF</button>
                             <button onClick={handleExportStrappingExcel} className="bg-emerald-500 hover:bg-emerald-600 text-white font-bold py-2 px-4 rounded-lg shadow transition">Excel</button>
                              <button onClick={handleExportStrappingWord} className="bg-blue-500 hover:bg-blue-600 text-white font-bold py-2 px-4 rounded-lg shadow transition">Word</button>
                         </div>
                      </div>
+                     <AtgExportPanel data={props.data} config={props.config} />
+                     <TiltCorrectionPanel
+                        key={props.config.tiltAngle}
+                        config={props.config}
+                        validationPointCount={props.validationPointCount}
+                        onApply={props.onApplyTilt}
+                        onEstimate={props.onEstimateTilt}
+                     />
                       <div className="pt-6 border-t text-center">
                         <h3 className="text-lg font-semibold text-slate-600 mb-3">Or Export Current Table View</h3>
                         <div className="flex justify-center items-center gap-4">
@@ -215,6 +256,12 @@ const InitialReportView: React.FC<InitialReportViewProps> = (props) => {
                 </div>
             </div>
             
+            <DataQualityPanel data={props.data} config={props.config} corrections={props.corrections} onApplyFix={props.onApplyQualityFix} />
+
+            <InterpolationPanel data={props.data} config={props.config} onChangeMethod={props.onChangeInterpolation} onChangeExtrapolation={props.onChangeExtrapolation} />
+
+            <GeometryComparisonPanel data={props.data} config={props.config} />
+
             <DataTable data={props.data} config={props.config} hasValidationData={false} />
 
             {isChartEditorOpen && (
@@ -0,0 +1,126 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { CrossValidationResult, ExtrapolationPolicy, InterpolationMethod, ProcessedData, ReportConfig } from '../types';
+import { extrapolationPolicies, interpolationMethods, prepareChart } from '../services/interpolation';
+import { runComputeTask } from '../services/computeClient';
+import { heightUnitLabel, volumeUnitLabel } from '../services/units';
+
+interface InterpolationPanelProps {
+    data: ProcessedData[];
+    config: ReportConfig;
+    onChangeMethod: (method: InterpolationMethod) => void;
+    onChangeExtrapolation: (policy: ExtrapolationPolicy, includeInStats: boolean) => void;
+}
+
+const sameValues = (a: Float64Array, b: Float64Array) => a.length === b.length && a.every((v, i) => v === b[i]);
+
+const InterpolationPanel: React.FC<InterpolationPanelProps> = ({ data, config, onChangeMethod, onChangeExtrapolation }) => {
+    const [results, setResults] = useState<CrossValidationResult[] | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    // The chart is passed in afresh whenever the report settings change, so the
+    // cross-validation is only rerun when its sorted points actually differ.
+    const validatedChart = useRef<{ heights: Float64Array; volumes: Float64Array } | null>(null);
+
+    useEffect(() => {
+        const { heights, volumes } = prepareChart(data);
+        const previous = validatedChart.current;
+        if (previous && sameValues(previous.heights, heights) && sameValues(previous.volumes, volumes)) return;
+        const chart = { heights, volumes };
+        validatedChart.current = chart;
+
+        setResults(null);
+        setError(null);
+        // Only the latest chart's results are shown; earlier runs that finish late are dropped.
+        Promise.all(interpolationMethods.map(m => runComputeTask('crossValidateInterpolation', data, m.id)))
+            .then(computed => {
+                if (validatedChart.current === chart) setResults(computed);
+            })
+            .catch(err => {
+                if (validatedChart.current !== chart) return;
+                validatedChart.current = null;
+                setError((err as Error).message);
+            });
+    }, [data]);
+
+    const bestRms = results ? Math.min(...results.map(r => r.rmsError)) : NaN;
+    const dp = config.decimalPlaces;
+    const volumeUnit = volumeUnitLabel(config.volumeUnit);
+    const heightUnit = heightUnitLabel(config.heightUnit);
+
+    return (
+        <div className="bg-white rounded-lg shadow p-6">
+            <h3 className="text-xl font-semibold text-slate-700 mb-2">Interpolation Method</h3>
+            <p className="text-sm text-slate-500 mb-4">
+                Used for the strapping chart, validation and delivery checks. Each method is cross-validated by removing every
+                interior chart point in turn and predicting it from the remaining {Math.max(0, prepareChart(data).heights.length - 1)} points.
+            </p>
+            {error && <p className="text-sm text-red-600 mb-4">The cross-validation failed: {error}</p>}
+            <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200 text-sm">
+                    <thead className="bg-gray-50">
+                        <tr>
+                            <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Method</th>
+                            <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">LOO RMS Error ({volumeUnit})</th>
+                            <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">LOO Max Error ({volumeUnit})</th>
+                            <th className="px-4 py-2"></th>
+                        </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-200">
+                        {interpolationMethods.map((m, i) => {
+                            const result = results?.[i];
+                            const isSelected = (config.interpolationMethod || 'linear') === m.id;
+                            return (
+                                <tr key={m.id} className={isSelected ? 'bg-indigo-50' : ''}>
+                                    <td className="px-4 py-2">
+                                        <p className="font-medium text-slate-700">{m.name}</p>
+                                        <p className="text-xs text-slate-500">{m.description}</p>
+                                    </td>
+                                    <td className={`px-4 py-2 ${result && result.pointCount > 0 && result.rmsError === bestRms ? 'font-semibold text-green-700' : ''}`}>
+                                        {!result ? (error ? 'N/A' : 'Calculating…') : result.pointCount > 0 ? result.rmsError.toFixed(dp) : 'N/A'}
+                                    </td>
+                                    <td className="px-4 py-2">
+                                        {!result ? (error ? 'N/A' : 'Calculating…') : result.pointCount > 0 ? `${result.maxError.toFixed(dp)} (at ${result.maxErrorHeight.toFixed(dp)} ${heightUnit})` : 'N/A'}
+                                    </td>
+                                    <td className="px-4 py-2 text-right">
+                                        {isSelected ? (
+                                            <span className="text-xs font-bold uppercase text-indigo-700">In use</span>
+                                        ) : (
+                                            <button onClick={() => onChangeMethod(m.id)} className="bg-indigo-600 hover:bg-indigo-700 text-white text-sm font-bold py-1 px-3 rounded-lg shadow transition">
+                                                Use
+                                            </button>
+                                        )}
+                                    </td>
+                                </tr>
+                            );
+                        })}
+                    </tbody>
+                </table>
+            </div>
+            <div className="mt-6 pt-4 border-t grid grid-cols-1 md:grid-cols-2 gap-4 items-end">
+                <div>
+                    <label htmlFor="extrapolation" className="block text-sm font-medium text-gray-700">Readings Outside the Chart</label>
+                    <select
+                        id="extrapolation"
+                        value={config.extrapolation}
+                        onChange={(e) => onChangeExtrapolation(e.target.value as ExtrapolationPolicy, config.includeOutOfRangeInStats)}
+                        className="mt-1 block w-full pl-3 pr-10 py-2 border-gray-300 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 rounded-md"
+                    >
+                        {extrapolationPolicies.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                    </select>
+                    <p className="text-xs text-slate-500 mt-1">{extrapolationPolicies.find(p => p.id === config.extrapolation)?.description}</p>
+                </div>
+                <label className="flex items-center gap-2 text-sm text-gray-700 pb-6">
+                    <input
+                        type="checkbox"
+                        checked={config.includeOutOfRangeInStats}
+                        disabled={config.extrapolation === 'reject'}
+                        onChange={(e) => onChangeExtrapolation(config.extrapolation, e.target.checked)}
+                        className="h-4 w-4 text-indigo-600 border-gray-300 rounded"
+                    />
+                    Include out-of-range readings in validation statistics
+                </label>
+            </div>
+        </div>
+    );
+};
+
+export default InterpolationPanel;
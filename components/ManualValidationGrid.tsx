@@ -0,0 +1,189 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ManualEntryColumn, ManualValidationEntry } from '../types';
+import { countManualEntryErrors, emptyManualRow, manualEntryColumns, pasteIntoRows, validateManualCell } from '../services/manualEntry';
+
+interface ManualValidationGridProps {
+    entry: ManualValidationEntry;
+    onChange: (entry: ManualValidationEntry) => void;
+    onSubmit: () => void;
+    isLoading: boolean;
+    temperatureEnabled: boolean;
+    /** 'ullage' when readings are taken down from the reference point. */
+    dipMode: 'innage' | 'ullage';
+    heightUnit: string;
+    volumeUnit: string;
+}
+
+const placeholders: Record<ManualEntryColumn, string> = {
+    height: 'e.g., 109',
+    volume: 'e.g., 7150',
+    waterHeight: '0',
+    tankTemperature: 'e.g., 24.5',
+};
+
+const ManualValidationGrid: React.FC<ManualValidationGridProps> = ({ entry, onChange, onSubmit, isLoading, temperatureEnabled, dipMode, heightUnit, volumeUnit }) => {
+    const gridRef = useRef<HTMLDivElement>(null);
+    const [focusTarget, setFocusTarget] = useState<{ row: number; column: number } | null>(null);
+    const columns = manualEntryColumns(temperatureEnabled);
+    const errorCount = countManualEntryErrors(entry, columns);
+
+    const headers: Record<ManualEntryColumn, string> = {
+        height: `${dipMode === 'ullage' ? 'Ullage' : 'Dip'} (${heightUnit})`,
+        volume: entry.type === 'point' ? `Measured Volume (${volumeUnit})` : `Fuel Delivery (${volumeUnit})`,
+        waterHeight: `Water (${heightUnit})`,
+        tankTemperature: 'Tank Temp (°C)',
+    };
+
+    // Focus moves after render so that it can land on a row that was just added.
+    useEffect(() => {
+        if (!focusTarget) return;
+        const input = gridRef.current?.querySelector<HTMLInputElement>(`[data-cell="${focusTarget.row}-${focusTarget.column}"]`);
+        input?.focus();
+        input?.select();
+        setFocusTarget(null);
+    }, [focusTarget]);
+
+    const updateRows = (rows: ManualValidationEntry['rows']) => onChange({ ...entry, rows });
+
+    const handleCellChange = (rowIndex: number, column: ManualEntryColumn, value: string) => {
+        updateRows(entry.rows.map((row, i) => (i === rowIndex ? { ...row, [column]: value } : row)));
+    };
+
+    const handlePaste = (e: React.ClipboardEvent<HTMLInputElement>, rowIndex: number, columnIndex: number) => {
+        const text = e.clipboardData.getData('text');
+        // A single value pastes normally; only blocks copied from a spreadsheet are spread over the grid.
+        if (!/[\t\n]/.test(text.trim())) return;
+        e.preventDefault();
+        updateRows(pasteIntoRows(entry.rows, text, rowIndex, columnIndex, columns));
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>, rowIndex: number, columnIndex: number) => {
+        const input = e.currentTarget;
+        const atStart = input.selectionStart === 0 && input.selectionEnd === 0;
+        const atEnd = input.selectionStart === input.value.length;
+        if (e.key === 'Enter' || e.key === 'ArrowDown') {
+            e.preventDefault();
+            if (rowIndex === entry.rows.length - 1) {
+                if (e.key === 'ArrowDown') return;
+                updateRows([...entry.rows, emptyManualRow()]);
+            }
+            setFocusTarget({ row: rowIndex + 1, column: columnIndex });
+        } else if (e.key === 'ArrowUp' && rowIndex > 0) {
+            e.preventDefault();
+            setFocusTarget({ row: rowIndex - 1, column: columnIndex });
+        } else if (e.key === 'ArrowLeft' && atStart && columnIndex > 0) {
+            e.preventDefault();
+            setFocusTarget({ row: rowIndex, column: columnIndex - 1 });
+        } else if (e.key === 'ArrowRight' && atEnd && columnIndex < columns.length - 1) {
+            e.preventDefault();
+            setFocusTarget({ row: rowIndex, column: columnIndex + 1 });
+        }
+    };
+
+    const handleRemoveRow = (rowIndex: number) => {
+        const rows = entry.rows.filter((_, i) => i !== rowIndex);
+        updateRows(rows.length > 0 ? rows : [emptyManualRow()]);
+    };
+
+    const handleNewEntry = () => {
+        onChange({ type: entry.type, rows: [emptyManualRow(), emptyManualRow(), emptyManualRow()] });
+    };
+
+    return (
+        <div className="w-full max-w-3xl mx-auto mt-6">
+            <div className="bg-slate-50 p-4 rounded-lg shadow-inner">
+                <div className="flex flex-wrap justify-between items-center gap-2 mb-4">
+                    <div className="inline-flex rounded-md shadow-sm" role="group">
+                        {(['delivery', 'point'] as const).map((type, i) => (
+                            <button
+                                key={type}
+                                type="button"
+                                onClick={() => onChange({ ...entry, type })}
+                                className={`px-4 py-2 text-sm font-medium border transition-colors ${i === 0 ? 'rounded-l-lg' : 'rounded-r-lg'} ${entry.type === type ? 'bg-indigo-600 text-white border-indigo-600' : 'bg-white text-gray-900 border-gray-200 hover:bg-gray-100'}`}
+                            >
+                                {type === 'delivery' ? 'Deliveries' : 'Point Measurements'}
+                            </button>
+                        ))}
+                    </div>
+                    <p className="text-xs text-slate-500">
+                        Paste a block copied from a spreadsheet into any cell. Enter and the arrow keys move between cells.
+                    </p>
+                </div>
+                <div className="overflow-x-auto" ref={gridRef}>
+                    <table className="min-w-full divide-y divide-gray-200">
+                        <thead className="bg-gray-100">
+                            <tr>
+                                <th className="px-2 py-3 text-left text-xs font-medium text-gray-500">#</th>
+                                {columns.map(column => (
+                                    <th key={column} className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{headers[column]}</th>
+                                ))}
+                                <th className="relative px-4 py-3"><span className="sr-only">Remove</span></th>
+                            </tr>
+                        </thead>
+                        <tbody className="bg-white divide-y divide-gray-200">
+                            {entry.rows.map((row, rowIndex) => (
+                                <tr key={rowIndex}>
+                                    <td className="px-2 py-2 text-xs text-gray-400 align-top pt-4">{rowIndex + 1}</td>
+                                    {columns.map((column, columnIndex) => {
+                                        const message = validateManualCell(row, column, entry.type);
+                                        return (
+                                            <td key={column} className="px-4 py-2 align-top">
+                                                <input
+                                                    type="text"
+                                                    inputMode="decimal"
+                                                    data-cell={`${rowIndex}-${columnIndex}`}
+                                                    value={row[column]}
+                                                    onChange={(e) => handleCellChange(rowIndex, column, e.target.value)}
+                                                    onPaste={(e) => handlePaste(e, rowIndex, columnIndex)}
+                                                    onKeyDown={(e) => handleKeyDown(e, rowIndex, columnIndex)}
+                                                    aria-invalid={message !== null}
+                                                    className={`mt-1 block w-full px-3 py-2 bg-white border rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 ${message ? 'border-red-400' : 'border-gray-300'}`}
+                                                    placeholder={placeholders[column]}
+                                                />
+                                                {message && <p className="mt-1 text-xs text-red-600">{message}</p>}
+                                            </td>
+                                        );
+                                    })}
+                                    <td className="px-4 py-2 whitespace-nowrap text-right text-sm font-medium align-top pt-4">
+                                        <button onClick={() => handleRemoveRow(rowIndex)} className="text-red-600 hover:text-red-900" title="Remove row">
+                                            <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
+                                                <path fillRule="evenodd" d="M9 2a1 1 0 00-.894.553L7.382 4H4a1 1 0 000 2v10a2 2 0 002 2h8a2 2 0 002-2V6a1 1 0 100-2h-3.382l-.724-1.447A1 1 0 0011 2H9zM7 8a1 1 0 012 0v6a1 1 0 11-2 0V8zm4 0a1 1 0 012 0v6a1 1 0 11-2 0V8z" clipRule="evenodd" />
+                                            </svg>
+                                        </button>
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+                <div className="mt-4 flex justify-between items-center gap-2">
+                    <div className="flex gap-2">
+                        <button
+                            onClick={() => updateRows([...entry.rows, emptyManualRow()])}
+                            className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+                        >
+                            Add Row
+                        </button>
+                        {entry.datasetId && (
+                            <button onClick={handleNewEntry} className="px-4 py-2 text-sm font-medium rounded-md text-indigo-700 bg-indigo-100 hover:bg-indigo-200">
+                                Start New Dataset
+                            </button>
+                        )}
+                    </div>
+                    <div className="flex items-center gap-3">
+                        {errorCount > 0 && <span className="text-sm text-red-600">{errorCount} cell{errorCount === 1 ? '' : 's'} to fix</span>}
+                        <button
+                            onClick={onSubmit}
+                            disabled={isLoading || errorCount > 0}
+                            className="inline-flex items-center px-6 py-2 border border-transparent text-base font-medium rounded-md shadow-sm text-white bg-green-600 hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-green-500 disabled:bg-gray-400"
+                        >
+                            {isLoading ? 'Processing...' : entry.datasetId ? 'Re-run Validation' : 'Validate Data'}
+                        </button>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default ManualValidationGrid;
@@ -5,13 +5,14 @@ interface MenuBarProps {
     onOpen: () => void;
     onSave: () => void;
     onExport: () => void;
+    onReprocess: () => void;
     onExit: () => void;
     onBack: () => void;
     onStartOver: () => void;
     showNavigationButtons: boolean;
 }
 
-const MenuBar: React.FC<MenuBarProps> = ({ onNew, onOpen, onSave, onExport, onExit, onBack, onStartOver, showNavigationButtons }) => {
+const MenuBar: React.FC<MenuBarProps> = ({ onNew, onOpen, onSave, onExport, onReprocess, onExit, onBack, onStartOver, showNavigationButtons }) => {
     const [isMenuOpen, setIsMenuOpen] = useState(false);
     const menuRef = useRef<HTMLDivElement>(null);
 
@@ -77,6 +78,13 @@ const MenuBar: React.FC<MenuBarProps> = ({ onNew, onOpen, onSave, onExport, onEx
                             >
                                 Export...
                             </button>
+                            <button
+                                onClick={() => handleMenuItemClick(onReprocess)}
+                                className="w-full text-left block px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 hover:text-gray-900"
+                                role="menuitem"
+                            >
+                                Re-process Source Files
+                            </button>
                             <div className="border-t border-gray-100"></div>
                             <button
                                 onClick={() => handleMenuItemClick(onExit)}
@@ -0,0 +1,78 @@
+import React, { useEffect, useState } from 'react';
+import { LibraryProject } from '../types';
+import { deleteLibraryProject, listLibraryProjects, searchLibraryProjects } from '../services/projectLibrary';
+
+interface RecentProjectsProps {
+    onOpen: (id: string) => void;
+}
+
+const formatSavedAt = (iso: string): string => new Date(iso).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+
+const RecentProjects: React.FC<RecentProjectsProps> = ({ onOpen }) => {
+    const [projects, setProjects] = useState<LibraryProject[] | null>(null);
+    const [query, setQuery] = useState('');
+    const [error, setError] = useState<string | null>(null);
+
+    const refresh = () => {
+        listLibraryProjects()
+            .then(setProjects)
+            .catch(err => setError((err as Error).message));
+    };
+
+    useEffect(refresh, []);
+
+    const handleDelete = async (id: string) => {
+        try {
+            await deleteLibraryProject(id);
+            refresh();
+        } catch (err) {
+            setError((err as Error).message);
+        }
+    };
+
+    if (error) {
+        return <p className="mt-8 text-sm text-slate-500 text-center">Recent projects are unavailable: {error}</p>;
+    }
+    if (!projects || projects.length === 0) return null;
+
+    const matches = searchLibraryProjects(projects, query);
+
+    return (
+        <div className="mt-8">
+            <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 mb-3">
+                <h3 className="text-lg font-medium text-slate-700">Recent Projects</h3>
+                <input
+                    type="search"
+                    value={query}
+                    onChange={(e) => setQuery(e.target.value)}
+                    placeholder="Search client, site, tank or date"
+                    className="block w-full sm:w-72 px-3 py-2 text-sm bg-white border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+                />
+            </div>
+            {matches.length === 0 ? (
+                <p className="text-sm text-slate-500">No saved project matches "{query}".</p>
+            ) : (
+                <ul className="divide-y divide-gray-200 border border-gray-200 rounded-lg bg-white">
+                    {matches.map(project => (
+                        <li key={project.id} className="flex items-center justify-between gap-4 px-4 py-3">
+                            <div className="min-w-0">
+                                <p className="text-sm font-semibold text-slate-800 truncate">
+                                    {project.siteName ? `${project.siteName} — ${project.clientName}` : project.clientName}
+                                </p>
+                                <p className="text-xs text-slate-500 truncate">
+                                    {project.tankCodes.join(', ')} · Calibrated {project.calibrationDate || 'N/A'} · Saved {formatSavedAt(project.updatedAt)}
+                                </p>
+                            </div>
+                            <div className="flex items-center gap-3 shrink-0">
+                                <button onClick={() => onOpen(project.id)} className="text-sm font-semibold text-indigo-600 hover:text-indigo-800">Open</button>
+                                <button onClick={() => handleDelete(project.id)} className="text-sm font-medium text-gray-500 hover:text-red-700">Delete</button>
+                            </div>
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+};
+
+export default RecentProjects;
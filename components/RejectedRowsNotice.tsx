@@ -0,0 +1,20 @@
+import React from 'react';
+import { RejectedRow } from '../types';
+
+interface RejectedRowsNoticeProps {
+    rows: RejectedRow[];
+    className?: string;
+}
+
+const RejectedRowsNotice: React.FC<RejectedRowsNoticeProps> = ({ rows, className = '' }) => (
+    <details className={`bg-yellow-50 border-l-4 border-yellow-400 p-3 rounded ${className}`}>
+        <summary className="cursor-pointer text-sm font-semibold text-yellow-800">
+            {rows.length} row{rows.length === 1 ? ' was' : 's were'} rejected during import
+        </summary>
+        <ul className="mt-2 max-h-40 overflow-y-auto text-sm text-yellow-900 list-disc list-inside">
+            {rows.map((r, i) => <li key={i}>Line {r.rowNumber}: {r.reason}</li>)}
+        </ul>
+    </details>
+);
+
+export default RejectedRowsNotice;
@@ -1,19 +1,33 @@
 import React, { useRef } from 'react';
-import { ProcessedData, ValidationStats, ReportConfig, DeliveryValidationData } from '../types';
-import { exportToPDF, exportToExcel } from '../services/exportService';
+import { ProcessedData, ReportConfig, DeliveryValidationData, AppliedCorrection, ValidationDataset, UncertaintyBudget } from '../types';
+import { exportValidationReportToPDF, exportValidationReportToExcel } from '../services/exportService';
 import DataTable from './DataTable';
+import CorrectedChartPanel from './CorrectedChartPanel';
+import ToleranceBadge from './ToleranceBadge';
+import ExclusionCell from './ExclusionCell';
+import UncertaintyValue from './UncertaintyValue';
+import UncertaintyBudgetTable from './UncertaintyBudgetTable';
+import RejectedRowsNotice from './RejectedRowsNotice';
+import { heightUnitLabel, volumeUnitLabel } from '../services/units';
+import { describeToleranceProfile } from '../services/tolerance';
+import { auditActionLabels, combinedVerdict } from '../services/validationDatasets';
+import { findDeviationOutliers } from '../services/dataQuality';
+import { calculateUncertaintyBudget } from '../services/uncertainty';
 
 declare const html2canvas: (element: HTMLElement, options?: any) => Promise<HTMLCanvasElement>;
 declare const saveAs: (blob: Blob, filename: string) => void;
 
 
 interface ReportDashboardProps {
-    data: ProcessedData[];
-    stats: ValidationStats | null;
+    chartData: ProcessedData[];
+    datasets: ValidationDataset[];
     config: ReportConfig;
     onReset: () => void;
     onSaveProject: () => void;
-    deliveryData: DeliveryValidationData[] | null;
+    onAddDataset: () => void;
+    onRemoveDataset: (id: string) => void;
+    onSetExclusion: (datasetId: string, index: number, reason: string | null) => void;
+    corrections: AppliedCorrection[];
 }
 
 const StatCard: React.FC<{ title: string; value: string; subtext?: string; color: string; }> = ({ title, value, subtext, color }) => (
@@ -32,15 +46,29 @@ const getDeviationColor = (deviation: number, maxAbsDeviation: number): string =
     return 'bg-green-100';
 };
 
-const DeliveryDataTable: React.FC<{ data: DeliveryValidationData[], config: ReportConfig }> = ({ data, config }) => {
+const DeliveryDataTable: React.FC<{ data: DeliveryValidationData[], config: ReportConfig, onSetExclusion: (index: number, reason: string | null) => void }> = ({ data, config, onSetExclusion }) => {
+    const heightUnit = heightUnitLabel(config.heightUnit);
+    const volumeUnit = volumeUnitLabel(config.volumeUnit);
+    const isCompensated = data.some(d => d.compensation);
+    const hasTolerance = data.some(d => d.withinTolerance !== undefined);
+    const hasUncertainty = data.some(d => d.uncertainty !== undefined);
     const headers = [
-        `Fuel Level Before (${config.heightHeader.match(/\(([^)]+)\)/)?.[1] || 'units'})`,
-        `Fuel Level After (${config.heightHeader.match(/\(([^)]+)\)/)?.[1] || 'units'})`,
-        `Reported Delivery (${config.volumeHeader.match(/\(([^)]+)\)/)?.[1] || 'units'})`,
-        `Chart Calculated Delivery (${config.volumeHeader.match(/\(([^)]+)\)/)?.[1] || 'units'})`,
-        `Deviation (${config.volumeHeader.match(/\(([^)]+)\)/)?.[1] || 'units'})`,
+        `Fuel Level Before (${heightUnit})`,
+        `Fuel Level After (${heightUnit})`,
+        `Reported Delivery (${volumeUnit})`,
+        `Chart Calculated Delivery (${volumeUnit})`,
+        ...(isCompensated
+            ? ['Tank Temp (°C)', `Chart Net Delivery (${volumeUnit})`, `Gross Deviation (${volumeUnit})`, `Net Deviation (${volumeUnit})`]
+            : [`Deviation (${volumeUnit})`]),
+        ...(hasTolerance ? ['Tolerance'] : []),
+        ...(hasUncertainty ? [`U (k=2, ${volumeUnit})`] : []),
+        'Include',
     ];
-    const maxAbsDeviation = Math.max(...data.map(d => Math.abs(d.deviation || 0)));
+    const maxAbsDeviation = Math.max(...data.filter(d => !d.exclusion).map(d => Math.abs(d.deviation || 0)));
+    const outliers = findDeviationOutliers(data);
+    const dp = config.decimalPlaces;
+    const cellClassName = 'px-6 py-4 whitespace-nowrap text-sm text-gray-800';
+    const format = (value: number | null) => (typeof value === 'number' && !isNaN(value) ? value.toFixed(dp) : 'N/A');
 
     return (
         <div className="overflow-x-auto bg-white rounded-lg shadow">
@@ -56,17 +84,54 @@ const DeliveryDataTable: React.FC<{ data: DeliveryValidationData[], config: Repo
                         </tr>
                     </thead>
                     <tbody className="bg-white divide-y divide-gray-200">
-                        {data.map((row, index) => (
-                            <tr key={index} className="hover:bg-gray-50">
-                                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-800">{row.heightBefore.toFixed(config.decimalPlaces)}</td>
-                                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-800">{row.heightAfter.toFixed(config.decimalPlaces)}</td>
-                                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-800">{row.reportedDelivery.toFixed(config.decimalPlaces)}</td>
-                                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-800">{row.chartCalculatedDelivery.toFixed(config.decimalPlaces)}</td>
-                                <td className={`px-6 py-4 whitespace-nowrap text-sm font-medium ${getDeviationColor(row.deviation, maxAbsDeviation)}`}>
-                                    {row.deviation.toFixed(config.decimalPlaces)}
-                                </td>
-                            </tr>
-                        ))}
+                        {data.map((row, index) => {
+                            const deviationClassName = `px-6 py-4 whitespace-nowrap text-sm font-medium ${row.exclusion ? '' : getDeviationColor(row.deviation, maxAbsDeviation)}`;
+                            const isNetBasis = config.temperature.comparisonBasis === 'net';
+                            return (
+                                <tr key={index} className={row.exclusion ? 'bg-gray-50 text-gray-400 [&>td:not(:last-child)]:line-through' : row.outOfRange ? 'bg-amber-50 hover:bg-amber-100' : 'hover:bg-gray-50'}>
+                                    <td className={cellClassName}>{row.heightBefore.toFixed(dp)}</td>
+                                    <td className={cellClassName}>
+                                        {row.heightAfter.toFixed(dp)}
+                                        {row.outOfRange && <span className="ml-2 text-xs font-semibold text-amber-700" title="A reading is outside the chart's height range">Out of range</span>}
+                                    </td>
+                                    <td className={cellClassName}>{row.reportedDelivery.toFixed(dp)}</td>
+                                    <td className={cellClassName}>{format(row.chartCalculatedDelivery)}</td>
+                                    {!isCompensated ? (
+                                        <td className={deviationClassName}>{format(row.deviation)}</td>
+                                    ) : row.compensation ? (
+                                        <>
+                                            <td className={cellClassName}>{row.conditionsBefore?.tankTemperature} → {row.conditionsAfter?.tankTemperature}</td>
+                                            <td className={cellClassName}>{row.compensation.netChartVolume.toFixed(dp)}</td>
+                                            <td className={isNetBasis ? cellClassName : deviationClassName}>{row.compensation.grossDeviation.toFixed(dp)}</td>
+                                            <td className={isNetBasis ? deviationClassName : cellClassName}>{row.compensation.netDeviation.toFixed(dp)}</td>
+                                        </>
+                                    ) : (
+                                        <>
+                                            <td className={cellClassName}>N/A</td>
+                                            <td className={cellClassName}>N/A</td>
+                                            <td className={deviationClassName}>{format(row.deviation)}</td>
+                                            <td className={cellClassName}>N/A</td>
+                                        </>
+                                    )}
+                                    {hasTolerance && (
+                                        <td className="px-6 py-4 whitespace-nowrap text-sm">
+                                            <ToleranceBadge withinTolerance={row.withinTolerance} tolerance={row.tolerance} decimals={dp} />
+                                        </td>
+                                    )}
+                                    {hasUncertainty && (
+                                        <td className={cellClassName}>
+                                            <UncertaintyValue uncertainty={row.uncertainty} withinUncertainty={row.withinUncertainty} decimals={dp} />
+                                        </td>
+                                    )}
+                                    <ExclusionCell
+                                        exclusion={row.exclusion}
+                                        outlierScore={outliers.get(index)}
+                                        onExclude={(reason) => onSetExclusion(index, reason)}
+                                        onRestore={() => onSetExclusion(index, null)}
+                                    />
+                                </tr>
+                            );
+                        })}
                     </tbody>
                 </table>
             </div>
@@ -83,21 +148,127 @@ const generateBaseFilename = (config: ReportConfig): string => {
     return `${client}_${tank}`;
 };
 
-const ReportDashboard: React.FC<ReportDashboardProps> = ({ data, stats, config, onReset, onSaveProject, deliveryData }) => {
+const DatasetSection: React.FC<{
+    dataset: ValidationDataset;
+    chartData: ProcessedData[];
+    config: ReportConfig;
+    onRemove: () => void;
+    onSetExclusion: (index: number, reason: string | null) => void;
+}> = ({ dataset, chartData, config, onRemove, onSetExclusion }) => {
+    const { stats } = dataset;
+    const isDelivery = dataset.type === 'delivery';
+    const rows: (ProcessedData | DeliveryValidationData)[] = dataset.type === 'delivery' ? dataset.deliveries : dataset.points;
+    const noun = isDelivery ? 'deliveries' : 'measurements';
+    const compensatedCount = rows.filter(d => d.compensation).length;
+    const outOfRangeCount = rows.filter(d => d.outOfRange).length;
+    const heightUnit = heightUnitLabel(config.heightUnit);
+    const deviationAt = (height: number) => (isDelivery ? `for delivery to ${height.toFixed(2)} ${heightUnit}` : `at ${height.toFixed(2)} ${heightUnit}`);
+
+    return (
+        <section className="space-y-6 border-t border-slate-300 pt-6">
+            <div className="flex justify-between items-start gap-4">
+                <div>
+                    <h3 className="text-xl font-semibold text-slate-700">
+                        {dataset.name} <span className="text-sm font-normal text-slate-500">({isDelivery ? 'delivery validation' : 'point validation'})</span>
+                    </h3>
+                    <p className="text-slate-500 text-sm">
+                        {`Validation analysis of ${stats.totalMeasurements} ${noun}.`}
+                        {stats.excludedCount ? ` ${stats.excludedCount} excluded by hand, not counted in the statistics.` : ''}
+                        {stats.beyondUncertaintyCount !== undefined && ` ${stats.beyondUncertaintyCount} of ${stats.totalMeasurements} deviate by more than their expanded uncertainty.`}
+                        {compensatedCount > 0 && ` ${compensatedCount} compensated to 15 °C; statistics are ${config.temperature.comparisonBasis} to ${config.temperature.comparisonBasis}.`}
+                        {outOfRangeCount > 0 && ` ${outOfRangeCount} outside the chart range${config.includeOutOfRangeInStats && config.extrapolation !== 'reject' ? '' : ', not counted in the statistics'}.`}
+                    </p>
+                </div>
+                <button onClick={onRemove} className="text-sm font-medium text-red-600 hover:text-red-800 whitespace-nowrap">Remove Dataset</button>
+            </div>
+            {dataset.rejectedRows && dataset.rejectedRows.length > 0 && <RejectedRowsNotice rows={dataset.rejectedRows} />}
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+                <StatCard title={isDelivery ? 'Total Deliveries' : 'Total Measurements'} value={stats.totalMeasurements.toString()} color="text-indigo-600" />
+                <StatCard title="Average Deviation" value={stats.averageDeviation.toFixed(config.decimalPlaces)} subtext={volumeUnitLabel(config.volumeUnit)} color="text-blue-600" />
+                <StatCard title="Max Positive Deviation" value={`+${stats.maxDeviation.value.toFixed(config.decimalPlaces)}`} subtext={deviationAt(stats.maxDeviation.height)} color="text-red-600" />
+                <StatCard title="Max Negative Deviation" value={stats.minDeviation.value.toFixed(config.decimalPlaces)} subtext={deviationAt(stats.minDeviation.height)} color="text-green-600" />
+                {stats.standardDeviation !== undefined && (
+                    <>
+                        <StatCard title="Standard Deviation" value={stats.standardDeviation.toFixed(config.decimalPlaces)} subtext={volumeUnitLabel(config.volumeUnit)} color="text-slate-700" />
+                        <StatCard title="RMS Deviation" value={(stats.rmsDeviation ?? 0).toFixed(config.decimalPlaces)} subtext={volumeUnitLabel(config.volumeUnit)} color="text-slate-700" />
+                        <StatCard title="Mean Absolute Deviation" value={(stats.meanAbsoluteDeviation ?? 0).toFixed(config.decimalPlaces)} subtext={volumeUnitLabel(config.volumeUnit)} color="text-slate-700" />
+                        <StatCard title="Average % Deviation" value={`${(stats.averagePercentDeviation ?? 0).toFixed(3)} %`} subtext={isDelivery ? 'of reported delivery' : 'of field volume'} color="text-slate-700" />
+                    </>
+                )}
+            </div>
+            {stats.verdict && (
+                <div className={`p-4 rounded-lg border-l-4 ${stats.verdict.passed ? 'bg-green-50 border-green-500 text-green-900' : 'bg-red-50 border-red-500 text-red-900'}`}>
+                    <p className="text-2xl font-bold">{stats.verdict.passed ? 'PASS' : 'FAIL'}</p>
+                    <p className="text-sm">
+                        {stats.verdict.passed
+                            ? `All ${stats.verdict.checkedCount} ${noun} are within`
+                            : `${stats.verdict.failedCount} of ${stats.verdict.checkedCount} ${noun} are outside`}
+                        {` the "${stats.verdict.profileName}" tolerance (${describeToleranceProfile(config.tolerance, config)}).`}
+                    </p>
+                </div>
+            )}
+
+            <CorrectedChartPanel
+                chart={chartData}
+                pointData={dataset.type === 'point' ? dataset.points : null}
+                deliveryData={dataset.type === 'delivery' ? dataset.deliveries : null}
+                config={config}
+            />
+
+            {dataset.type === 'delivery' ? (
+                <DeliveryDataTable data={dataset.deliveries} config={config} onSetExclusion={onSetExclusion} />
+            ) : (
+                <DataTable data={dataset.points} config={config} hasValidationData={true} onSetExclusion={onSetExclusion} />
+            )}
+
+            {dataset.auditTrail && dataset.auditTrail.length > 0 && (
+                <details className="bg-white rounded-lg shadow p-4 text-sm">
+                    <summary className="font-semibold text-gray-700 cursor-pointer">Exclusion log ({dataset.auditTrail.length})</summary>
+                    <ul className="mt-2 space-y-1 text-gray-600">
+                        {dataset.auditTrail.map((entry, i) => (
+                            <li key={i}>
+                                {new Date(entry.at).toLocaleString()}: {auditActionLabels[entry.action]} {entry.reading}{entry.reason && ` (${entry.reason})`}
+                            </li>
+                        ))}
+                    </ul>
+                </details>
+            )}
+        </section>
+    );
+};
+
+const reportTypeOf = (datasets: ValidationDataset[]): string => {
+    if (datasets.length === 0) return 'Interpolation';
+    if (datasets.every(d => d.type === 'delivery')) return 'Delivery_Validation';
+    if (datasets.every(d => d.type === 'point')) return 'Point_Validation';
+    return 'Combined_Validation';
+};
+
+const ReportDashboard: React.FC<ReportDashboardProps> = ({ chartData, datasets, config, onReset, onSaveProject, onAddDataset, onRemoveDataset, onSetExclusion, corrections }) => {
     const reportRef = useRef<HTMLDivElement>(null);
-    const reportType = deliveryData ? 'Delivery_Validation' : stats ? 'Point_Validation' : 'Interpolation';
+    const reportType = reportTypeOf(datasets);
     const title = `${reportType} Report`;
     const baseFilename = generateBaseFilename(config);
+    const overallVerdict = datasets.length > 1 ? combinedVerdict(datasets) : null;
+    let uncertaintyBudget: UncertaintyBudget | null = null;
+    if (config.uncertainty.enabled && chartData.length > 1) {
+        try {
+            uncertaintyBudget = calculateUncertaintyBudget(config, chartData);
+        } catch (err) {
+            // An out-of-range density is reported on the validation step; the rest of the report still shows.
+        }
+    }
 
     const handleExportPDF = () => {
         const pdfTitle = `${config.clientName} - ${config.tankCode || 'N/A'} - ${title}`;
         const pdfFilename = `${baseFilename}_${reportType}_Report.pdf`;
-        exportToPDF(data, config, pdfTitle, stats, pdfFilename);
+        exportValidationReportToPDF(chartData, config, pdfTitle, datasets, pdfFilename, corrections);
     };
     
     const handleExportExcel = () => {
         const filename = `${baseFilename}_${reportType}_Report.xlsx`;
-        exportToExcel(data, config, filename, stats);
+        exportValidationReportToExcel(chartData, config, filename, datasets, corrections);
     };
 
     const handleExportPNG = async () => {
@@ -126,12 +297,13 @@ const ReportDashboard: React.FC<ReportDashboardProps> = ({ data, stats, config,
                         {title}
                     </h2>
                     <p className="text-slate-500">
-                        {stats 
-                            ? `Complete validation analysis of ${stats.totalMeasurements} ${deliveryData ? 'deliveries' : 'measurements'}.` 
-                            : `Interpolated volumes for ${data.length} provided heights.`}
+                        {datasets.length > 0
+                            ? `${datasets.length} validation dataset${datasets.length === 1 ? '' : 's'}: ${datasets.map(d => d.name).join(', ')}.`
+                            : `Interpolated volumes for ${chartData.length} provided heights.`}
                     </p>
                 </div>
                  <div className="flex items-center gap-2 flex-wrap justify-end">
+                    <button onClick={onAddDataset} className="bg-indigo-600 hover:bg-indigo-700 text-white font-bold py-2 px-4 rounded-lg shadow transition">Add Validation Data</button>
                     <button onClick={handleExportPNG} className="bg-orange-500 hover:bg-orange-600 text-white font-bold py-2 px-4 rounded-lg shadow transition">Export PNG</button>
                     <button onClick={handleExportPDF} className="bg-red-600 hover:bg-red-700 text-white font-bold py-2 px-4 rounded-lg shadow transition">Export PDF</button>
                     <button onClick={handleExportExcel} className="bg-green-600 hover:bg-green-700 text-white font-bold py-2 px-4 rounded-lg shadow transition">Export Excel</button>
@@ -140,25 +312,44 @@ const ReportDashboard: React.FC<ReportDashboardProps> = ({ data, stats, config,
                 </div>
             </div>
 
-            {stats && (
-                <div>
-                    <h3 className="text-xl font-semibold text-slate-700 mb-4">Validation Statistics</h3>
-                    <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
-                        <StatCard title={deliveryData ? 'Total Deliveries' : 'Total Measurements'} value={stats.totalMeasurements.toString()} color="text-indigo-600" />
-                        <StatCard title="Average Deviation" value={stats.averageDeviation.toFixed(config.decimalPlaces)} subtext={config.volumeHeader.match(/\(([^)]+)\)/)?.[1] || 'units'} color="text-blue-600" />
-                        <StatCard title="Max Positive Deviation" value={`+${stats.maxDeviation.value.toFixed(config.decimalPlaces)}`} subtext={deliveryData ? `for delivery to ${stats.maxDeviation.height}m` : `at ${stats.maxDeviation.height.toFixed(2)}m`} color="text-red-600" />
-                        <StatCard title="Max Negative Deviation" value={stats.minDeviation.value.toFixed(config.decimalPlaces)} subtext={deliveryData ? `for delivery to ${stats.minDeviation.height}m` : `at ${stats.minDeviation.height.toFixed(2)}m`} color="text-green-600" />
-                    </div>
+            {overallVerdict && (
+                <div className={`p-4 rounded-lg border-l-4 ${overallVerdict.passed ? 'bg-green-50 border-green-500 text-green-900' : 'bg-red-50 border-red-500 text-red-900'}`}>
+                    <p className="text-2xl font-bold">Overall: {overallVerdict.passed ? 'PASS' : 'FAIL'}</p>
+                    <p className="text-sm">
+                        {overallVerdict.passed
+                            ? 'Every validation dataset is within tolerance.'
+                            : `Failed: ${overallVerdict.failedDatasets.join(', ')}.`}
+                    </p>
                 </div>
             )}
             
-            {deliveryData ? (
-                <DeliveryDataTable data={deliveryData} config={config} />
-            ) : (
-                <DataTable data={data} config={config} hasValidationData={!!stats} />
+            {corrections.length > 0 && (
+                <div className="bg-yellow-50 border-l-4 border-yellow-400 p-4 rounded">
+                    <h3 className="text-sm font-semibold text-yellow-800 mb-1">Chart data corrections</h3>
+                    <ul className="text-sm text-yellow-900 list-disc list-inside">
+                        {corrections.map((c, i) => <li key={i}>{c.description}</li>)}
+                    </ul>
+                </div>
             )}
+
+            {uncertaintyBudget && (
+                <UncertaintyBudgetTable budget={uncertaintyBudget} volumeUnit={volumeUnitLabel(config.volumeUnit)} decimals={config.decimalPlaces} />
+            )}
+
+            {datasets.map(dataset => (
+                <DatasetSection
+                    key={dataset.id}
+                    dataset={dataset}
+                    chartData={chartData}
+                    config={config}
+                    onRemove={() => onRemoveDataset(dataset.id)}
+                    onSetExclusion={(index, reason) => onSetExclusion(dataset.id, index, reason)}
+                />
+            ))}
+
+            {datasets.length === 0 && <DataTable data={chartData} config={config} hasValidationData={false} />}
         </div>
     );
 };
 
-export default ReportDashboard;
\ No newline at end of file
+export default ReportDashboard;
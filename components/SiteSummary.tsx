@@ -0,0 +1,101 @@
+import React from 'react';
+import { SiteDetails, SiteTank } from '../types';
+import { summarizeSiteTank } from '../services/siteProject';
+
+interface SiteSummaryProps {
+    site: SiteDetails;
+    tanks: SiteTank[];
+    isLoading: boolean;
+    onChangeSite: (site: SiteDetails) => void;
+    onOpenTank: (id: string) => void;
+    onExportAll: (format: 'pdf' | 'excel') => void;
+}
+
+const inputClassName = 'mt-1 block w-full px-3 py-2 bg-white border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500';
+
+const siteFields: { key: keyof SiteDetails; label: string; type?: string }[] = [
+    { key: 'siteName', label: 'Site Name' },
+    { key: 'siteAddress', label: 'Site Address' },
+    { key: 'clientName', label: 'Client Name' },
+    { key: 'calibrationCompany', label: 'Calibration Company' },
+    { key: 'calibrationDate', label: 'Calibration Date', type: 'date' },
+];
+
+const SiteSummary: React.FC<SiteSummaryProps> = ({ site, tanks, isLoading, onChangeSite, onOpenTank, onExportAll }) => {
+    const summaries = tanks.map(summarizeSiteTank);
+
+    return (
+        <div className="space-y-8">
+            <div className="flex flex-col md:flex-row justify-between items-center gap-4">
+                <div>
+                    <h2 className="text-3xl font-bold text-slate-800">Site Summary</h2>
+                    <p className="text-slate-500">{tanks.length} tank{tanks.length === 1 ? '' : 's'} calibrated on this visit.</p>
+                </div>
+                <div className="flex items-center gap-2 flex-wrap justify-end">
+                    <button onClick={() => onExportAll('pdf')} disabled={isLoading} className="bg-red-600 hover:bg-red-700 disabled:bg-red-300 text-white font-bold py-2 px-4 rounded-lg shadow transition">Export All (PDF)</button>
+                    <button onClick={() => onExportAll('excel')} disabled={isLoading} className="bg-green-600 hover:bg-green-700 disabled:bg-green-300 text-white font-bold py-2 px-4 rounded-lg shadow transition">Export All (Excel)</button>
+                </div>
+            </div>
+
+            <div className="bg-slate-50 p-6 rounded-lg">
+                <h3 className="text-lg font-medium text-slate-600 border-b pb-2 mb-4">Site Details</h3>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                    {siteFields.map(field => (
+                        <div key={field.key}>
+                            <label htmlFor={field.key} className="block text-sm font-medium text-gray-700">{field.label}</label>
+                            <input
+                                type={field.type || 'text'}
+                                id={field.key}
+                                value={site[field.key]}
+                                onChange={(e) => onChangeSite({ ...site, [field.key]: e.target.value })}
+                                className={inputClassName}
+                            />
+                        </div>
+                    ))}
+                </div>
+                <p className="text-xs text-slate-500 mt-3">The client, company and date are shared by every tank's reports.</p>
+            </div>
+
+            <div className="overflow-x-auto shadow-md rounded-lg">
+                <table className="min-w-full divide-y divide-gray-200">
+                    <thead className="bg-gray-50">
+                        <tr>
+                            {['Tank', 'Shape', 'Capacity', 'Chart Points', 'Max Height', 'Max Volume', 'Datasets', 'Measurements', 'Largest Deviation', 'Verdict', ''].map(header => (
+                                <th key={header} scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{header}</th>
+                            ))}
+                        </tr>
+                    </thead>
+                    <tbody className="bg-white divide-y divide-gray-200">
+                        {summaries.map(summary => (
+                            <tr key={summary.id}>
+                                <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">{summary.label}</td>
+                                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{summary.shape}</td>
+                                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{summary.capacity}</td>
+                                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{summary.chartPoints || 'No chart yet'}</td>
+                                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{summary.maxHeight}</td>
+                                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{summary.maxVolume}</td>
+                                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{summary.datasetCount}</td>
+                                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{summary.measurementCount}</td>
+                                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{summary.largestDeviation}</td>
+                                <td className="px-6 py-4 whitespace-nowrap text-sm">
+                                    {summary.passed === null ? (
+                                        <span className="text-gray-400">N/A</span>
+                                    ) : (
+                                        <span className={`px-2 py-0.5 rounded text-xs font-semibold ${summary.passed ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'}`}>
+                                            {summary.passed ? 'PASS' : 'FAIL'}
+                                        </span>
+                                    )}
+                                </td>
+                                <td className="px-6 py-4 whitespace-nowrap text-sm">
+                                    <button onClick={() => onOpenTank(summary.id)} className="font-medium text-indigo-600 hover:text-indigo-800">Open</button>
+                                </td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+        </div>
+    );
+};
+
+export default SiteSummary;
@@ -3,6 +3,7 @@ import { Step as StepEnum } from '../types';
 
 interface StepIndicatorProps {
     currentStep: StepEnum;
+    isWetCalibration?: boolean;
 }
 
 const Step: React.FC<{ icon: string; label: string; isCurrent: boolean; isCompleted: boolean }> = ({ icon, label, isCurrent, isCompleted }) => {
@@ -18,16 +19,18 @@ const Step: React.FC<{ icon: string; label: string; isCurrent: boolean; isComple
     );
 }
 
-const StepIndicator: React.FC<StepIndicatorProps> = ({ currentStep }) => {
+const StepIndicator: React.FC<StepIndicatorProps> = ({ currentStep, isWetCalibration }) => {
     
     // Map the enum to a linear step number for progress tracking
     const getStepNumber = (step: StepEnum): number => {
         switch(step) {
             case StepEnum.UploadChart: return 1;
-            case StepEnum.Configure: return 2;
-            case StepEnum.Analysis: return 3;
-            case StepEnum.ValidateData: return 4;
-            case StepEnum.FinalReport: return 5;
+            case StepEnum.MapColumns: return 2;
+            case StepEnum.WetCalibration: return 2;
+            case StepEnum.Configure: return 3;
+            case StepEnum.Analysis: return 4;
+            case StepEnum.ValidateData: return 5;
+            case StepEnum.FinalReport: return 6;
             default: return 0;
         }
     }
@@ -36,10 +39,11 @@ const StepIndicator: React.FC<StepIndicatorProps> = ({ currentStep }) => {
 
     const steps = [
         { step: 1, icon: '1', label: 'Upload Chart' },
-        { step: 2, icon: '2', label: 'Configure' },
-        { step: 3, icon: '3', label: 'Analysis & Next Steps' },
-        { step: 4, icon: '4', label: 'Validate Data' },
-        { step: 5, icon: '5', label: 'Final Report' },
+        { step: 2, icon: '2', label: isWetCalibration ? 'Fill Log' : 'Map Columns' },
+        { step: 3, icon: '3', label: 'Configure' },
+        { step: 4, icon: '4', label: 'Analysis & Next Steps' },
+        { step: 5, icon: '5', label: 'Validate Data' },
+        { step: 6, icon: '6', label: 'Final Report' },
     ];
 
     return (
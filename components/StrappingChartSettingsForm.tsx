@@ -0,0 +1,75 @@
+import React, { useMemo } from 'react';
+import { HeightUnit, ProcessedData, ReportConfig, StrappingChartSettings } from '../types';
+import { buildStrappingChart, getStrappingChartSettings, paginateStrappingChart } from '../services/strappingChart';
+import { heightUnits, toOutputUnits } from '../services/units';
+
+interface StrappingChartSettingsFormProps {
+    data: ProcessedData[];
+    config: ReportConfig;
+    onChange: (settings: StrappingChartSettings) => void;
+}
+
+const inputClassName = 'mt-1 block w-full px-3 py-2 bg-white border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500';
+
+const StrappingChartSettingsForm: React.FC<StrappingChartSettingsFormProps> = ({ data, config, onChange }) => {
+    const settings = getStrappingChartSettings(config);
+
+    const summary = useMemo(() => {
+        try {
+            const output = toOutputUnits(config, data);
+            const { rows } = buildStrappingChart(output.data, output.config);
+            const pages = paginateStrappingChart(rows, getStrappingChartSettings(config));
+            return `${rows.length} rows on ${pages.length} page${pages.length === 1 ? '' : 's'}.`;
+        } catch (err) {
+            return (err as Error).message;
+        }
+    }, [data, config, config.strappingChart]);
+
+    const update = (changes: Partial<StrappingChartSettings>) => onChange({ ...settings, ...changes });
+    const toPositiveInt = (value: string, fallback: number) => Math.max(1, parseInt(value, 10) || fallback);
+
+    return (
+        <div className="space-y-3 max-w-md mx-auto mb-4">
+            <div className="grid grid-cols-2 gap-4">
+                <div>
+                    <label htmlFor="strappingMode" className="block text-sm font-medium text-gray-700">Rows</label>
+                    <select id="strappingMode" value={settings.mode} onChange={(e) => update({ mode: e.target.value as StrappingChartSettings['mode'] })} className={inputClassName}>
+                        <option value="points">Fixed number of rows</option>
+                        <option value="increment">Fixed height increment</option>
+                    </select>
+                </div>
+                {settings.mode === 'points' ? (
+                    <div>
+                        <label htmlFor="strappingPoints" className="block text-sm font-medium text-gray-700">Number of Rows</label>
+                        <input type="number" id="strappingPoints" min="2" value={settings.points} onChange={(e) => update({ points: toPositiveInt(e.target.value, settings.points) })} className={inputClassName}/>
+                    </div>
+                ) : (
+                    <div>
+                        <label htmlFor="strappingIncrement" className="block text-sm font-medium text-gray-700">Increment</label>
+                        <div className="flex gap-2">
+                            <input type="number" id="strappingIncrement" min="0" step="any" value={settings.increment} onChange={(e) => update({ increment: parseFloat(e.target.value) || 0 })} className={inputClassName}/>
+                            <select aria-label="Increment unit" value={settings.incrementUnit} onChange={(e) => update({ incrementUnit: e.target.value as HeightUnit })} className={inputClassName}>
+                                {Object.entries(heightUnits).map(([unit, def]) => <option key={unit} value={unit}>{def.label}</option>)}
+                            </select>
+                        </div>
+                    </div>
+                )}
+                <div>
+                    <label htmlFor="strappingColumns" className="block text-sm font-medium text-gray-700">Column Pairs per Page</label>
+                    <input type="number" id="strappingColumns" min="1" max="10" value={settings.columnPairs} onChange={(e) => update({ columnPairs: Math.min(10, toPositiveInt(e.target.value, settings.columnPairs)) })} className={inputClassName}/>
+                </div>
+                <div>
+                    <label htmlFor="strappingRowsPerPage" className="block text-sm font-medium text-gray-700">Rows per Column</label>
+                    <input type="number" id="strappingRowsPerPage" min="1" value={settings.rowsPerPage} onChange={(e) => update({ rowsPerPage: toPositiveInt(e.target.value, settings.rowsPerPage) })} className={inputClassName}/>
+                </div>
+            </div>
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input type="checkbox" checked={settings.includeDelta} onChange={(e) => update({ includeDelta: e.target.checked })} className="h-4 w-4 text-indigo-600 border-gray-300 rounded"/>
+                Add a volume-per-{settings.incrementUnit} column
+            </label>
+            <p className="text-sm text-slate-500 text-center">{summary}</p>
+        </div>
+    );
+};
+
+export default StrappingChartSettingsForm;
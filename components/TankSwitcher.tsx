@@ -0,0 +1,63 @@
+import React, { useState } from 'react';
+
+interface TankSwitcherProps {
+    siteName: string;
+    tanks: { id: string; label: string }[];
+    activeTankId: string;
+    showingSummary: boolean;
+    onSelectTank: (id: string) => void;
+    onAddTank: () => void;
+    onRemoveTank: (id: string) => void;
+    onShowSummary: () => void;
+}
+
+const tabClassName = (isActive: boolean) =>
+    `px-4 py-2 rounded-md text-sm font-semibold transition ${isActive ? 'bg-indigo-600 text-white shadow' : 'bg-white text-slate-700 hover:bg-indigo-50'}`;
+
+const TankSwitcher: React.FC<TankSwitcherProps> = ({ siteName, tanks, activeTankId, showingSummary, onSelectTank, onAddTank, onRemoveTank, onShowSummary }) => {
+    const [isConfirmingRemove, setIsConfirmingRemove] = useState(false);
+    const activeTank = tanks.find(t => t.id === activeTankId);
+
+    return (
+        <div className="bg-slate-50 p-3 rounded-lg shadow-inner mb-6 flex flex-wrap items-center gap-2">
+            <span className="text-sm font-medium text-slate-500 mr-2">{siteName || 'Site'}:</span>
+            <button onClick={onShowSummary} className={tabClassName(showingSummary)}>Site Summary</button>
+            {tanks.map(tank => (
+                <button
+                    key={tank.id}
+                    onClick={() => {
+                        setIsConfirmingRemove(false);
+                        onSelectTank(tank.id);
+                    }}
+                    className={tabClassName(!showingSummary && tank.id === activeTankId)}
+                >
+                    {tank.label}
+                </button>
+            ))}
+            <button onClick={onAddTank} className="px-3 py-2 text-sm font-semibold text-indigo-600 hover:text-indigo-800">+ Add Tank</button>
+            {!showingSummary && tanks.length > 1 && activeTank && (
+                <div className="ml-auto flex items-center gap-2 text-sm">
+                    {isConfirmingRemove ? (
+                        <>
+                            <span className="text-slate-600">Remove {activeTank.label} and its validations?</span>
+                            <button
+                                onClick={() => {
+                                    setIsConfirmingRemove(false);
+                                    onRemoveTank(activeTank.id);
+                                }}
+                                className="font-semibold text-red-600 hover:text-red-800"
+                            >
+                                Remove
+                            </button>
+                            <button onClick={() => setIsConfirmingRemove(false)} className="font-medium text-gray-500 hover:text-gray-700">Cancel</button>
+                        </>
+                    ) : (
+                        <button onClick={() => setIsConfirmingRemove(true)} className="font-medium text-gray-500 hover:text-red-700">Remove tank</button>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default TankSwitcher;
@@ -0,0 +1,74 @@
+import React from 'react';
+import { ProductType, TemperatureSettings, VolumeBasis } from '../types';
+import { calculateVcf, productTypes } from '../services/temperatureCorrection';
+
+interface TemperatureCompensationPanelProps {
+    settings: TemperatureSettings;
+    onChange: (settings: TemperatureSettings) => void;
+}
+
+const selectClassName = 'mt-1 block w-full pl-3 pr-10 py-2 border-gray-300 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 rounded-md';
+
+const TemperatureCompensationPanel: React.FC<TemperatureCompensationPanelProps> = ({ settings, onChange }) => {
+    const update = (changes: Partial<TemperatureSettings>) => onChange({ ...settings, ...changes });
+
+    let exampleVcf: string;
+    try {
+        exampleVcf = calculateVcf(settings.productType, settings.density, 25).toFixed(5);
+    } catch (err) {
+        exampleVcf = (err as Error).message;
+    }
+
+    return (
+        <div className="bg-slate-50 p-4 rounded-lg shadow-inner mb-6">
+            <label className="flex items-center gap-2 text-sm font-medium text-gray-700">
+                <input type="checkbox" checked={settings.enabled} onChange={(e) => update({ enabled: e.target.checked })} className="h-4 w-4 text-indigo-600 border-gray-300 rounded"/>
+                Compensate for temperature (VCF to 15 °C)
+            </label>
+            {settings.enabled && (
+                <>
+                    <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mt-4">
+                        <div>
+                            <label htmlFor="productType" className="block text-sm font-medium text-gray-700">Product</label>
+                            <select
+                                id="productType"
+                                value={settings.productType}
+                                onChange={(e) => {
+                                    const productType = e.target.value as ProductType;
+                                    update({ productType, density: productTypes.find(p => p.id === productType)?.typicalDensity ?? settings.density });
+                                }}
+                                className={selectClassName}
+                            >
+                                {productTypes.map(p => <option key={p.id} value={p.id}>{p.name} (Table {p.table})</option>)}
+                            </select>
+                        </div>
+                        <div>
+                            <label htmlFor="productDensity" className="block text-sm font-medium text-gray-700">Density at 15 °C (kg/m³)</label>
+                            <input type="number" id="productDensity" value={settings.density} onChange={(e) => update({ density: parseFloat(e.target.value) || 0 })} className="mt-1 block w-full px-3 py-2 bg-white border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"/>
+                        </div>
+                        <div>
+                            <label htmlFor="reportedBasis" className="block text-sm font-medium text-gray-700">Reported Volumes Are</label>
+                            <select id="reportedBasis" value={settings.reportedBasis} onChange={(e) => update({ reportedBasis: e.target.value as VolumeBasis })} className={selectClassName}>
+                                <option value="net">Net (at 15 °C)</option>
+                                <option value="gross">Gross (observed)</option>
+                            </select>
+                        </div>
+                        <div>
+                            <label htmlFor="comparisonBasis" className="block text-sm font-medium text-gray-700">Statistics Basis</label>
+                            <select id="comparisonBasis" value={settings.comparisonBasis} onChange={(e) => update({ comparisonBasis: e.target.value as VolumeBasis })} className={selectClassName}>
+                                <option value="net">Net to net</option>
+                                <option value="gross">Gross to gross</option>
+                            </select>
+                        </div>
+                    </div>
+                    <p className="text-xs text-slate-500 mt-3">
+                        Readings need a tank temperature (°C) column to be compensated; product, density and delivery-note temperature
+                        columns override the settings above per reading. VCF at 25 °C: {exampleVcf}
+                    </p>
+                </>
+            )}
+        </div>
+    );
+};
+
+export default TemperatureCompensationPanel;
@@ -0,0 +1,60 @@
+import React, { useState } from 'react';
+import { ReportConfig } from '../types';
+import { getTiltParameters } from '../services/tiltCorrection';
+
+interface TiltCorrectionPanelProps {
+    config: ReportConfig;
+    validationPointCount: number;
+    onApply: (tiltAngle: number, dipPointOffset: string) => void;
+    onEstimate: (dipPointOffset: string) => void;
+}
+
+const TiltCorrectionPanel: React.FC<TiltCorrectionPanelProps> = ({ config, validationPointCount, onApply, onEstimate }) => {
+    const [tiltAngle, setTiltAngle] = useState(String(config.tiltAngle || 0));
+    const [dipPointOffset, setDipPointOffset] = useState(config.dipPointOffset || '');
+    const { error } = getTiltParameters(config);
+    const parsedTilt = parseFloat(tiltAngle.replace(',', '.'));
+
+    return (
+        <div className="pt-6 border-t">
+            <h3 className="text-xl font-semibold text-slate-700 mb-2 text-center">Tilt Correction</h3>
+            <p className="text-sm text-slate-500 text-center mb-4">
+                Distances run along the tank axis from the centre towards end A. A positive tilt means end A is lower.
+            </p>
+            <div className="grid grid-cols-2 gap-4 max-w-sm mx-auto">
+                <div>
+                    <label htmlFor="tiltAngle" className="block text-sm font-medium text-gray-700">Tilt (degrees)</label>
+                    <input type="text" id="tiltAngle" value={tiltAngle} onChange={(e) => setTiltAngle(e.target.value)} className="mt-1 block w-full px-3 py-2 bg-white border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"/>
+                </div>
+                <div>
+                    <label htmlFor="dipPointOffset" className="block text-sm font-medium text-gray-700">Dip Point Offset</label>
+                    <input type="text" id="dipPointOffset" value={dipPointOffset} onChange={(e) => setDipPointOffset(e.target.value)} placeholder="e.g., 1.2m" className="mt-1 block w-full px-3 py-2 bg-white border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"/>
+                </div>
+            </div>
+            {config.tiltAngle !== 0 && !error && (
+                <p className="text-sm text-green-700 text-center mt-3">
+                    Chart corrected for a {config.tiltAngle.toFixed(3)}° tilt. Exports and validation use the corrected chart.
+                </p>
+            )}
+            {error && <p className="text-sm text-red-600 text-center mt-3">{error}</p>}
+            <div className="flex justify-center gap-4 flex-wrap mt-4">
+                <button
+                    onClick={() => onApply(isNaN(parsedTilt) ? 0 : parsedTilt, dipPointOffset)}
+                    className="bg-slate-700 hover:bg-slate-800 text-white font-bold py-2 px-4 rounded-lg shadow transition"
+                >
+                    Apply Tilt
+                </button>
+                <button
+                    onClick={() => onEstimate(dipPointOffset)}
+                    disabled={validationPointCount < 2}
+                    title={validationPointCount < 2 ? 'Run a point validation first.' : undefined}
+                    className="bg-blue-600 hover:bg-blue-700 text-white font-bold py-2 px-4 rounded-lg shadow transition disabled:bg-gray-400 disabled:cursor-not-allowed"
+                >
+                    Estimate from {validationPointCount} Validation Points
+                </button>
+            </div>
+        </div>
+    );
+};
+
+export default TiltCorrectionPanel;
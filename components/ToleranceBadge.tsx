@@ -0,0 +1,22 @@
+import React from 'react';
+
+interface ToleranceBadgeProps {
+    withinTolerance?: boolean;
+    /** Allowed deviation, shown on hover. */
+    tolerance?: number;
+    decimals: number;
+}
+
+const ToleranceBadge: React.FC<ToleranceBadgeProps> = ({ withinTolerance, tolerance, decimals }) => {
+    if (withinTolerance === undefined) return <span className="text-gray-400">N/A</span>;
+    return (
+        <span
+            className={`px-2 py-0.5 rounded text-xs font-semibold ${withinTolerance ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'}`}
+            title={tolerance !== undefined ? `Allowed ±${tolerance.toFixed(decimals)}` : undefined}
+        >
+            {withinTolerance ? 'PASS' : 'FAIL'}
+        </span>
+    );
+};
+
+export default ToleranceBadge;
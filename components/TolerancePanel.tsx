@@ -0,0 +1,133 @@
+import React, { useState } from 'react';
+import { ToleranceBand, ToleranceMode, ToleranceProfile } from '../types';
+import { builtInToleranceProfiles, toleranceModes } from '../services/tolerance';
+import { attachToleranceProfile, loadToleranceProfiles, saveToleranceProfile } from '../services/toleranceStore';
+
+interface TolerancePanelProps {
+    profile: ToleranceProfile;
+    clientName: string;
+    onChange: (profile: ToleranceProfile) => void;
+}
+
+const CUSTOM_PROFILE_ID = 'custom';
+
+const inputClassName = 'mt-1 block w-full px-3 py-2 bg-white border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500';
+const selectClassName = 'mt-1 block w-full pl-3 pr-10 py-2 border-gray-300 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 rounded-md';
+
+const TolerancePanel: React.FC<TolerancePanelProps> = ({ profile, clientName, onChange }) => {
+    const [profiles, setProfiles] = useState<ToleranceProfile[]>(loadToleranceProfiles);
+    const [profileName, setProfileName] = useState('');
+    const [message, setMessage] = useState<string | null>(null);
+    // Profiles opened from another browser's project are not in this browser's list.
+    const isSaved = profiles.some(p => p.id === profile.id);
+
+    const update = (changes: Partial<ToleranceProfile>) => {
+        setMessage(null);
+        // Built-in profiles are never changed in place, so a report cannot claim one it does not use.
+        const isBuiltIn = builtInToleranceProfiles.some(p => p.id === profile.id);
+        onChange({ ...profile, ...(isBuiltIn ? { id: CUSTOM_PROFILE_ID, name: 'Custom tolerance' } : {}), ...changes });
+    };
+
+    const updateBand = (index: number, changes: Partial<ToleranceBand>) => {
+        update({ bands: profile.bands.map((band, i) => (i === index ? { ...band, ...changes } : band)) });
+    };
+
+    const handleSelect = (id: string) => {
+        const selected = profiles.find(p => p.id === id);
+        if (selected) {
+            setMessage(null);
+            onChange(selected);
+        }
+    };
+
+    const handleSave = () => {
+        const name = profileName.trim();
+        if (!name) return;
+        const isBuiltIn = builtInToleranceProfiles.some(p => p.id === profile.id);
+        const saved = { ...profile, name, id: isSaved && !isBuiltIn ? profile.id : `profile-${Date.now()}` };
+        try {
+            saveToleranceProfile(saved);
+            setProfiles(loadToleranceProfiles());
+            setProfileName('');
+            setMessage(`Saved "${name}".`);
+            onChange(saved);
+        } catch (err) {
+            setMessage((err as Error).message);
+        }
+    };
+
+    const handleAttach = () => {
+        attachToleranceProfile(clientName, profile.id);
+        setMessage(`New reports for ${clientName} will use "${profile.name}".`);
+    };
+
+    return (
+        <div className="bg-slate-50 p-4 rounded-lg shadow-inner mb-6">
+            <h3 className="text-sm font-semibold text-gray-700 mb-3">Acceptance Tolerance</h3>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div>
+                    <label htmlFor="toleranceProfile" className="block text-sm font-medium text-gray-700">Profile</label>
+                    <select id="toleranceProfile" value={profile.id} onChange={(e) => handleSelect(e.target.value)} className={selectClassName}>
+                        {!isSaved && <option value={profile.id}>{profile.name}</option>}
+                        {profiles.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                    </select>
+                </div>
+                <div>
+                    <label htmlFor="toleranceMode" className="block text-sm font-medium text-gray-700">Criterion</label>
+                    <select id="toleranceMode" value={profile.mode} onChange={(e) => update({ mode: e.target.value as ToleranceMode })} className={selectClassName}>
+                        {toleranceModes.map(m => <option key={m.id} value={m.id}>{m.name}</option>)}
+                    </select>
+                </div>
+                {profile.mode !== 'height-bands' && (
+                    <div>
+                        <label htmlFor="toleranceValue" className="block text-sm font-medium text-gray-700">Allowed Deviation ({profile.mode === 'absolute' ? 'L' : '%'})</label>
+                        <input type="number" id="toleranceValue" min="0" value={profile.value} onChange={(e) => update({ value: parseFloat(e.target.value) || 0 })} className={inputClassName}/>
+                    </div>
+                )}
+            </div>
+
+            {profile.mode === 'height-bands' && (
+                <div className="mt-4 space-y-2">
+                    {profile.bands.map((band, index) => (
+                        <div key={index} className="flex items-end gap-2">
+                            <div className="flex-1">
+                                <label className="block text-xs font-medium text-gray-600">Up to Height (mm)</label>
+                                <input type="number" value={band.upToHeight} onChange={(e) => updateBand(index, { upToHeight: parseFloat(e.target.value) || 0 })} className={inputClassName}/>
+                            </div>
+                            <div className="flex-1">
+                                <label className="block text-xs font-medium text-gray-600">Allowed Deviation (L)</label>
+                                <input type="number" min="0" value={band.tolerance} onChange={(e) => updateBand(index, { tolerance: parseFloat(e.target.value) || 0 })} className={inputClassName}/>
+                            </div>
+                            <button onClick={() => update({ bands: profile.bands.filter((_, i) => i !== index) })} className="text-red-600 hover:text-red-900 text-sm font-medium pb-2">Remove</button>
+                        </div>
+                    ))}
+                    <button
+                        onClick={() => update({ bands: [...profile.bands, { upToHeight: (profile.bands[profile.bands.length - 1]?.upToHeight || 0) + 1000, tolerance: 50 }] })}
+                        className="text-sm font-medium text-indigo-600 hover:text-indigo-800"
+                    >
+                        + Add band
+                    </button>
+                </div>
+            )}
+
+            <div className="mt-4 flex flex-wrap items-end gap-2">
+                <div className="flex-1 min-w-[12rem]">
+                    <label htmlFor="toleranceProfileName" className="block text-xs font-medium text-gray-600">Save as</label>
+                    <input type="text" id="toleranceProfileName" value={profileName} onChange={(e) => setProfileName(e.target.value)} placeholder="e.g., Client acceptance 2024" className={inputClassName}/>
+                </div>
+                <button onClick={handleSave} disabled={!profileName.trim()} className="px-4 py-2 text-sm font-medium rounded-md shadow-sm text-white bg-indigo-600 hover:bg-indigo-700 disabled:bg-gray-400">Save Profile</button>
+                {clientName && (
+                    <button onClick={handleAttach} disabled={!isSaved} className="px-4 py-2 text-sm font-medium rounded-md shadow-sm text-indigo-700 bg-indigo-100 hover:bg-indigo-200 disabled:opacity-50" title={isSaved ? undefined : 'Save the profile first'}>
+                        Use for {clientName}
+                    </button>
+                )}
+            </div>
+            <p className="text-xs text-slate-500 mt-3">
+                {toleranceModes.find(m => m.id === profile.mode)?.description} Readings beyond the tolerance fail, and the report passes only when none do.
+                {message && <span className="block mt-1 text-indigo-700">{message}</span>}
+            </p>
+        </div>
+    );
+};
+
+export default TolerancePanel;
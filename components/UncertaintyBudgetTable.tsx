@@ -0,0 +1,48 @@
+import React from 'react';
+import { UncertaintyBudget } from '../types';
+
+interface UncertaintyBudgetTableProps {
+    budget: UncertaintyBudget;
+    volumeUnit: string;
+    decimals: number;
+}
+
+const UncertaintyBudgetTable: React.FC<UncertaintyBudgetTableProps> = ({ budget, volumeUnit, decimals }) => {
+    const relative = budget.volume > 0 ? ` (${(budget.expandedUncertainty / budget.volume * 100).toFixed(3)} % of ${budget.volume.toFixed(decimals)} ${volumeUnit})` : '';
+    return (
+        <div className="bg-white rounded-lg shadow p-4">
+            <h3 className="text-sm font-semibold text-gray-700 mb-2">Uncertainty Budget</h3>
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+                <thead className="bg-gray-50">
+                    <tr>
+                        <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Source</th>
+                        <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Input</th>
+                        <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Standard Uncertainty ({volumeUnit})</th>
+                    </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                    {budget.contributions.map(c => (
+                        <tr key={c.source}>
+                            <td className="px-4 py-2 text-gray-800">{c.source}</td>
+                            <td className="px-4 py-2 text-gray-800">{c.input}</td>
+                            <td className="px-4 py-2 text-gray-800">{c.standardUncertainty.toFixed(decimals)}</td>
+                        </tr>
+                    ))}
+                    <tr className="font-medium">
+                        <td className="px-4 py-2 text-gray-800" colSpan={2}>Combined standard uncertainty</td>
+                        <td className="px-4 py-2 text-gray-800">{budget.combinedUncertainty.toFixed(decimals)}</td>
+                    </tr>
+                    <tr className="font-semibold">
+                        <td className="px-4 py-2 text-gray-900" colSpan={2}>Expanded uncertainty (k = {budget.coverageFactor})</td>
+                        <td className="px-4 py-2 text-gray-900">±{budget.expandedUncertainty.toFixed(decimals)}{relative}</td>
+                    </tr>
+                </tbody>
+            </table>
+            <p className="text-xs text-slate-500 mt-2">
+                Worst case over the chart: the dip terms at its steepest part, the meter and temperature terms at its largest volume.
+            </p>
+        </div>
+    );
+};
+
+export default UncertaintyBudgetTable;
@@ -0,0 +1,61 @@
+import React from 'react';
+import { UncertaintySettings } from '../types';
+
+interface UncertaintyPanelProps {
+    settings: UncertaintySettings;
+    temperatureEnabled: boolean;
+    onChange: (settings: UncertaintySettings) => void;
+}
+
+const inputClassName = 'mt-1 block w-full px-3 py-2 bg-white border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 disabled:bg-gray-100';
+
+const UncertaintyPanel: React.FC<UncertaintyPanelProps> = ({ settings, temperatureEnabled, onChange }) => {
+    const update = (changes: Partial<UncertaintySettings>) => onChange({ ...settings, ...changes });
+    const readValue = (value: string) => Math.max(0, parseFloat(value) || 0);
+
+    return (
+        <div className="bg-slate-50 p-4 rounded-lg shadow-inner mb-6">
+            <label className="flex items-center gap-2 text-sm font-medium text-gray-700">
+                <input type="checkbox" checked={settings.enabled} onChange={(e) => update({ enabled: e.target.checked })} className="h-4 w-4 text-indigo-600 border-gray-300 rounded"/>
+                Estimate measurement uncertainty (k = 2)
+            </label>
+            {settings.enabled && (
+                <>
+                    <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mt-4">
+                        <div>
+                            <label htmlFor="dipResolution" className="block text-sm font-medium text-gray-700">Tape / Probe Resolution (mm)</label>
+                            <input type="number" id="dipResolution" min="0" value={settings.dipResolution} onChange={(e) => update({ dipResolution: readValue(e.target.value) })} className={inputClassName}/>
+                        </div>
+                        <div>
+                            <label htmlFor="readingUncertainty" className="block text-sm font-medium text-gray-700">Reading Uncertainty (mm)</label>
+                            <input type="number" id="readingUncertainty" min="0" value={settings.readingUncertainty} onChange={(e) => update({ readingUncertainty: readValue(e.target.value) })} className={inputClassName}/>
+                        </div>
+                        <div>
+                            <label htmlFor="meterUncertainty" className="block text-sm font-medium text-gray-700">Meter Uncertainty (%)</label>
+                            <input type="number" id="meterUncertainty" min="0" step="0.01" value={settings.meterUncertainty} onChange={(e) => update({ meterUncertainty: readValue(e.target.value) })} className={inputClassName}/>
+                        </div>
+                        <div>
+                            <label htmlFor="temperatureUncertainty" className="block text-sm font-medium text-gray-700">Temperature Uncertainty (°C)</label>
+                            <input
+                                type="number"
+                                id="temperatureUncertainty"
+                                min="0"
+                                step="0.1"
+                                value={settings.temperatureUncertainty}
+                                onChange={(e) => update({ temperatureUncertainty: readValue(e.target.value) })}
+                                disabled={!temperatureEnabled}
+                                className={inputClassName}
+                            />
+                        </div>
+                    </div>
+                    <p className="text-xs text-slate-500 mt-3">
+                        Enter standard uncertainties; the resolution is taken as a rectangular distribution. Dip terms act through the
+                        chart slope at each reading, the meter through the reported volume, and the temperature only on compensated readings.
+                    </p>
+                </>
+            )}
+        </div>
+    );
+};
+
+export default UncertaintyPanel;
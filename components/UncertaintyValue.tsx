@@ -0,0 +1,24 @@
+import React from 'react';
+
+interface UncertaintyValueProps {
+    /** Expanded uncertainty of the deviation. */
+    uncertainty?: number | null;
+    withinUncertainty?: boolean;
+    decimals: number;
+}
+
+const UncertaintyValue: React.FC<UncertaintyValueProps> = ({ uncertainty, withinUncertainty, decimals }) => {
+    if (typeof uncertainty !== 'number' || isNaN(uncertainty)) return <span className="text-gray-400">N/A</span>;
+    return (
+        <span>
+            ±{uncertainty.toFixed(decimals)}
+            {withinUncertainty === false && (
+                <span className="ml-2 px-2 py-0.5 rounded text-xs font-semibold bg-amber-100 text-amber-800" title="The deviation is larger than its expanded uncertainty">
+                    Beyond U
+                </span>
+            )}
+        </span>
+    );
+};
+
+export default UncertaintyValue;
@@ -0,0 +1,214 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { CsvImportOptions, HeightUnit, ReportConfig, VolumeUnit, WetCalibrationLog } from '../types';
+import ChartComponent from './Chart';
+import { fileToText } from '../services/dataProcessor';
+import { buildWetCalibrationChart, defaultWetCalibrationLog, parseWetCalibrationLog } from '../services/wetCalibration';
+import { heightUnitLabel, heightUnits, volumeUnitLabel, volumeUnits } from '../services/units';
+
+interface FillRow {
+    id: number;
+    height: string;
+    volume: string;
+}
+
+interface WetCalibrationFormProps {
+    initialLog: WetCalibrationLog | null;
+    config: ReportConfig;
+    csvOptions: CsvImportOptions;
+    isLoading: boolean;
+    onSubmit: (log: WetCalibrationLog) => void;
+}
+
+const inputClassName = 'mt-1 block w-full px-3 py-2 bg-white border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500';
+
+const toRows = (log: WetCalibrationLog | null): FillRow[] => {
+    const entries = log?.entries.length ? log.entries : [];
+    const rows = entries.map((e, i) => ({ id: i + 1, height: String(e.height), volume: String(e.volume) }));
+    return rows.length > 0 ? rows : [{ id: 1, height: '', volume: '' }, { id: 2, height: '', volume: '' }];
+};
+
+const WetCalibrationForm: React.FC<WetCalibrationFormProps> = ({ initialLog, config, csvOptions, isLoading, onSubmit }) => {
+    const [settings, setSettings] = useState<WetCalibrationLog>({ ...defaultWetCalibrationLog, ...initialLog, entries: [] });
+    const [rows, setRows] = useState<FillRow[]>(() => toRows(initialLog));
+    const [nextId, setNextId] = useState(() => toRows(initialLog).length + 1);
+    const [importError, setImportError] = useState<string | null>(null);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    const log: WetCalibrationLog = useMemo(() => ({
+        ...settings,
+        entries: rows
+            .map(row => ({ height: parseFloat(row.height), volume: parseFloat(row.volume) }))
+            .filter(e => !isNaN(e.height) && !isNaN(e.volume)),
+    }), [settings, rows]);
+
+    const preview = useMemo(() => {
+        try {
+            return { ...buildWetCalibrationChart(log), error: null };
+        } catch (err) {
+            return { chart: [], measured: [], error: (err as Error).message };
+        }
+    }, [log]);
+
+    const heightUnit = heightUnitLabel(settings.heightUnit);
+    const volumeUnit = volumeUnitLabel(settings.volumeUnit);
+    const previewConfig: ReportConfig = {
+        ...config,
+        heightUnit: settings.heightUnit,
+        volumeUnit: settings.volumeUnit,
+        heightHeader: `Height (${heightUnit})`,
+        volumeHeader: `Volume (${volumeUnit})`,
+    };
+
+    const updateSettings = (changes: Partial<WetCalibrationLog>) => setSettings(prev => ({ ...prev, ...changes }));
+
+    const handleRowChange = (id: number, field: 'height' | 'volume', value: string) => {
+        setRows(rows.map(row => (row.id === id ? { ...row, [field]: value } : row)));
+    };
+
+    const handleAddRow = () => {
+        setRows([...rows, { id: nextId, height: '', volume: '' }]);
+        setNextId(nextId + 1);
+    };
+
+    const handleRemoveRow = (id: number) => {
+        setRows(rows.filter(row => row.id !== id));
+    };
+
+    const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        setImportError(null);
+        try {
+            const { entries, ...detected } = parseWetCalibrationLog(await fileToText(file), csvOptions);
+            updateSettings(detected);
+            setRows(entries.map((entry, i) => ({ id: i + 1, height: String(entry.height), volume: String(entry.volume) })));
+            setNextId(entries.length + 1);
+        } catch (err) {
+            setImportError((err as Error).message);
+        }
+    };
+
+    return (
+        <div className="w-full max-w-5xl mx-auto space-y-6">
+            <div className="text-center">
+                <h2 className="text-2xl font-bold text-slate-700 mb-2">Step 2: Wet Calibration Fill Log</h2>
+                <p className="text-slate-500">
+                    Enter the dip after each metered fill, or import the log from a CSV/TXT file. The chart is fitted through the
+                    accumulated volumes and then configured and exported like an uploaded chart.
+                </p>
+            </div>
+
+            <div className="grid grid-cols-2 md:grid-cols-3 gap-4 bg-slate-50 p-4 rounded-lg shadow-inner">
+                <div>
+                    <label htmlFor="wetHeightUnit" className="block text-sm font-medium text-gray-700">Dip Unit</label>
+                    <select id="wetHeightUnit" value={settings.heightUnit} onChange={(e) => updateSettings({ heightUnit: e.target.value as HeightUnit })} className={inputClassName}>
+                        {Object.entries(heightUnits).map(([unit, def]) => <option key={unit} value={unit}>{def.name} ({def.label})</option>)}
+                    </select>
+                </div>
+                <div>
+                    <label htmlFor="wetVolumeUnit" className="block text-sm font-medium text-gray-700">Meter Unit</label>
+                    <select id="wetVolumeUnit" value={settings.volumeUnit} onChange={(e) => updateSettings({ volumeUnit: e.target.value as VolumeUnit })} className={inputClassName}>
+                        {Object.entries(volumeUnits).map(([unit, def]) => <option key={unit} value={unit}>{def.name} ({def.label})</option>)}
+                    </select>
+                </div>
+                <div>
+                    <label htmlFor="wetVolumeMode" className="block text-sm font-medium text-gray-700">Metered Volumes Are</label>
+                    <select id="wetVolumeMode" value={settings.volumeMode} onChange={(e) => updateSettings({ volumeMode: e.target.value as WetCalibrationLog['volumeMode'] })} className={inputClassName}>
+                        <option value="increment">Volume of each fill</option>
+                        <option value="cumulative">Cumulative meter readings</option>
+                    </select>
+                </div>
+                {settings.volumeMode === 'cumulative' && (
+                    <div>
+                        <label htmlFor="wetMeterStart" className="block text-sm font-medium text-gray-700">Meter Start Reading ({volumeUnit})</label>
+                        <input type="number" id="wetMeterStart" value={settings.meterStartReading ?? 0} onChange={(e) => updateSettings({ meterStartReading: parseFloat(e.target.value) || 0 })} className={inputClassName}/>
+                    </div>
+                )}
+                <div>
+                    <label htmlFor="wetHeelVolume" className="block text-sm font-medium text-gray-700">Heel Volume ({volumeUnit})</label>
+                    <input type="number" id="wetHeelVolume" value={settings.heelVolume} onChange={(e) => updateSettings({ heelVolume: parseFloat(e.target.value) || 0 })} className={inputClassName}/>
+                </div>
+                <div>
+                    <label htmlFor="wetHeelHeight" className="block text-sm font-medium text-gray-700">Heel Dip ({heightUnit})</label>
+                    <input type="number" id="wetHeelHeight" value={settings.heelHeight} onChange={(e) => updateSettings({ heelHeight: parseFloat(e.target.value) || 0 })} className={inputClassName}/>
+                </div>
+                <div>
+                    <label htmlFor="wetChartPoints" className="block text-sm font-medium text-gray-700">Chart Points</label>
+                    <input type="number" id="wetChartPoints" min="2" value={settings.chartPoints} onChange={(e) => updateSettings({ chartPoints: parseInt(e.target.value, 10) || 2 })} className={inputClassName}/>
+                </div>
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 items-start">
+                <div className="bg-slate-50 p-4 rounded-lg shadow-inner">
+                    <div className="max-h-[50vh] overflow-y-auto">
+                        <table className="min-w-full divide-y divide-gray-200">
+                            <thead className="bg-gray-100 sticky top-0">
+                                <tr>
+                                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Fill</th>
+                                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Dip After Fill ({heightUnit})</th>
+                                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">
+                                        {settings.volumeMode === 'cumulative' ? 'Meter Reading' : 'Metered Volume'} ({volumeUnit})
+                                    </th>
+                                    <th className="px-3 py-2"><span className="sr-only">Remove</span></th>
+                                </tr>
+                            </thead>
+                            <tbody className="bg-white divide-y divide-gray-200">
+                                {rows.map((row, index) => (
+                                    <tr key={row.id}>
+                                        <td className="px-3 py-2 text-sm text-gray-500">{index + 1}</td>
+                                        <td className="px-3 py-2">
+                                            <input type="number" value={row.height} onChange={(e) => handleRowChange(row.id, 'height', e.target.value)} className={inputClassName}/>
+                                        </td>
+                                        <td className="px-3 py-2">
+                                            <input type="number" value={row.volume} onChange={(e) => handleRowChange(row.id, 'volume', e.target.value)} className={inputClassName}/>
+                                        </td>
+                                        <td className="px-3 py-2 text-right">
+                                            <button onClick={() => handleRemoveRow(row.id)} className="text-red-600 hover:text-red-900 text-sm">Remove</button>
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                    <div className="mt-4 flex gap-2 flex-wrap">
+                        <button onClick={handleAddRow} className="px-4 py-2 text-sm font-medium rounded-md shadow-sm text-white bg-indigo-600 hover:bg-indigo-700">
+                            Add Fill
+                        </button>
+                        <button onClick={() => fileInputRef.current?.click()} className="px-4 py-2 text-sm font-medium rounded-md shadow-sm text-indigo-700 bg-white border border-indigo-300 hover:bg-indigo-50">
+                            Import Log
+                        </button>
+                        <input type="file" ref={fileInputRef} onChange={handleImport} accept=".csv,.txt" className="sr-only"/>
+                    </div>
+                    {importError && <p className="text-sm text-red-600 mt-2">{importError}</p>}
+                </div>
+
+                <div className="bg-white p-2 rounded-lg shadow">
+                    {preview.error ? (
+                        <p className="text-sm text-slate-500 p-4">{preview.error}</p>
+                    ) : (
+                        <>
+                            <ChartComponent data={preview.chart} config={previewConfig} />
+                            <p className="text-sm text-slate-500 text-center mt-2">
+                                {preview.measured.length - 1} fills, {preview.measured[preview.measured.length - 1].chartVolume.toFixed(config.decimalPlaces)} {volumeUnit} in
+                                total at {preview.measured[preview.measured.length - 1].height} {heightUnit}.
+                            </p>
+                        </>
+                    )}
+                </div>
+            </div>
+
+            <div className="text-center">
+                <button
+                    onClick={() => onSubmit(log)}
+                    disabled={isLoading || !!preview.error}
+                    className="px-6 py-3 text-base font-medium rounded-md shadow-sm text-white bg-green-600 hover:bg-green-700 disabled:bg-gray-400"
+                >
+                    Build Chart
+                </button>
+            </div>
+        </div>
+    );
+};
+
+export default WetCalibrationForm;
@@ -0,0 +1,116 @@
+import React, { useState } from 'react';
+import { ParsedTable, SheetImportOptions, WorkbookData } from '../types';
+import { sheetToTable, suggestSheetImportOptions } from '../services/excelImport';
+
+interface WorkbookImportDialogProps {
+    workbook: WorkbookData;
+    isLoading: boolean;
+    onImport: (table: ParsedTable) => void;
+    onCancel: () => void;
+}
+
+const PREVIEW_ROWS = 12;
+
+const WorkbookImportDialog: React.FC<WorkbookImportDialogProps> = ({ workbook, isLoading, onImport, onCancel }) => {
+    const [options, setOptions] = useState<SheetImportOptions>(() => suggestSheetImportOptions(workbook, workbook.sheetNames[0]));
+
+    const rows = workbook.sheets[options.sheetName] || [];
+    const previewRows = rows.slice(0, Math.max(PREVIEW_ROWS, options.headerRowIndex + 4));
+    const width = Math.max(0, ...previewRows.map(r => r.length));
+
+    let table: ParsedTable | null = null;
+    let importError: string | null = null;
+    try {
+        table = sheetToTable(workbook, options);
+    } catch (err) {
+        importError = (err as Error).message;
+    }
+
+    const handleSheetChange = (sheetName: string) => {
+        setOptions(suggestSheetImportOptions(workbook, sheetName));
+    };
+
+    const handleHeaderRowChange = (value: string) => {
+        const rowNumber = parseInt(value, 10);
+        setOptions(prev => ({ ...prev, headerRowIndex: isNaN(rowNumber) || rowNumber < 1 ? -1 : rowNumber - 1 }));
+    };
+
+    const rowClassName = (index: number): string => {
+        if (index === options.headerRowIndex) return 'bg-indigo-100 font-semibold';
+        if (index < options.headerRowIndex) return 'bg-gray-100 text-gray-400 line-through';
+        return '';
+    };
+
+    return (
+        <div className="max-w-5xl mx-auto">
+            <h2 className="text-2xl font-bold text-slate-700 text-center mb-2">Import Excel Workbook</h2>
+            <p className="text-slate-500 text-center mb-6">{workbook.fileName}</p>
+
+            <div className="space-y-6 bg-slate-50 p-6 rounded-lg">
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                    <div>
+                        <label htmlFor="sheetName" className="block text-sm font-medium text-gray-700">Sheet</label>
+                        <select id="sheetName" value={options.sheetName} onChange={(e) => handleSheetChange(e.target.value)} className="mt-1 block w-full pl-3 pr-10 py-2 border-gray-300 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 rounded-md">
+                            {workbook.sheetNames.map(name => <option key={name} value={name}>{name}</option>)}
+                        </select>
+                    </div>
+                    <div>
+                        <label htmlFor="headerRow" className="block text-sm font-medium text-gray-700">Header Row (0 = no header)</label>
+                        <input type="number" id="headerRow" min="0" max={rows.length} value={options.headerRowIndex + 1} onChange={(e) => handleHeaderRowChange(e.target.value)} className="mt-1 block w-full px-3 py-2 bg-white border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"/>
+                    </div>
+                    <div className="flex items-end">
+                        <label className="inline-flex items-center text-sm text-gray-700 pb-2">
+                            <input
+                                type="checkbox"
+                                checked={options.unpairColumns}
+                                onChange={(e) => setOptions(prev => ({ ...prev, unpairColumns: e.target.checked }))}
+                                className="h-4 w-4 text-indigo-600 border-gray-300 rounded mr-2"
+                            />
+                            Side-by-side Height/Volume column pairs
+                        </label>
+                    </div>
+                </div>
+
+                <div className="overflow-x-auto bg-white rounded-lg shadow max-h-[50vh] overflow-y-auto">
+                    <table className="min-w-full divide-y divide-gray-200 text-sm">
+                        <tbody className="divide-y divide-gray-200">
+                            {previewRows.map((row, rowIndex) => (
+                                <tr key={rowIndex} className={`cursor-pointer hover:bg-gray-50 ${rowClassName(rowIndex)}`} onClick={() => setOptions(prev => ({ ...prev, headerRowIndex: rowIndex }))}>
+                                    <td className="px-2 py-1 text-xs text-gray-400 text-right">{rowIndex + 1}</td>
+                                    {Array.from({ length: width }, (_, colIndex) => (
+                                        <td key={colIndex} className="px-3 py-1 whitespace-nowrap">{row[colIndex] ?? ''}</td>
+                                    ))}
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+                <p className="text-xs text-slate-500 text-center">Click a row to use it as the header row. Rows above the header are skipped.</p>
+
+                {importError ? (
+                    <p className="text-sm text-red-600 text-center">{importError}</p>
+                ) : table && (
+                    <p className="text-sm text-slate-600 text-center">
+                        {table.data.length} data rows will be imported with columns: {table.headers.join(', ')}.
+                    </p>
+                )}
+
+                <div className="flex justify-between items-center">
+                    <button type="button" onClick={onCancel} className="bg-gray-500 hover:bg-gray-600 text-white font-bold py-2 px-4 rounded-lg shadow transition">
+                        Cancel
+                    </button>
+                    <button
+                        type="button"
+                        disabled={!table || isLoading}
+                        onClick={() => table && onImport(table)}
+                        className="bg-indigo-600 hover:bg-indigo-700 text-white font-bold py-3 px-8 rounded-lg shadow-md transition disabled:bg-gray-400"
+                    >
+                        {isLoading ? 'Processing...' : 'Import Sheet'}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default WorkbookImportDialog;
@@ -0,0 +1,181 @@
+import { ProcessedData, ReportConfig } from '../types';
+import { heightUnitLabel, volumeUnitLabel } from './units';
+
+/**
+ * The units ATG consoles load tank tables in: metric (mm/L) or US (in/gal).
+ * These are also the units the ATG dump readers recognise.
+ */
+export interface AtgTableUnits {
+    height: 'mm' | 'in';
+    volume: 'L' | 'usgal';
+}
+
+const metricUnits: AtgTableUnits = { height: 'mm', volume: 'L' };
+const usUnits: AtgTableUnits = { height: 'in', volume: 'usgal' };
+
+/**
+ * An ATG console that can load a tank table, with the number of chart points
+ * it accepts, the text layout it expects and whether it takes US units.
+ */
+export interface AtgConsoleProfile {
+    id: string;
+    name: string;
+    maxPoints: number;
+    extension: string;
+    /** Consoles without US units, or without unit headings, are always given mm/L. */
+    acceptsUsUnits: boolean;
+    write: (points: ProcessedData[], config: ReportConfig, units: AtgTableUnits) => string;
+}
+
+export interface ReducedChart {
+    points: ProcessedData[];
+    maxError: number;
+    maxErrorHeight: number;
+}
+
+// Heights to a hundredth of a millimetre or a thousandth of an inch, so points stay distinct.
+const formatHeight = (n: number, units: AtgTableUnits) => n.toFixed(units.height === 'mm' ? 2 : 3);
+const formatVolume = (n: number, units: AtgTableUnits) => n.toFixed(units.volume === 'L' ? 1 : 2);
+const heightLabel = (units: AtgTableUnits) => heightUnitLabel(units.height);
+const volumeLabel = (units: AtgTableUnits) => volumeUnitLabel(units.volume);
+const pad = (value: string | number, width: number) => String(value).padStart(width);
+
+export const atgConsoleProfiles: AtgConsoleProfile[] = [
+    {
+        id: 'fusion',
+        name: 'Fusion ATG',
+        maxPoints: 250,
+        extension: 'txt',
+        // The Fusion table has no unit headings; the console reads it as mm/L.
+        acceptsUsUnits: false,
+        write: (points, _config, units) => [
+            '[FUSION_ATG_TANK_TABLE]',
+            'Height Volume',
+            ...points.map(p => `${formatHeight(p.height, units)} ${formatVolume(p.chartVolume, units)}`),
+        ].join('\r\n'),
+    },
+    {
+        id: 'veeder-root',
+        name: 'Veeder-Root TLS',
+        maxPoints: 100,
+        extension: 'txt',
+        acceptsUsUnits: true,
+        write: (points, config, units) => [
+            'VEEDER-ROOT TLS TANK CHART',
+            `TANK: ${config.tankCode || 'N/A'}`,
+            `   PT  HEIGHT(${heightLabel(units).toUpperCase()})  VOLUME(${volumeLabel(units).toUpperCase()})`,
+            ...points.map((p, i) => `${pad(i + 1, 5)}  ${pad(formatHeight(p.height, units), 12)}  ${pad(formatVolume(p.chartVolume, units), 12)}`),
+        ].join('\r\n'),
+    },
+    {
+        id: 'gilbarco',
+        name: 'Gilbarco EMC',
+        maxPoints: 100,
+        extension: 'csv',
+        acceptsUsUnits: true,
+        write: (points, config, units) => [
+            `GILBARCO EMC TANK CHART,${config.tankCode || 'N/A'}`,
+            `Point,Level (${heightLabel(units)}),Volume (${volumeLabel(units)})`,
+            ...points.map((p, i) => `${i + 1},${formatHeight(p.height, units)},${formatVolume(p.chartVolume, units)}`),
+        ].join('\r\n'),
+    },
+    {
+        id: 'opw',
+        name: 'OPW SiteSentinel',
+        maxPoints: 50,
+        extension: 'txt',
+        acceptsUsUnits: true,
+        write: (points, config, units) => [
+            'OPW SITESENTINEL TANK CHART',
+            `TANK ${config.tankCode || 'N/A'}`,
+            `ENTRY  LEVEL ${heightLabel(units).toUpperCase()}  VOLUME ${volumeLabel(units).toUpperCase()}`,
+            ...points.map((p, i) => `${pad(i + 1, 5)}  ${pad(formatHeight(p.height, units), 12)}  ${pad(formatVolume(p.chartVolume, units), 12)}`),
+        ].join('\r\n'),
+    },
+    {
+        id: 'franklin',
+        name: 'Franklin Fueling EVO',
+        maxPoints: 100,
+        extension: 'txt',
+        acceptsUsUnits: true,
+        write: (points, config, units) => {
+            // Franklin strap tables print four level/volume pairs per line.
+            const lines: string[] = [];
+            for (let i = 0; i < points.length; i += 4) {
+                lines.push(points.slice(i, i + 4).map(p => `${pad(formatHeight(p.height, units), 10)} ${pad(formatVolume(p.chartVolume, units), 10)}`).join('   '));
+            }
+            return [
+                'FRANKLIN FUELING EVO STRAP TABLE',
+                `TANK ${config.tankCode || 'N/A'}`,
+                `LEVEL (${heightLabel(units)}) VOLUME (${volumeLabel(units)})`,
+                ...lines,
+            ].join('\r\n');
+        },
+    },
+];
+
+const interpolateBetween = (p: ProcessedData, a: ProcessedData, b: ProcessedData): number => {
+    if (b.height === a.height) return a.chartVolume;
+    return a.chartVolume + (b.chartVolume - a.chartVolume) * (p.height - a.height) / (b.height - a.height);
+};
+
+/**
+ * Picks at most `maxPoints` chart points so that linear interpolation between
+ * them stays as close as possible to the full chart. The end points are always
+ * kept; the point the current subset reproduces worst is added until the
+ * point budget is used up or the subset is exact.
+ * @returns The selected points and the largest interpolation error they leave on the full chart.
+ */
+export const reduceChartPoints = (chartData: ProcessedData[], maxPoints: number): ReducedChart => {
+    const sorted = [...chartData].sort((a, b) => a.height - b.height)
+        .filter((p, i, arr) => i === 0 || p.height !== arr[i - 1].height);
+
+    if (sorted.length <= Math.max(maxPoints, 2)) {
+        return { points: sorted, maxError: 0, maxErrorHeight: sorted[0]?.height ?? 0 };
+    }
+
+    const selected = new Set<number>([0, sorted.length - 1]);
+
+    const worstPoint = (): { index: number; error: number } => {
+        const indices = [...selected].sort((a, b) => a - b);
+        let worst = { index: -1, error: 0 };
+        for (let s = 0; s < indices.length - 1; s++) {
+            const a = sorted[indices[s]];
+            const b = sorted[indices[s + 1]];
+            for (let i = indices[s] + 1; i < indices[s + 1]; i++) {
+                const error = Math.abs(sorted[i].chartVolume - interpolateBetween(sorted[i], a, b));
+                if (error > worst.error) worst = { index: i, error };
+            }
+        }
+        return worst;
+    };
+
+    let worst = worstPoint();
+    while (selected.size < maxPoints && worst.index !== -1) {
+        selected.add(worst.index);
+        worst = worstPoint();
+    }
+
+    return {
+        points: [...selected].sort((a, b) => a - b).map(i => ({ height: sorted[i].height, chartVolume: sorted[i].chartVolume })),
+        maxError: worst.error,
+        maxErrorHeight: worst.index !== -1 ? sorted[worst.index].height : sorted[0].height,
+    };
+};
+
+/**
+ * The units a console's table is written in: US units when the report is
+ * issued in inches, feet or gallons and the console takes them, else mm/L.
+ */
+export const atgTableUnits = (profile: AtgConsoleProfile, config: ReportConfig): AtgTableUnits => {
+    const height = config.outputHeightUnit || config.heightUnit;
+    const volume = config.outputVolumeUnit || config.volumeUnit;
+    const isUs = height === 'in' || height === 'ft' || volume === 'usgal' || volume === 'impgal' || volume === 'bbl';
+    return isUs && profile.acceptsUsUnits ? usUnits : metricUnits;
+};
+
+export const getAtgConsoleProfile = (id: string): AtgConsoleProfile => {
+    const profile = atgConsoleProfiles.find(p => p.id === id);
+    if (!profile) throw new Error(`Unknown ATG console "${id}".`);
+    return profile;
+};
@@ -0,0 +1,177 @@
+import { ParsedTable } from '../types';
+
+/**
+ * A parser for one tank-chart file layout. Parsers are tried in registration
+ * order and the first whose `detect` returns true handles the file.
+ */
+export interface FileFormatParser {
+    id: string;
+    name: string;
+    detect: (lines: string[]) => boolean;
+    /** Row numbers, when given, are 1-based indexes into `lines`. */
+    parse: (lines: string[]) => ParsedTable;
+}
+
+const toField = (field: string): string | number => {
+    const num = parseFloat(field.trim());
+    return isNaN(num) ? field.trim() : num;
+};
+
+const NUMBER_PATTERN = /-?\d+(?:\.\d+)?/g;
+
+/** Removes thousands separators, so that "12,345.6" is read as one number rather than two. */
+const stripThousandsSeparators = (line: string): string =>
+    line.replace(/\b\d{1,3}(?:,\d{3})+(?:\.\d+)?\b/g, match => match.replace(/,/g, ''));
+
+const extractNumbers = (line: string): number[] => (stripThousandsSeparators(line).match(NUMBER_PATTERN) || []).map(Number);
+
+const isNumericLine = (line: string): boolean => {
+    const trimmed = line.trim();
+    return trimmed !== '' && /^[-\d.\s,;:\t]+$/.test(trimmed) && extractNumbers(trimmed).length >= 2;
+};
+
+const headerText = (lines: string[], maxLines = 15): string => lines.slice(0, maxLines).join('\n').toUpperCase();
+
+const COLUMN_HEADING = /HEIGHT|LEVEL|INCHES|VOLUME|GALLONS|LITRES|LITERS/i;
+const VOLUME_LABEL = /VOLUME|GALLON|\bGAL\b|LIT(RE|ER)S?\b|\bLTRS?\b|CAPACITY/;
+
+/**
+ * Splits the column headings of a dump into one label per column name, so
+ * that "HEIGHT MM VOLUME LITRES" gives "HEIGHT MM" and "VOLUME LITRES".
+ */
+const columnLabels = (lines: string[]): string[] =>
+    lines.slice(0, 20)
+        .filter(line => !isNumericLine(line) && COLUMN_HEADING.test(line))
+        .flatMap(line => line.toUpperCase().split(/(?=\b(?:HEIGHT|LEVEL|VOLUME|GALLONS|LIT(?:RE|ER)S|INCHES)\b)/));
+
+/**
+ * Reads the height and volume units an ATG dump declares in its column
+ * headings. Consoles report either metric (mm/L) or US (in/gal) charts. Only
+ * the headings are read, since words such as "in" occur in titles too.
+ */
+const detectDumpUnits = (lines: string[], defaults: { height: string; volume: string }): { height: string; volume: string } => {
+    const labels = columnLabels(lines);
+    const heading = labels.filter(label => !VOLUME_LABEL.test(label)).join(' ');
+    const volumeHeading = labels.filter(label => VOLUME_LABEL.test(label)).join(' ');
+    // A bare "IN" is the unit only when no word follows it, unlike "HEIGHT IN MM".
+    const height = /\bINCH(ES)?\b|\bIN\b(?!\s*[A-Z])/.test(heading) ? 'in' : /\bCM\b/.test(heading) ? 'cm' : /\bMM\b|MILLIMET/.test(heading) ? 'mm' : defaults.height;
+    const volume = /GALLON|\bGAL\b/.test(volumeHeading) ? 'gal' : /LIT(RE|ER)S?\b|\bLTRS?\b|\bL\b/.test(volumeHeading) ? 'L' : defaults.volume;
+    return { height, volume };
+};
+
+/**
+ * Collects height/volume pairs from the numeric lines of a dump, sorted by
+ * height with repeated heights dropped. Each line may hold one pair or several
+ * side-by-side pairs; a leading point index is dropped when `hasIndexColumn`
+ * is set. Every pair keeps the 1-based number of the line it was read from.
+ */
+const collectPairs = (lines: string[], firstIndex: number, hasIndexColumn: boolean): { data: number[][]; rowNumbers: number[] } => {
+    const points: { pair: number[]; lineNumber: number }[] = [];
+    lines.forEach((line, index) => {
+        if (index < firstIndex || !isNumericLine(line)) return;
+        const numbers = extractNumbers(line);
+        const values = hasIndexColumn && numbers.length % 2 === 1 ? numbers.slice(1) : numbers;
+        for (let i = 0; i + 1 < values.length; i += 2) {
+            points.push({ pair: [values[i], values[i + 1]], lineNumber: index + 1 });
+        }
+    });
+    points.sort((a, b) => a.pair[0] - b.pair[0]);
+    const unique = points.filter((p, i) => i === 0 || p.pair[0] !== points[i - 1].pair[0]);
+    return { data: unique.map(p => p.pair), rowNumbers: unique.map(p => p.lineNumber) };
+};
+
+/**
+ * Index of the first line after the column heading of the chart, so that report
+ * dates and console serial numbers in the header block are not read as points.
+ */
+const chartBodyStart = (lines: string[]): number =>
+    lines.findIndex(line => !isNumericLine(line) && COLUMN_HEADING.test(line)) + 1;
+
+const buildPairTable = (lines: string[], vendor: string, defaults: { height: string; volume: string }, hasIndexColumn: boolean): ParsedTable => {
+    const units = detectDumpUnits(lines, defaults);
+    const { data, rowNumbers } = collectPairs(lines, chartBodyStart(lines), hasIndexColumn);
+    if (data.length === 0) throw new Error(`No tank chart points were found in the ${vendor} file.`);
+    return { headers: [`Height (${units.height})`, `Volume (${units.volume})`], data, rowNumbers };
+};
+
+const fusionParser: FileFormatParser = {
+    id: 'fusion',
+    name: 'Fusion ATG tank table',
+    detect: (lines) => lines[0].trim().toUpperCase() === '[FUSION_ATG_TANK_TABLE]',
+    parse: (lines) => {
+        if (lines.length < 3) throw new Error("Fusion ATG file must have a header and at least one data row.");
+
+        const headers = lines[1].trim().split(/\s+/).map(h => h.trim());
+        const rows = lines
+            .map((line, index) => ({ line: line.trim(), lineNumber: index + 1 }))
+            .slice(2)
+            .filter(({ line }) => line !== '');
+
+        return { headers, data: rows.map(({ line }) => line.split(/\s+/).map(toField)), rowNumbers: rows.map(r => r.lineNumber) };
+    },
+};
+
+const veederRootParser: FileFormatParser = {
+    id: 'veeder-root',
+    name: 'Veeder-Root TLS tank chart',
+    detect: (lines) => {
+        const header = headerText(lines);
+        return /VEEDER[\s-]?ROOT|\bTLS-?\d{3}|\bI607\d*/.test(header) && /CHART|STRAP/.test(header);
+    },
+    // TLS chart reports print a point number followed by height and volume.
+    parse: (lines) => buildPairTable(lines, 'Veeder-Root', { height: 'in', volume: 'gal' }, true),
+};
+
+const gilbarcoParser: FileFormatParser = {
+    id: 'gilbarco',
+    name: 'Gilbarco EMC/TLS tank chart',
+    detect: (lines) => {
+        const header = headerText(lines);
+        return /GILBARCO|\bEMC\b|PASSPORT/.test(header) && /CHART|TABLE|STRAP/.test(header);
+    },
+    parse: (lines) => buildPairTable(lines, 'Gilbarco', { height: 'mm', volume: 'L' }, true),
+};
+
+const opwParser: FileFormatParser = {
+    id: 'opw',
+    name: 'OPW SiteSentinel tank chart',
+    detect: (lines) => {
+        const header = headerText(lines);
+        return /\bOPW\b|SITE\s?SENTINEL|\bEECO\b/.test(header) && /CHART|TABLE|STRAP/.test(header);
+    },
+    parse: (lines) => buildPairTable(lines, 'OPW', { height: 'mm', volume: 'L' }, true),
+};
+
+const franklinParser: FileFormatParser = {
+    id: 'franklin',
+    name: 'Franklin Fueling (EVO/TS) tank chart',
+    detect: (lines) => {
+        const header = headerText(lines);
+        return /FRANKLIN|\bEVO[\s-]?\d{3,4}|\bTS-?\d{3}|INCON/.test(header) && /CHART|TABLE|STRAP/.test(header);
+    },
+    // Franklin strap tables list several level/volume pairs per line.
+    parse: (lines) => buildPairTable(lines, 'Franklin', { height: 'in', volume: 'gal' }, false),
+};
+
+const registry: FileFormatParser[] = [fusionParser, veederRootParser, gilbarcoParser, opwParser, franklinParser];
+
+/**
+ * Adds a parser for another tank-chart layout. Parsers registered later take
+ * precedence over the built-in ones so a site-specific layout can override them.
+ */
+export const registerFileFormat = (parser: FileFormatParser): void => {
+    const existing = registry.findIndex(p => p.id === parser.id);
+    if (existing !== -1) registry.splice(existing, 1);
+    registry.unshift(parser);
+};
+
+export const getRegisteredFileFormats = (): FileFormatParser[] => [...registry];
+
+/**
+ * Finds the registered parser able to read a file.
+ * @param lines The non-empty content of the file split into lines.
+ * @returns The matching parser, or undefined to fall back to delimited-text parsing.
+ */
+export const detectFileFormat = (lines: string[]): FileFormatParser | undefined => {
+    return registry.find(parser => parser.detect(lines));
+};
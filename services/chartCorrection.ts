@@ -0,0 +1,98 @@
+import { ChartCorrectionProposal, CorrectionKnot, DeliveryValidationData, ProcessedData } from '../types';
+import { createInterpolator } from './interpolation';
+
+const MAX_POINT_BANDS = 10;
+
+/**
+ * Averages point-validation deviations in equal-width height bands, so a single
+ * noisy measurement does not bend the correction curve on its own.
+ */
+const pointCorrectionKnots = (points: ProcessedData[]): CorrectionKnot[] => {
+    const valid = points
+        .filter(p => !p.outOfRange && !p.exclusion && p.deviation !== undefined && !isNaN(p.deviation))
+        .sort((a, b) => a.height - b.height);
+    if (valid.length === 0) return [];
+
+    const minHeight = valid[0].height;
+    const maxHeight = valid[valid.length - 1].height;
+    const bandCount = Math.min(MAX_POINT_BANDS, valid.length);
+    const bandWidth = (maxHeight - minHeight) / bandCount || 1;
+
+    const bands: ProcessedData[][] = Array.from({ length: bandCount }, () => []);
+    valid.forEach(p => bands[Math.min(bandCount - 1, Math.floor((p.height - minHeight) / bandWidth))].push(p));
+
+    return bands
+        .filter(band => band.length > 0)
+        .map(band => ({
+            height: band.reduce((sum, p) => sum + p.height, 0) / band.length,
+            // The chart holds gross volumes, so compensated points are corrected on the gross basis.
+            correction: band.reduce((sum, p) => sum + (p.compensation ? p.compensation.grossDeviation : p.deviation as number), 0) / band.length,
+        }));
+};
+
+/**
+ * A delivery only tells us how wrong the chart is between its start and end
+ * heights, so each delivery's deviation is spread evenly over its height band
+ * and accumulated from the lowest delivery upwards. Overlapping bands share
+ * their deviation.
+ */
+const deliveryCorrectionKnots = (deliveries: DeliveryValidationData[]): CorrectionKnot[] => {
+    const bands = deliveries
+        .map(d => ({
+            low: Math.min(d.heightBefore, d.heightAfter),
+            high: Math.max(d.heightBefore, d.heightAfter),
+            deviation: d.compensation ? d.compensation.grossDeviation : d.deviation,
+        }))
+        .filter((b, i) => b.high > b.low && !deliveries[i].outOfRange && !deliveries[i].exclusion && !isNaN(b.deviation));
+    if (bands.length === 0) return [];
+
+    const edges = [...new Set(bands.flatMap(b => [b.low, b.high]))].sort((a, b) => a - b);
+    const knots: CorrectionKnot[] = [{ height: edges[0], correction: 0 }];
+    for (let i = 1; i < edges.length; i++) {
+        const low = edges[i - 1];
+        const high = edges[i];
+        const covering = bands.filter(b => b.low <= low && b.high >= high);
+        const slope = covering.length > 0
+            ? covering.reduce((sum, b) => sum + b.deviation / (b.high - b.low), 0) / covering.length
+            : 0;
+        knots.push({ height: high, correction: knots[knots.length - 1].correction + slope * (high - low) });
+    }
+    return knots;
+};
+
+/**
+ * Proposes a corrected chart from validation results. A smooth correction
+ * curve is fitted through the knots with a monotone cubic (PCHIP), held at its
+ * end values outside the validated heights, and added to the chart.
+ * @param chart The chart the validation was run against.
+ */
+export const proposeCorrectedChart = (
+    chart: ProcessedData[],
+    validation: { points: ProcessedData[] } | { deliveries: DeliveryValidationData[] }
+): ChartCorrectionProposal => {
+    const source = 'deliveries' in validation ? 'delivery' : 'point';
+    const knots = 'deliveries' in validation ? deliveryCorrectionKnots(validation.deliveries) : pointCorrectionKnots(validation.points);
+    if (knots.length === 0) throw new Error('There are no validation deviations to derive a correction from.');
+
+    const curve = createInterpolator(knots.map(k => ({ height: k.height, chartVolume: k.correction })), 'pchip');
+    const first = knots[0];
+    const last = knots[knots.length - 1];
+    const correctionAt = (height: number): number => {
+        if (height <= first.height) return first.correction;
+        if (height >= last.height) return last.correction;
+        return curve(height);
+    };
+
+    let maxCorrection = 0;
+    let maxCorrectionHeight = 0;
+    const correctedChart = chart.map(point => {
+        const correction = correctionAt(point.height);
+        if (Math.abs(correction) > Math.abs(maxCorrection)) {
+            maxCorrection = correction;
+            maxCorrectionHeight = point.height;
+        }
+        return { height: point.height, chartVolume: point.chartVolume + correction };
+    });
+
+    return { source, knots, originalChart: chart, correctedChart, maxCorrection, maxCorrectionHeight };
+};
@@ -0,0 +1,16 @@
+import { computeTasks, ComputeRequest, ComputeResponse } from './computeTasks';
+
+// Typed as Worker because the project compiles against the DOM library, not WebWorker.
+const ctx = self as unknown as Worker;
+
+ctx.onmessage = async (e: MessageEvent<ComputeRequest>) => {
+    const { id, task, args } = e.data;
+    let response: ComputeResponse;
+    try {
+        const run = computeTasks[task] as (...taskArgs: unknown[]) => unknown;
+        response = { id, result: await run(...args) };
+    } catch (err) {
+        response = { id, error: (err as Error).message };
+    }
+    ctx.postMessage(response);
+};
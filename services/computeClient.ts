@@ -0,0 +1,63 @@
+import { computeTasks, ComputeResponse, ComputeTaskName } from './computeTasks';
+
+type TaskArgs<K extends ComputeTaskName> = Parameters<typeof computeTasks[K]>;
+type TaskResult<K extends ComputeTaskName> = Awaited<ReturnType<typeof computeTasks[K]>>;
+
+let worker: Worker | null = null;
+let workerFailed = false;
+let nextId = 1;
+const pending = new Map<number, { resolve: (value: unknown) => void; reject: (reason: Error) => void }>();
+
+const getWorker = (): Worker | null => {
+    if (worker || workerFailed) return worker;
+    if (typeof Worker === 'undefined') {
+        workerFailed = true;
+        return null;
+    }
+    try {
+        worker = new Worker(new URL('./compute.worker.ts', import.meta.url), { type: 'module' });
+    } catch {
+        workerFailed = true;
+        return null;
+    }
+    worker.onmessage = (e: MessageEvent<ComputeResponse>) => {
+        const request = pending.get(e.data.id);
+        if (!request) return;
+        pending.delete(e.data.id);
+        if ('error' in e.data) request.reject(new Error(e.data.error));
+        else request.resolve(e.data.result);
+    };
+    worker.onerror = (e) => {
+        // A worker that cannot load fails every request; later tasks run on the main thread.
+        e.preventDefault();
+        worker?.terminate();
+        worker = null;
+        workerFailed = true;
+        pending.forEach(request => request.reject(new Error('The background calculation failed. Please try again.')));
+        pending.clear();
+    };
+    return worker;
+};
+
+/**
+ * Runs a calculation in the background worker so large charts do not freeze
+ * the page. Falls back to the main thread where workers are unavailable.
+ */
+export const runComputeTask = <K extends ComputeTaskName>(task: K, ...args: TaskArgs<K>): Promise<TaskResult<K>> => {
+    const target = getWorker();
+    if (!target) {
+        const run = computeTasks[task] as (...taskArgs: TaskArgs<K>) => TaskResult<K> | Promise<TaskResult<K>>;
+        return new Promise((resolve, reject) => {
+            try {
+                resolve(run(...args));
+            } catch (err) {
+                reject(err);
+            }
+        });
+    }
+    const id = nextId++;
+    return new Promise<TaskResult<K>>((resolve, reject) => {
+        pending.set(id, { resolve: resolve as (value: unknown) => void, reject });
+        target.postMessage({ id, task, args });
+    });
+};
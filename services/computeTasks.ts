@@ -0,0 +1,21 @@
+import { buildStrappingChart } from './strappingChart';
+import { processValidationData } from './dataProcessor';
+import { estimateTilt } from './tiltCorrection';
+import { crossValidateInterpolation } from './interpolation';
+
+/**
+ * The calculations that may run off the main thread. Arguments and results
+ * must survive structured cloning, so they are plain data only.
+ */
+export const computeTasks = {
+    buildStrappingChart,
+    processValidationData,
+    estimateTilt,
+    crossValidateInterpolation,
+};
+
+export type ComputeTaskName = keyof typeof computeTasks;
+
+export type ComputeRequest = { id: number; task: ComputeTaskName; args: unknown[] };
+
+export type ComputeResponse = { id: number; result: unknown } | { id: number; error: string };
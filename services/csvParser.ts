@@ -0,0 +1,131 @@
+import { CsvImportOptions } from '../types';
+
+export const defaultCsvImportOptions: CsvImportOptions = {
+    delimiter: 'auto',
+    decimalSeparator: 'auto',
+};
+
+export interface CsvRecord {
+    fields: string[];
+    lineNumber: number;
+}
+
+/**
+ * Picks the delimiter used in the first record of a file by counting the
+ * candidates that appear outside quoted fields. Ties prefer tab, then
+ * semicolon, then comma.
+ */
+export const detectDelimiter = (text: string): ',' | ';' | '\t' => {
+    const counts: Record<string, number> = { '\t': 0, ';': 0, ',': 0 };
+    let inQuotes = false;
+    for (const char of text) {
+        if (char === '"') inQuotes = !inQuotes;
+        else if (!inQuotes && (char === '\n' || char === '\r')) break;
+        else if (!inQuotes && char in counts) counts[char]++;
+    }
+    const best = (['\t', ';', ','] as const).reduce((a, b) => (counts[b] > counts[a] ? b : a));
+    return counts[best] > 0 ? best : ',';
+};
+
+/**
+ * Splits delimited text into records following RFC 4180: fields may be quoted,
+ * quotes inside quoted fields are escaped by doubling them, and quoted fields may
+ * span line breaks. A leading byte-order mark is removed and blank lines are skipped.
+ * @returns The records with the (1-based) line number each one starts on.
+ */
+export const parseCsv = (text: string, delimiter: string): CsvRecord[] => {
+    const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+    const records: CsvRecord[] = [];
+
+    let fields: string[] = [];
+    let field = '';
+    let inQuotes = false;
+    let line = 1;
+    let recordLine = 1;
+
+    const endRecord = () => {
+        fields.push(field);
+        if (fields.length > 1 || fields[0].trim() !== '') {
+            records.push({ fields, lineNumber: recordLine });
+        }
+        fields = [];
+        field = '';
+    };
+
+    for (let i = 0; i < input.length; i++) {
+        const char = input[i];
+
+        if (inQuotes) {
+            if (char === '"') {
+                if (input[i + 1] === '"') {
+                    field += '"';
+                    i++;
+                } else {
+                    inQuotes = false;
+                }
+            } else {
+                if (char === '\n') line++;
+                field += char;
+            }
+            continue;
+        }
+
+        if (char === '"' && field.trim() === '') {
+            field = '';
+            inQuotes = true;
+        } else if (char === delimiter) {
+            fields.push(field);
+            field = '';
+        } else if (char === '\r' || char === '\n') {
+            if (char === '\r' && input[i + 1] === '\n') i++;
+            endRecord();
+            line++;
+            recordLine = line;
+        } else {
+            field += char;
+        }
+    }
+
+    if (inQuotes) throw new Error(`Unterminated quoted field starting on line ${recordLine}.`);
+    if (field !== '' || fields.length > 0) endRecord();
+
+    return records;
+};
+
+/**
+ * Converts a text field into a number honouring decimal and thousand separators.
+ * With `decimalSeparator: 'auto'`, a field containing both separators uses the
+ * last one as the decimal mark; a lone comma is a decimal mark in
+ * semicolon/tab files or when it is not followed by exactly three digits.
+ * @returns The number, or null when the field is not numeric.
+ */
+export const parseLocaleNumber = (raw: string, decimalSeparator: CsvImportOptions['decimalSeparator'], delimiter = ','): number | null => {
+    let text = raw.trim().replace(/[\s']/g, '');
+    if (text === '') return null;
+
+    let decimal = decimalSeparator;
+    if (decimal === 'auto') {
+        const lastDot = text.lastIndexOf('.');
+        const lastComma = text.lastIndexOf(',');
+        if (lastDot !== -1 && lastComma !== -1) {
+            decimal = lastComma > lastDot ? ',' : '.';
+        } else if (lastComma !== -1) {
+            const singleComma = text.indexOf(',') === lastComma;
+            const looksLikeThousands = /^-?\d{1,3}(,\d{3})+$/.test(text);
+            decimal = singleComma && (delimiter !== ',' || !looksLikeThousands) ? ',' : '.';
+        } else {
+            decimal = '.';
+        }
+    }
+
+    const thousands = decimal === ',' ? '.' : ',';
+    if (text.includes(thousands)) {
+        const grouped = decimal === ',' ? /^[-+]?\d{1,3}(\.\d{3})+(,\d*)?$/ : /^[-+]?\d{1,3}(,\d{3})+(\.\d*)?$/;
+        if (!grouped.test(text)) return null;
+        text = text.split(thousands).join('');
+    }
+    if (decimal === ',') text = text.replace(',', '.');
+
+    if (!/^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/.test(text)) return null;
+    return Number(text);
+};
@@ -1,87 +1,107 @@
-import { ProcessedData, ValidationStats, ReportConfig, DeliveryValidationData } from '../types';
+import { ProcessedData, ValidationStats, ReportConfig, DeliveryValidationData, ColumnRole, ParsedTable, CsvImportOptions, RejectedRow, InterpolationMethod, ReadingConditions, DipSettings, ValidationSettings, ReadingExclusion } from '../types';
+import { detectFileFormat } from './atgFormats';
+import { defaultCsvImportOptions, detectDelimiter, parseCsv, parseLocaleNumber } from './csvParser';
+import { detectHeightUnit, detectVolumeUnit } from './units';
+import { createInterpolator, isOutsideChart } from './interpolation';
+import { compensateDelivery, compensatePoint, parseProductType } from './temperatureCorrection';
+import { applyDipSettings } from './dipReadings';
+import { createToleranceCalculator } from './tolerance';
+import { createUncertaintyCalculator, UncertaintyCalculator } from './uncertainty';
 
 /**
  * Parses the text content of a calibration data file, auto-detecting the format.
  * Supports:
- *  - Standard CSV with headers (comma-separated).
- *  - Headerless CSV (comma or semicolon-separated), assumes [Height, Volume, ...].
- *  - FUSION_ATG_TANK_TABLE format (space-separated).
+ *  - Any ATG tank-table layout in the format registry (Fusion, Veeder-Root, Gilbarco, OPW, Franklin).
+ *  - RFC 4180 delimited text (comma, semicolon or tab) with a header row.
+ *  - Headerless delimited text, assumes [Height, Volume, ...].
+ * Numbers in delimited text are read with the decimal and thousand separators
+ * given in `options`.
  * @param text The raw string content of the file.
- * @returns An object containing the parsed headers and data.
+ * @param options The delimiter and number format of delimited text.
+ * @returns An object containing the parsed headers, data and the name of the detected format.
  */
-const parseFileContent = (text: string): { headers: string[], data: (string|number)[][] } => {
-    const trimmedText = text.trim();
+export const parseFileContent = (text: string, options: CsvImportOptions = defaultCsvImportOptions): ParsedTable => {
+    const content = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+    const trimmedText = content.trim();
     if (!trimmedText) throw new Error("File content is empty.");
+    // Row numbers refer to lines of the file as uploaded, including any blank lines trimmed above.
+    const leadingLineCount = (content.match(/^\s*/)?.[0].match(/\n/g) || []).length;
 
-    let lines = trimmedText.split(/\r?\n/);
+    const lines = trimmedText.split(/\r?\n/);
 
-    // 1. Handle FUSION_ATG_TANK_TABLE format
-    if (lines[0].trim().toUpperCase() === '[FUSION_ATG_TANK_TABLE]') {
-        if (lines.length < 3) throw new Error("Fusion ATG file must have a header and at least one data row.");
-        
-        const headerLine = lines[1];
-        const dataLines = lines.slice(2);
-        const headers = headerLine.split(/\s+/).map(h => h.trim());
-
-        const data = dataLines.map(line => {
-            const fields = line.trim().split(/\s+/);
-            return fields.map(field => {
-                const num = parseFloat(field.trim());
-                return isNaN(num) ? field.trim() : num;
-            });
-        });
-
-        return { headers, data };
+    // 1. Handle registered ATG tank-table formats
+    const parser = detectFileFormat(lines);
+    if (parser) {
+        const table = parser.parse(lines);
+        return { ...table, rowNumbers: table.rowNumbers?.map(n => n + leadingLineCount), format: parser.name };
     }
 
     // 2. Detect delimiter for other formats (CSV-like)
-    let delimiter = ',';
-    if (lines[0].includes(';')) {
-        delimiter = ';';
-    } 
-    
+    const delimiter = options.delimiter === 'auto' ? detectDelimiter(trimmedText) : options.delimiter;
+    const records = parseCsv(trimmedText, delimiter);
+    if (records.length === 0) throw new Error("No data rows found in the file.");
+
+    const delimiterName = delimiter === '\t' ? 'tab' : delimiter === ';' ? 'semicolon' : 'comma';
+    const format = `Delimited text (CSV, ${delimiterName}-separated)`;
+    const toField = (field: string): string | number => parseLocaleNumber(field, options.decimalSeparator, delimiter) ?? field.trim();
+
     // 3. Check if the first line is a header or data
-    const firstLineFields = lines[0].split(delimiter);
     // A line is considered a header if it contains at least one non-numeric value.
-    const firstLineIsHeader = firstLineFields.some(field => isNaN(parseFloat(field.trim())));
+    const firstLineIsHeader = records[0].fields.some(field => parseLocaleNumber(field, options.decimalSeparator, delimiter) === null);
 
     if (firstLineIsHeader) {
         // Standard CSV with a header row
-        if (lines.length < 2) throw new Error("CSV file must have at least one data row.");
-        const headers = lines[0].split(delimiter).map(h => h.trim());
-        const data = lines.slice(1).map(line => {
-            return line.split(delimiter).map(field => {
-                const num = parseFloat(field.trim());
-                return isNaN(num) ? field.trim() : num;
-            });
-        });
-        return { headers, data };
+        if (records.length < 2) throw new Error("CSV file must have at least one data row.");
+        const headers = records[0].fields.map(h => h.trim());
+        const dataRecords = records.slice(1);
+        return {
+            headers,
+            data: dataRecords.map(record => record.fields.map(toField)),
+            rowNumbers: dataRecords.map(record => record.lineNumber + leadingLineCount),
+            format,
+        };
     } else {
-        // Headerless data (like the semicolon example)
-        const headers = ['Height', 'Volume']; // Assume default headers
-        const data = lines.map(line => {
-            const fields = line.split(delimiter);
-            // We are interested in the first two columns for this format.
-            return fields.slice(0, 2).map(field => {
-                const num = parseFloat(field.trim());
-                return isNaN(num) ? field.trim() : num;
-            });
-        });
-        if (data.length === 0) throw new Error("No data rows found in the file.");
-        return { headers, data };
+        // Headerless data; we are interested in the first two columns for this format.
+        return {
+            headers: ['Height', 'Volume'],
+            data: records.map(record => record.fields.slice(0, 2).map(toField)),
+            rowNumbers: records.map(record => record.lineNumber + leadingLineCount),
+            format,
+        };
     }
 };
 
+/**
+ * Reads a numeric cell. Empty or text cells are not numbers (rather than zero).
+ */
+const toNumber = (cell: string | number | undefined): number => {
+    if (typeof cell === 'number') return cell;
+    if (cell === undefined || cell.trim() === '') return NaN;
+    return Number(cell);
+};
+
+/**
+ * Why a row is rejected: the first of the given columns that is empty or not
+ * a number. Null when all of them are numbers.
+ */
+const rejectionReason = (row: (string | number)[], headers: string[], columnIndices: number[]): string | null => {
+    const index = columnIndices.find(i => isNaN(toNumber(row[i])));
+    if (index === undefined) return null;
+    const value = row[index];
+    return value === undefined || value === '' ? `"${headers[index]}" is empty` : `"${headers[index]}" value "${value}" is not a number`;
+};
+
 const findHeaders = (headers: string[]): { heightHeader: string; volumeHeader?: string; fieldVolumeHeader?: string; deliveryHeader?: string } | null => {
-    const heightRegex = /height|depth|level|dip/i;
+    const heightRegex = /height|depth|level|dip|innage|ullage|outage/i;
     const volumeRegex = /volume|capacity|liters|gallons|Ltrs/i;
     const fieldVolumeRegex = /field|actual|measured|site/i;
     const deliveryRegex = /delivery|delivered|fuel delivery/i;
+    const temperatureRegex = /temp/i;
 
-    const heightHeader = headers.find(h => heightRegex.test(h));
+    const heightHeader = headers.find(h => heightRegex.test(h) && !/water/i.test(h));
     const volumeHeader = headers.find(h => volumeRegex.test(h) && !fieldVolumeRegex.test(h)) || headers.find(h => volumeRegex.test(h));
     const fieldVolumeHeader = headers.find(h => fieldVolumeRegex.test(h) && volumeRegex.test(h));
-    const deliveryHeader = headers.find(h => deliveryRegex.test(h));
+    const deliveryHeader = headers.find(h => deliveryRegex.test(h) && !temperatureRegex.test(h));
     
     if (heightHeader && (volumeHeader || deliveryHeader)) {
         return { heightHeader, volumeHeader, fieldVolumeHeader, deliveryHeader };
@@ -89,32 +109,115 @@ const findHeaders = (headers: string[]): { heightHeader: string; volumeHeader?:
     return null;
 }
 
+type ConditionColumns = { [K in keyof ReadingConditions]-?: number };
 
-const calculateStats = (data: ProcessedData[]): ValidationStats => {
-    const validDeviations = data.map(d => d.deviation).filter(d => d !== undefined && d !== null && !isNaN(d)) as number[];
-    const totalMeasurements = validDeviations.length;
+/**
+ * Finds the optional product, density and temperature columns of a validation file.
+ * Temperatures are read in °C and densities in kg/m³ at 15 °C.
+ */
+const findConditionColumns = (headers: string[]): ConditionColumns => {
+    const isDeliveryTemperature = (h: string) => /temp/i.test(h) && /deliver|note|receipt/i.test(h);
+    return {
+        productType: headers.findIndex(h => /product|grade/i.test(h)),
+        density: headers.findIndex(h => /dens/i.test(h)),
+        tankTemperature: headers.findIndex(h => /temp/i.test(h) && !isDeliveryTemperature(h)),
+        deliveryTemperature: headers.findIndex(isDeliveryTemperature),
+        waterHeight: headers.findIndex(h => /water/i.test(h)),
+    };
+};
+
+const readConditions = (row: (string | number)[], columns: ConditionColumns): ReadingConditions | undefined => {
+    const conditions: ReadingConditions = {};
+    const product = columns.productType !== -1 ? parseProductType(String(row[columns.productType] ?? '')) : undefined;
+    if (product) conditions.productType = product;
+    (['density', 'tankTemperature', 'deliveryTemperature', 'waterHeight'] as const).forEach(key => {
+        const value = columns[key] !== -1 ? toNumber(row[columns[key]]) : NaN;
+        if (!isNaN(value)) conditions[key] = value;
+    });
+    return Object.keys(conditions).length > 0 ? conditions : undefined;
+};
+
+/**
+ * Applies the dip settings to readings from a file. A height column headed
+ * "Ullage" or "Outage" is read as ullage whatever the configured mode.
+ */
+const readingsOnChartDatum = <T extends { height: number; conditions?: ReadingConditions }>(readings: T[], heightHeader: string, dip?: DipSettings): T[] => {
+    if (!dip) return readings;
+    return applyDipSettings(readings, dip, /ullage|outage/i.test(heightHeader) ? 'ullage' : dip.entryMode);
+};
+
+/**
+ * Chart volume of the product at a level, less the water under it.
+ */
+const productVolume = (volumeAt: (height: number) => number, height: number, conditions?: ReadingConditions): number => {
+    const waterHeight = conditions?.waterHeight;
+    return volumeAt(height) - (waterHeight !== undefined && waterHeight > 0 ? volumeAt(waterHeight) : 0);
+};
+
+interface DeviationEntry {
+    height: number;
+    deviation?: number;
+    /** The reported volume or delivery the deviation is a percentage of. */
+    reported?: number;
+    withinTolerance?: boolean;
+    withinUncertainty?: boolean;
+    excluded?: boolean;
+}
+
+/**
+ * Summarises the deviations of the readings counted in the statistics. The
+ * verdict passes when every reading checked against the tolerance profile is
+ * within it; readings without a tolerance check do not count towards it.
+ * Excluded readings count towards neither.
+ */
+const calculateStats = (entries: DeviationEntry[], toleranceProfileName?: string): ValidationStats => {
+    const excludedCount = entries.filter(e => e.excluded).length;
+    const valid = entries.filter((e): e is DeviationEntry & { deviation: number } => !e.excluded && e.deviation !== undefined && e.deviation !== null && !isNaN(e.deviation));
+    const totalMeasurements = valid.length;
     
     if (totalMeasurements === 0) {
-        return { totalMeasurements: 0, averageDeviation: 0, maxDeviation: { height: 0, value: 0 }, minDeviation: { height: 0, value: 0 } };
+        return {
+            totalMeasurements: 0, averageDeviation: 0, maxDeviation: { height: 0, value: 0 }, minDeviation: { height: 0, value: 0 },
+            standardDeviation: 0, rmsDeviation: 0, meanAbsoluteDeviation: 0, averagePercentDeviation: 0,
+            ...(excludedCount > 0 ? { excludedCount } : {}),
+        };
     }
 
-    const averageDeviation = validDeviations.reduce((sum, dev) => sum + dev, 0) / totalMeasurements;
+    const deviations = valid.map(e => e.deviation);
+    const averageDeviation = deviations.reduce((sum, dev) => sum + dev, 0) / totalMeasurements;
+    const squaredSpread = deviations.reduce((sum, dev) => sum + (dev - averageDeviation) ** 2, 0);
+    const standardDeviation = totalMeasurements > 1 ? Math.sqrt(squaredSpread / (totalMeasurements - 1)) : 0;
+    const rmsDeviation = Math.sqrt(deviations.reduce((sum, dev) => sum + dev * dev, 0) / totalMeasurements);
+    const meanAbsoluteDeviation = deviations.reduce((sum, dev) => sum + Math.abs(dev), 0) / totalMeasurements;
+    const percentDeviations = valid.filter(e => e.reported).map(e => e.deviation / Math.abs(e.reported as number) * 100);
+    const averagePercentDeviation = percentDeviations.length > 0 ? percentDeviations.reduce((sum, p) => sum + p, 0) / percentDeviations.length : 0;
 
     let maxDeviation: { height: number; value: number } = { height: -Infinity, value: -Infinity };
     let minDeviation: { height: number; value: number } = { height: Infinity, value: Infinity };
 
-    data.forEach(d => {
-        if (d.deviation !== undefined && d.deviation !== null && !isNaN(d.deviation)) {
-            if (d.deviation > maxDeviation.value) {
-                maxDeviation = { height: d.height, value: d.deviation };
-            }
-            if (d.deviation < minDeviation.value) {
-                minDeviation = { height: d.height, value: d.deviation };
-            }
+    valid.forEach(e => {
+        if (e.deviation > maxDeviation.value) {
+            maxDeviation = { height: e.height, value: e.deviation };
+        }
+        if (e.deviation < minDeviation.value) {
+            minDeviation = { height: e.height, value: e.deviation };
         }
     });
 
-    return { totalMeasurements, averageDeviation, maxDeviation, minDeviation };
+    const stats: ValidationStats = {
+        totalMeasurements, averageDeviation, maxDeviation, minDeviation,
+        standardDeviation, rmsDeviation, meanAbsoluteDeviation, averagePercentDeviation,
+    };
+    if (excludedCount > 0) stats.excludedCount = excludedCount;
+    if (valid.some(e => e.withinUncertainty !== undefined)) {
+        stats.beyondUncertaintyCount = valid.filter(e => e.withinUncertainty === false).length;
+    }
+    const checked = valid.filter(e => e.withinTolerance !== undefined);
+    if (toleranceProfileName && checked.length > 0) {
+        const failedCount = checked.filter(e => !e.withinTolerance).length;
+        stats.verdict = { profileName: toleranceProfileName, passed: failedCount === 0, checkedCount: checked.length, failedCount };
+    }
+    return stats;
 }
 
 export const fileToText = (file: File): Promise<string> => {
@@ -126,28 +229,77 @@ export const fileToText = (file: File): Promise<string> => {
     });
 };
 
-// FIX: Corrected the broken function signature which was causing multiple import errors.
-export const processAndAnalyzeData = async (
-    fileText: string
-): Promise<{ data: ProcessedData[]; stats: ValidationStats | null; initialConfig: Partial<ReportConfig> }> => {
-    const { headers: headerList, data: rawData } = parseFileContent(fileText);
-    const headers = findHeaders(headerList);
-    
-    if (!headers || !headers.volumeHeader) {
-        throw new Error('Could not automatically detect "Height" and "Volume" columns. Please check the file headers or ensure the format is correct.');
+/**
+ * Suggests a role for every column using the header regexes.
+ * The suggestion is flagged as ambiguous when a required role is missing or
+ * when several columns compete for the same role, in which case the user
+ * should confirm the mapping before processing.
+ * @param headers The header row of the parsed file.
+ * @returns The suggested role per column and whether it needs confirmation.
+ */
+export const suggestColumnRoles = (headers: string[]): { roles: ColumnRole[]; isAmbiguous: boolean } => {
+    const roles: ColumnRole[] = headers.map(() => 'ignore');
+    const detected = findHeaders(headers);
+
+    if (detected) {
+        const assign = (header: string | undefined, role: ColumnRole) => {
+            if (!header) return;
+            const index = headers.indexOf(header);
+            if (index !== -1 && roles[index] === 'ignore') roles[index] = role;
+        };
+        assign(detected.heightHeader, 'height');
+        assign(detected.volumeHeader, 'chartVolume');
+        assign(detected.fieldVolumeHeader, 'fieldVolume');
+        assign(detected.deliveryHeader, 'delivery');
     }
 
-    const { heightHeader, volumeHeader, fieldVolumeHeader } = headers;
-    const heightIndex = headerList.indexOf(heightHeader);
-    const volumeIndex = headerList.indexOf(volumeHeader);
-    const fieldVolumeIndex = fieldVolumeHeader ? headerList.indexOf(fieldVolumeHeader) : -1;
+    const heightMatches = headers.filter(h => /height|depth|level|dip/i.test(h)).length;
+    const volumeMatches = headers.filter(h => /volume|capacity|liters|gallons|Ltrs/i.test(h) && !/field|actual|measured|site/i.test(h)).length;
+    const isAmbiguous = !roles.includes('height') || !roles.includes('chartVolume') || heightMatches > 1 || volumeMatches > 1;
+
+    return { roles, isAmbiguous };
+};
 
-    const data: ProcessedData[] = rawData.map((row): ProcessedData | null => {
-        const height = Number(row[heightIndex]);
-        const chartVolume = Number(row[volumeIndex]);
-        const fieldVolume = fieldVolumeIndex !== -1 ? Number(row[fieldVolumeIndex]) : undefined;
+/**
+ * Checks that a column mapping can be used to build a chart.
+ * @returns An error message, or null when the mapping is usable.
+ */
+export const validateColumnRoles = (roles: ColumnRole[]): string | null => {
+    const count = (role: ColumnRole) => roles.filter(r => r === role).length;
+    if (count('height') !== 1) return 'Assign exactly one column as Height.';
+    if (count('chartVolume') !== 1) return 'Assign exactly one column as Chart Volume.';
+    if (count('fieldVolume') > 1) return 'Assign at most one column as Field Volume.';
+    if (count('delivery') > 1) return 'Assign at most one column as Delivery.';
+    return null;
+};
+
+/**
+ * Builds the chart data set from a parsed table using an explicit column mapping.
+ */
+export const processChartTable = (
+    table: ParsedTable,
+    roles: ColumnRole[]
+): { data: ProcessedData[]; stats: ValidationStats | null; initialConfig: Partial<ReportConfig>; rejectedRows: RejectedRow[] } => {
+    const mappingError = validateColumnRoles(roles);
+    if (mappingError) throw new Error(mappingError);
+
+    const { headers: headerList, data: rawData } = table;
+    const heightIndex = roles.indexOf('height');
+    const volumeIndex = roles.indexOf('chartVolume');
+    const fieldVolumeIndex = roles.indexOf('fieldVolume');
+
+    const rejectedRows: RejectedRow[] = [...(table.rejectedRows || [])];
+    const data: ProcessedData[] = rawData.map((row, i): ProcessedData | null => {
+        const rowNumber = table.rowNumbers?.[i] ?? i + 2;
+        const height = toNumber(row[heightIndex]);
+        const chartVolume = toNumber(row[volumeIndex]);
+        const fieldVolume = fieldVolumeIndex !== -1 ? toNumber(row[fieldVolumeIndex]) : undefined;
         
-        if (isNaN(height) || isNaN(chartVolume)) return null;
+        const reason = rejectionReason(row, headerList, [heightIndex, volumeIndex]);
+        if (reason) {
+            rejectedRows.push({ rowNumber, reason });
+            return null;
+        }
         
         const deviation = (fieldVolume !== undefined && !isNaN(fieldVolume)) ? (fieldVolume - chartVolume) : undefined;
 
@@ -156,26 +308,43 @@ export const processAndAnalyzeData = async (
 
     if (data.length === 0) throw new Error('No valid numeric data found.');
     
-    const initialConfig: Partial<ReportConfig> = { heightHeader, volumeHeader, columnOrder: 'height-volume', decimalPlaces: 2 };
-    const stats: ValidationStats | null = fieldVolumeHeader ? calculateStats(data) : null;
+    const heightHeader = headerList[heightIndex] || 'Height';
+    const volumeHeader = headerList[volumeIndex] || 'Volume';
+    const heightUnit = detectHeightUnit(heightHeader) || 'mm';
+    const volumeUnit = detectVolumeUnit(volumeHeader) || 'L';
+    const initialConfig: Partial<ReportConfig> = {
+        heightHeader,
+        volumeHeader,
+        columnOrder: 'height-volume',
+        decimalPlaces: 2,
+        heightUnit,
+        volumeUnit,
+        outputHeightUnit: heightUnit,
+        outputVolumeUnit: volumeUnit,
+    };
+    const stats: ValidationStats | null = fieldVolumeIndex !== -1 ? calculateStats(data.map(d => ({ ...d, reported: d.fieldVolume }))) : null;
     
-    return { data, stats, initialConfig };
+    return { data, stats, initialConfig, rejectedRows };
 };
 
+// FIX: Corrected the broken function signature which was causing multiple import errors.
+export const processAndAnalyzeData = async (
+    fileText: string,
+    roles?: ColumnRole[],
+    options: CsvImportOptions = defaultCsvImportOptions
+): Promise<{ data: ProcessedData[]; stats: ValidationStats | null; initialConfig: Partial<ReportConfig>; rejectedRows: RejectedRow[] }> => {
+    const table = parseFileContent(fileText, options);
+    const columnRoles = roles ?? suggestColumnRoles(table.headers).roles;
+    
+    if (!columnRoles.includes('height') || !columnRoles.includes('chartVolume')) {
+        throw new Error('Could not automatically detect "Height" and "Volume" columns. Please check the file headers or ensure the format is correct.');
+    }
 
-const interpolate = (height: number, chartData: ProcessedData[]): number => {
-    const sortedChart = [...chartData].sort((a, b) => a.height - b.height);
-    const upper = sortedChart.find(p => p.height >= height);
-    const lower = [...sortedChart].reverse().find(p => p.height <= height);
-
-    if (!upper || !lower) return sortedChart[0]?.chartVolume || 0; // Extrapolate or default
-    if (upper.height === lower.height) return upper.chartVolume;
-
-    const slope = (upper.chartVolume - lower.chartVolume) / (upper.height - lower.height);
-    return lower.chartVolume + slope * (height - lower.height);
+    return processChartTable(table, columnRoles);
 };
 
-export const generateStrappingChartData = (chartData: ProcessedData[], points: number = 300): ProcessedData[] => {
+
+export const generateStrappingChartData = (chartData: ProcessedData[], points: number = 300, method: InterpolationMethod = 'linear'): ProcessedData[] => {
     if (chartData.length < 2) return chartData;
 
     const sortedChart = [...chartData].sort((a, b) => a.height - b.height);
@@ -184,10 +353,11 @@ export const generateStrappingChartData = (chartData: ProcessedData[], points: n
     
     const step = (maxHeight - minHeight) / (points - 1);
     const strappingData: ProcessedData[] = [];
+    const volumeAt = createInterpolator(chartData, method);
 
     for (let i = 0; i < points; i++) {
         const currentHeight = minHeight + (i * step);
-        const currentVolume = interpolate(currentHeight, chartData);
+        const currentVolume = volumeAt(currentHeight);
         strappingData.push({ height: currentHeight, chartVolume: currentVolume });
     }
     
@@ -196,9 +366,11 @@ export const generateStrappingChartData = (chartData: ProcessedData[], points: n
 
 const processPointValidation = (
     validationFileText: string,
-    chartData: ProcessedData[]
-): { combinedData: ProcessedData[], stats: ValidationStats } => {
-    const { headers: headerList, data: rawData } = parseFileContent(validationFileText);
+    chartData: ProcessedData[],
+    options: CsvImportOptions,
+    settings: ValidationSettings
+): { combinedData: ProcessedData[], stats: ValidationStats, rejectedRows: RejectedRow[] } => {
+    const { headers: headerList, data: rawData, rowNumbers } = parseFileContent(validationFileText, options);
     const headers = findHeaders(headerList);
 
     if (!headers || !headers.volumeHeader) {
@@ -207,82 +379,179 @@ const processPointValidation = (
 
     const heightIndex = headerList.indexOf(headers.heightHeader);
     const volumeIndex = headerList.indexOf(headers.volumeHeader);
-
-    const validationPoints = rawData.map(row => ({
-        height: Number(row[heightIndex]),
-        fieldVolume: Number(row[volumeIndex]),
-    })).filter(p => !isNaN(p.height) && !isNaN(p.fieldVolume));
+    const conditionColumns = findConditionColumns(headerList);
+
+    const rejectedRows: RejectedRow[] = [];
+    const validationPoints = rawData.flatMap((row, i) => {
+        const reason = rejectionReason(row, headerList, [heightIndex, volumeIndex]);
+        if (reason) {
+            rejectedRows.push({ rowNumber: rowNumbers?.[i] ?? i + 2, reason });
+            return [];
+        }
+        return [{
+            height: toNumber(row[heightIndex]),
+            fieldVolume: toNumber(row[volumeIndex]),
+            conditions: readConditions(row, conditionColumns),
+        }];
+    });
 
     if (validationPoints.length === 0) {
         throw new Error("No valid validation data points found in the file.");
     }
 
+    const result = calculatePointValidation(readingsOnChartDatum(validationPoints, headers.heightHeader, settings.dip), chartData, settings);
+    return { ...result, rejectedRows };
+};
+
+/**
+ * Whether a reading, or the water level under it, lies outside the chart.
+ */
+const isReadingOutsideChart = (chartData: ProcessedData[], height: number, conditions?: ReadingConditions): boolean => {
+    const waterHeight = conditions?.waterHeight;
+    return isOutsideChart(chartData, height) || (waterHeight !== undefined && waterHeight > 0 && isOutsideChart(chartData, waterHeight));
+};
+
+/**
+ * Compares field-measured volumes with the chart volume at the same heights,
+ * less any water recorded under the product. With temperature compensation
+ * enabled, points that carry a tank temperature are compared on both the
+ * gross and the net basis. Readings outside the chart are flagged and valued
+ * by the extrapolation policy, and every valued reading is checked against
+ * the tolerance profile and, when enabled, given an expanded uncertainty.
+ * Excluded readings are valued but left out of the statistics.
+ */
+export const calculatePointValidation = (
+    validationPoints: { height: number; fieldVolume: number; conditions?: ReadingConditions; exclusion?: ReadingExclusion }[],
+    chartData: ProcessedData[],
+    settings: ValidationSettings
+): { combinedData: ProcessedData[], stats: ValidationStats } => {
+    const volumeAt = createInterpolator(chartData, settings.interpolationMethod, settings.extrapolation);
+    const toleranceAt = createToleranceCalculator(settings, chartData);
+    const uncertainty = settings.uncertainty.enabled ? createUncertaintyCalculator(settings, chartData) : null;
     const combinedData: ProcessedData[] = validationPoints.map(vp => {
-        const chartVolume = interpolate(vp.height, chartData);
-        return {
+        const chartVolume = productVolume(volumeAt, vp.height, vp.conditions);
+        const point: ProcessedData = {
             height: vp.height,
             chartVolume: chartVolume,
             fieldVolume: vp.fieldVolume,
             deviation: vp.fieldVolume - chartVolume,
-        }
+        };
+        if (isReadingOutsideChart(chartData, vp.height, vp.conditions)) point.outOfRange = true;
+        if (vp.conditions) point.conditions = vp.conditions;
+        if (vp.exclusion) point.exclusion = vp.exclusion;
+        if (isNaN(chartVolume)) return point;
+        const compensated = compensatePoint(point, settings.temperature);
+        const tolerance = toleranceAt(vp.height, vp.fieldVolume);
+        const valued: ProcessedData = { ...compensated, tolerance, withinTolerance: Math.abs(compensated.deviation as number) <= tolerance };
+        return uncertainty ? withUncertainty(valued, uncertainty.point(valued)) : valued;
     });
     
-    const stats = calculateStats(combinedData);
+    return { combinedData, stats: calculatePointStats(combinedData, settings) };
+};
 
-    return { combinedData, stats };
+/**
+ * Statistics of valued point readings, e.g. after a reading is excluded.
+ */
+export const calculatePointStats = (points: ProcessedData[], settings: ValidationSettings): ValidationStats => {
+    const counted = points.filter(p => settings.includeOutOfRangeInStats || !p.outOfRange);
+    return calculateStats(counted.map(p => ({ ...p, reported: p.fieldVolume, excluded: !!p.exclusion })), settings.tolerance.name);
 };
 
+const withUncertainty = <T extends { deviation?: number }>(row: T, uncertainty: number): T =>
+    ({ ...row, uncertainty, withinUncertainty: Math.abs(row.deviation as number) <= uncertainty });
+
+const valueDelivery = (
+    delivery: DeliveryValidationData,
+    chartData: ProcessedData[],
+    volumeAt: (height: number) => number,
+    toleranceAt: (height: number, reported: number) => number,
+    uncertainty: UncertaintyCalculator | null,
+    settings: ValidationSettings
+): DeliveryValidationData => {
+    const volumeBefore = productVolume(volumeAt, delivery.heightBefore, delivery.conditionsBefore);
+    const volumeAfter = productVolume(volumeAt, delivery.heightAfter, delivery.conditionsAfter);
+    const chartCalculatedDelivery = volumeAfter - volumeBefore;
+    const { outOfRange, compensation, tolerance: previousTolerance, withinTolerance, uncertainty: previousUncertainty, withinUncertainty, ...previous } = delivery;
+    const valued: DeliveryValidationData = { ...previous, chartCalculatedDelivery, deviation: delivery.reportedDelivery - chartCalculatedDelivery };
+    if (isReadingOutsideChart(chartData, delivery.heightBefore, delivery.conditionsBefore)
+        || isReadingOutsideChart(chartData, delivery.heightAfter, delivery.conditionsAfter)) {
+        valued.outOfRange = true;
+    }
+    if (isNaN(chartCalculatedDelivery)) return valued;
+    const compensated = compensateDelivery(valued, volumeBefore, volumeAfter, settings.temperature);
+    const tolerance = toleranceAt(delivery.heightAfter, delivery.reportedDelivery);
+    const checked: DeliveryValidationData = { ...compensated, tolerance, withinTolerance: Math.abs(compensated.deviation) <= tolerance };
+    return uncertainty ? withUncertainty(checked, uncertainty.delivery(checked, volumeBefore, volumeAfter)) : checked;
+};
+
+/**
+ * Compares each reported delivery with the change in product volume between
+ * the readings before and after it (water excluded), optionally compensated
+ * for temperature. Heights are levels on the chart datum.
+ */
 export const calculateDeliveryValidation = (
-    deliveryPoints: { height: number; delivery: number }[],
-    chartData: ProcessedData[]
+    deliveryPoints: { height: number; delivery: number; conditions?: ReadingConditions }[],
+    chartData: ProcessedData[],
+    settings: ValidationSettings
 ): { deliveryData: DeliveryValidationData[], stats: ValidationStats } => {
 
+    const volumeAt = createInterpolator(chartData, settings.interpolationMethod, settings.extrapolation);
+    const toleranceAt = createToleranceCalculator(settings, chartData);
+    const uncertainty = settings.uncertainty.enabled ? createUncertaintyCalculator(settings, chartData) : null;
     const deliveryData: DeliveryValidationData[] = [];
     for (let i = 1; i < deliveryPoints.length; i++) {
-        const heightBefore = deliveryPoints[i - 1].height;
-        const heightAfter = deliveryPoints[i].height;
         const reportedDelivery = deliveryPoints[i].delivery;
 
         if (reportedDelivery === 0 && i > 0) continue; // Skip entries with 0 delivery unless it's the very first reading
 
-        const volumeBefore = interpolate(heightBefore, chartData);
-        const volumeAfter = interpolate(heightAfter, chartData);
-
-        const chartCalculatedDelivery = volumeAfter - volumeBefore;
-
-        deliveryData.push({
-            heightBefore,
-            heightAfter,
+        const delivery: DeliveryValidationData = {
+            heightBefore: deliveryPoints[i - 1].height,
+            heightAfter: deliveryPoints[i].height,
             reportedDelivery,
-            chartCalculatedDelivery,
-            deviation: reportedDelivery - chartCalculatedDelivery,
-        });
+            chartCalculatedDelivery: 0,
+            deviation: 0,
+        };
+        if (deliveryPoints[i - 1].conditions) delivery.conditionsBefore = deliveryPoints[i - 1].conditions;
+        if (deliveryPoints[i].conditions) delivery.conditionsAfter = deliveryPoints[i].conditions;
+        deliveryData.push(valueDelivery(delivery, chartData, volumeAt, toleranceAt, uncertainty, settings));
     }
 
-    const totalDeliveries = deliveryData.length;
-    if (totalDeliveries === 0) {
-        return { deliveryData: [], stats: { totalMeasurements: 0, averageDeviation: 0, maxDeviation: { height: 0, value: 0 }, minDeviation: { height: 0, value: 0 } } };
-    }
-
-    const deviations = deliveryData.map(d => d.deviation);
-    const averageDeviation = deviations.reduce((a, b) => a + b, 0) / totalDeliveries;
-
-    let maxDeviation = { height: -1, value: -Infinity };
-    let minDeviation = { height: -1, value: Infinity };
+    return { deliveryData, stats: calculateDeliveryStats(deliveryData, settings) };
+};
 
-    deliveryData.forEach(d => {
-        if (d.deviation > maxDeviation.value) maxDeviation = { height: d.heightAfter, value: d.deviation };
-        if (d.deviation < minDeviation.value) minDeviation = { height: d.heightAfter, value: d.deviation };
-    });
+/**
+ * Recomputes the chart-calculated volume of each delivery against a changed chart.
+ */
+export const recalculateDeliveryValidation = (
+    deliveries: DeliveryValidationData[],
+    chartData: ProcessedData[],
+    settings: ValidationSettings
+): { deliveryData: DeliveryValidationData[], stats: ValidationStats } => {
+    const volumeAt = createInterpolator(chartData, settings.interpolationMethod, settings.extrapolation);
+    const toleranceAt = createToleranceCalculator(settings, chartData);
+    const uncertainty = settings.uncertainty.enabled ? createUncertaintyCalculator(settings, chartData) : null;
+    const deliveryData = deliveries.map(d => valueDelivery(d, chartData, volumeAt, toleranceAt, uncertainty, settings));
+    return { deliveryData, stats: calculateDeliveryStats(deliveryData, settings) };
+};
 
-    return { deliveryData, stats: { totalMeasurements: totalDeliveries, averageDeviation, maxDeviation, minDeviation } };
+/**
+ * Statistics of valued deliveries, e.g. after a delivery is excluded.
+ */
+export const calculateDeliveryStats = (allDeliveries: DeliveryValidationData[], settings: ValidationSettings): ValidationStats => {
+    const deliveryData = allDeliveries.filter(d => settings.includeOutOfRangeInStats || !d.outOfRange);
+    return calculateStats(
+        deliveryData.map(d => ({ height: d.heightAfter, deviation: d.deviation, reported: d.reportedDelivery, withinTolerance: d.withinTolerance, withinUncertainty: d.withinUncertainty, excluded: !!d.exclusion })),
+        settings.tolerance.name
+    );
 };
 
 const processDeliveryValidation = (
     validationFileText: string,
-    chartData: ProcessedData[]
-): { deliveryData: DeliveryValidationData[], stats: ValidationStats } => {
-    const { headers: headerList, data: rawData } = parseFileContent(validationFileText);
+    chartData: ProcessedData[],
+    options: CsvImportOptions,
+    settings: ValidationSettings
+): { deliveryData: DeliveryValidationData[], stats: ValidationStats, rejectedRows: RejectedRow[] } => {
+    const { headers: headerList, data: rawData, rowNumbers } = parseFileContent(validationFileText, options);
     const headers = findHeaders(headerList);
 
     if (!headers || !headers.deliveryHeader) {
@@ -291,43 +560,58 @@ const processDeliveryValidation = (
 
     const heightIndex = headerList.indexOf(headers.heightHeader);
     const deliveryIndex = headerList.indexOf(headers.deliveryHeader);
-
-    const deliveryPoints = rawData.map(row => ({
-        height: Number(row[heightIndex]),
-        delivery: Number(row[deliveryIndex]),
-    })).filter(p => !isNaN(p.height) && !isNaN(p.delivery));
+    const conditionColumns = findConditionColumns(headerList);
+
+    const rejectedRows: RejectedRow[] = [];
+    const deliveryPoints = rawData.flatMap((row, i) => {
+        const reason = rejectionReason(row, headerList, [heightIndex, deliveryIndex]);
+        if (reason) {
+            rejectedRows.push({ rowNumber: rowNumbers?.[i] ?? i + 2, reason });
+            return [];
+        }
+        return [{
+            height: toNumber(row[heightIndex]),
+            delivery: toNumber(row[deliveryIndex]),
+            conditions: readConditions(row, conditionColumns),
+        }];
+    });
 
     if (deliveryPoints.length < 2) {
         throw new Error("Delivery validation requires at least two data points (e.g., before and after delivery).");
     }
 
-    return calculateDeliveryValidation(deliveryPoints, chartData);
+    const result = calculateDeliveryValidation(readingsOnChartDatum(deliveryPoints, headers.heightHeader, settings.dip), chartData, settings);
+    return { ...result, rejectedRows };
 };
 
 export const processValidationData = async (
     validationFileText: string,
-    chartData: ProcessedData[]
+    chartData: ProcessedData[],
+    options: CsvImportOptions,
+    settings: ValidationSettings
 ): Promise<{
     type: 'point_validation',
     combinedData: ProcessedData[],
-    stats: ValidationStats
+    stats: ValidationStats,
+    rejectedRows: RejectedRow[]
 } | {
     type: 'delivery_validation',
     deliveryData: DeliveryValidationData[],
-    stats: ValidationStats
+    stats: ValidationStats,
+    rejectedRows: RejectedRow[]
 }> => {
-    const { headers: headerList } = parseFileContent(validationFileText);
+    const { headers: headerList } = parseFileContent(validationFileText, options);
     const headers = findHeaders(headerList);
 
     if (headers?.deliveryHeader) {
-        const result = processDeliveryValidation(validationFileText, chartData);
+        const result = processDeliveryValidation(validationFileText, chartData, options, settings);
         return { type: 'delivery_validation', ...result };
     }
     
     if (headers?.volumeHeader) {
-        const result = processPointValidation(validationFileText, chartData);
+        const result = processPointValidation(validationFileText, chartData, options, settings);
         return { type: 'point_validation', ...result };
     }
     
     throw new Error("Could not determine validation file type. Please ensure headers like 'Volume' or 'Fuel Delivery' are present.");
-};
\ No newline at end of file
+};
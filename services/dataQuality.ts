@@ -0,0 +1,269 @@
+import { AppliedCorrection, ProcessedData, QualityFix, QualityIssue, ReportConfig } from '../types';
+import { parseLocaleNumber } from './csvParser';
+import { volumeUnitLabel } from './units';
+
+const GAP_FACTOR = 5;
+const OUTLIER_Z = 3.5;
+const CAPACITY_TOLERANCE = 0.02;
+
+const median = (values: number[]): number => {
+    if (values.length === 0) return 0;
+    const sorted = [...values].sort((a, b) => a - b);
+    const mid = Math.floor(sorted.length / 2);
+    return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+/**
+ * Reads the free-text tank capacity from the configuration ("50,000L", "50000 L").
+ */
+export const parseDeclaredCapacity = (tankCapacity: string): number | null => {
+    const numeric = tankCapacity.replace(/[^\d.,\s-]/g, '').trim();
+    return numeric ? parseLocaleNumber(numeric, 'auto') : null;
+};
+
+/**
+ * Indices (into the original array) of points that break from the local trend
+ * of the chart, found with a robust z-score of each point's residual against
+ * the straight line through its neighbours. Only the worst point of a run of
+ * flagged neighbours is reported, since a single spike also skews the
+ * residuals of the points either side of it.
+ */
+export const findChartOutliers = (data: ProcessedData[]): number[] => {
+    const order = data.map((_, i) => i).sort((a, b) => data[a].height - data[b].height);
+    if (order.length < 5) return [];
+
+    const residuals: number[] = order.map((idx, k) => {
+        if (k === 0 || k === order.length - 1) return 0;
+        const prev = data[order[k - 1]];
+        const next = data[order[k + 1]];
+        const point = data[idx];
+        if (next.height === prev.height) return 0;
+        const predicted = prev.chartVolume + (next.chartVolume - prev.chartVolume) * (point.height - prev.height) / (next.height - prev.height);
+        return point.chartVolume - predicted;
+    });
+
+    const interior = residuals.slice(1, -1);
+    const center = median(interior);
+    const mad = median(interior.map(r => Math.abs(r - center))) * 1.4826;
+    const volumeRange = Math.abs(data[order[order.length - 1]].chartVolume - data[order[0]].chartVolume);
+    const scale = Math.max(mad, volumeRange * 1e-6);
+    if (scale === 0) return [];
+
+    const z = residuals.map((r, k) => (k === 0 || k === residuals.length - 1 ? 0 : Math.abs(r - center) / scale));
+    const outliers: number[] = [];
+    z.forEach((value, k) => {
+        if (value > OUTLIER_Z && value >= (z[k - 1] ?? 0) && value >= (z[k + 1] ?? 0)) {
+            outliers.push(order[k]);
+        }
+    });
+    return outliers;
+};
+
+/**
+ * Robust z-scores of the validation readings whose deviation stands out from
+ * the rest, keyed by row index. Readings already excluded, and readings
+ * without a deviation, are neither scored nor used for the centre and spread.
+ * When more than half the deviations are equal the median absolute deviation
+ * is zero, and the mean absolute deviation is used instead.
+ */
+export const findDeviationOutliers = (rows: { deviation?: number; exclusion?: unknown }[]): Map<number, number> => {
+    const scored = rows
+        .map((row, index) => ({ index, deviation: row.deviation }))
+        .filter((r, i): r is { index: number; deviation: number } => !rows[i].exclusion && typeof r.deviation === 'number' && !isNaN(r.deviation));
+    const outliers = new Map<number, number>();
+    if (scored.length < 4) return outliers;
+
+    const center = median(scored.map(r => r.deviation));
+    const distances = scored.map(r => Math.abs(r.deviation - center));
+    const mad = median(distances) * 1.4826;
+    const scale = mad > 0 ? mad : distances.reduce((sum, d) => sum + d, 0) / distances.length * 1.2533;
+    if (scale === 0) return outliers;
+
+    scored.forEach((r, k) => {
+        const z = distances[k] / scale;
+        if (z > OUTLIER_Z) outliers.set(r.index, z);
+    });
+    return outliers;
+};
+
+/**
+ * Inspects a calibration chart for problems that would otherwise flow silently
+ * into the reports. Row numbers in the issues are 1-based positions in `data`.
+ */
+export const inspectChartQuality = (data: ProcessedData[], config: ReportConfig): QualityIssue[] => {
+    const issues: QualityIssue[] = [];
+    if (data.length === 0) return issues;
+    const unit = volumeUnitLabel(config.volumeUnit);
+    const dp = config.decimalPlaces;
+
+    const unsortedRows = data.map((d, i) => (i > 0 && d.height < data[i - 1].height ? i + 1 : -1)).filter(r => r !== -1);
+    if (unsortedRows.length > 0) {
+        issues.push({
+            id: 'unsorted',
+            severity: 'warning',
+            title: 'Heights are not in ascending order',
+            message: `${unsortedRows.length} row(s) have a lower height than the row before them.`,
+            rows: unsortedRows,
+            fix: 'sort',
+        });
+    }
+
+    const order = data.map((_, i) => i).sort((a, b) => data[a].height - data[b].height || a - b);
+
+    const duplicateRows: number[] = [];
+    let conflictingDuplicates = false;
+    order.forEach((idx, k) => {
+        if (k === 0) return;
+        const prev = data[order[k - 1]];
+        if (data[idx].height === prev.height) {
+            duplicateRows.push(idx + 1);
+            if (data[idx].chartVolume !== prev.chartVolume) conflictingDuplicates = true;
+        }
+    });
+    if (duplicateRows.length > 0) {
+        issues.push({
+            id: 'duplicate-height',
+            severity: conflictingDuplicates ? 'error' : 'warning',
+            title: 'Duplicated heights',
+            message: conflictingDuplicates
+                ? `${duplicateRows.length} row(s) repeat a height with a different volume. The first occurrence is kept when dropping duplicates.`
+                : `${duplicateRows.length} row(s) repeat a height with the same volume.`,
+            rows: duplicateRows,
+            fix: 'drop-duplicates',
+        });
+    }
+
+    const negativeRows = data.map((d, i) => (d.height < 0 || d.chartVolume < 0 ? i + 1 : -1)).filter(r => r !== -1);
+    if (negativeRows.length > 0) {
+        issues.push({
+            id: 'negative-value',
+            severity: 'error',
+            title: 'Negative values',
+            message: `${negativeRows.length} row(s) have a negative height or volume.`,
+            rows: negativeRows,
+            fix: 'remove-negative',
+        });
+    }
+
+    const decreasingRows: number[] = [];
+    order.forEach((idx, k) => {
+        if (k === 0) return;
+        const prev = data[order[k - 1]];
+        if (data[idx].height > prev.height && data[idx].chartVolume < prev.chartVolume) decreasingRows.push(idx + 1);
+    });
+    if (decreasingRows.length > 0) {
+        issues.push({
+            id: 'non-monotonic-volume',
+            severity: 'error',
+            title: 'Volume decreases with height',
+            message: `${decreasingRows.length} row(s) have a lower volume than the point below them.`,
+            rows: decreasingRows,
+            fix: 'remove-outliers',
+        });
+    }
+
+    const outlierRows = findChartOutliers(data).map(i => i + 1).filter(r => !decreasingRows.includes(r));
+    if (outlierRows.length > 0) {
+        issues.push({
+            id: 'outlier',
+            severity: 'warning',
+            title: 'Points off the chart curve',
+            message: `${outlierRows.length} point(s) deviate sharply from the line through their neighbours.`,
+            rows: outlierRows,
+            fix: 'remove-outliers',
+        });
+    }
+
+    const steps = order.slice(1).map((idx, k) => data[idx].height - data[order[k]].height).filter(s => s > 0);
+    const typicalStep = median(steps);
+    const gapRows: number[] = [];
+    order.forEach((idx, k) => {
+        if (k === 0 || typicalStep === 0) return;
+        if (data[idx].height - data[order[k - 1]].height > GAP_FACTOR * typicalStep) gapRows.push(idx + 1);
+    });
+    if (gapRows.length > 0) {
+        issues.push({
+            id: 'height-gap',
+            severity: 'warning',
+            title: 'Large gaps in height',
+            message: `${gapRows.length} gap(s) are more than ${GAP_FACTOR}× the typical height step of ${typicalStep.toFixed(dp)}. Volumes in these gaps are interpolated over a long span.`,
+            rows: gapRows,
+        });
+    }
+
+    const capacity = parseDeclaredCapacity(config.tankCapacity || '');
+    if (capacity && capacity > 0) {
+        const maxVolume = Math.max(...data.map(d => d.chartVolume));
+        const difference = (maxVolume - capacity) / capacity;
+        if (Math.abs(difference) > CAPACITY_TOLERANCE) {
+            const maxRow = data.findIndex(d => d.chartVolume === maxVolume) + 1;
+            issues.push({
+                id: 'capacity-mismatch',
+                severity: 'warning',
+                title: 'Maximum volume does not match tank capacity',
+                message: `The chart tops out at ${maxVolume.toFixed(dp)} ${unit} but the declared capacity is ${capacity.toFixed(dp)} ${unit} (${(difference * 100).toFixed(1)}%).`,
+                rows: [maxRow],
+            });
+        }
+    }
+
+    return issues;
+};
+
+const describeFix = (fix: QualityFix, count: number): string => {
+    switch (fix) {
+        case 'sort': return `Sorted ${count} chart points by height.`;
+        case 'drop-duplicates': return `Dropped ${count} row(s) with a duplicated height.`;
+        case 'remove-negative': return `Removed ${count} row(s) with a negative height or volume.`;
+        case 'remove-outliers': return `Removed ${count} point(s) that were off the chart curve or decreased in volume.`;
+    }
+};
+
+/**
+ * Applies a one-click data-quality fix to the chart.
+ * @returns The corrected chart and a record of the correction for the report.
+ */
+export const applyQualityFix = (data: ProcessedData[], fix: QualityFix): { data: ProcessedData[]; correction: AppliedCorrection } => {
+    let corrected: ProcessedData[];
+    let rowsAffected: number;
+
+    switch (fix) {
+        case 'sort': {
+            corrected = [...data].sort((a, b) => a.height - b.height);
+            rowsAffected = corrected.filter((d, i) => d !== data[i]).length;
+            break;
+        }
+        case 'drop-duplicates': {
+            const seen = new Set<number>();
+            corrected = data.filter(d => {
+                if (seen.has(d.height)) return false;
+                seen.add(d.height);
+                return true;
+            });
+            rowsAffected = data.length - corrected.length;
+            break;
+        }
+        case 'remove-negative': {
+            corrected = data.filter(d => d.height >= 0 && d.chartVolume >= 0);
+            rowsAffected = data.length - corrected.length;
+            break;
+        }
+        case 'remove-outliers': {
+            const outliers = new Set(findChartOutliers(data));
+            const sorted = data.filter((_, i) => !outliers.has(i)).sort((a, b) => a.height - b.height);
+            // Any remaining point that is lower than the one below it cannot be right on a tank chart.
+            corrected = [];
+            sorted.forEach(d => {
+                const last = corrected[corrected.length - 1];
+                if (!last || d.height === last.height || d.chartVolume >= last.chartVolume) corrected.push(d);
+            });
+            rowsAffected = data.length - corrected.length;
+            break;
+        }
+    }
+
+    return {
+        data: corrected,
+        correction: { fix, description: describeFix(fix, rowsAffected), rowsAffected, appliedAt: new Date().toISOString() },
+    };
+};
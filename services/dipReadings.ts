@@ -0,0 +1,41 @@
+import { DipSettings, ReadingConditions } from '../types';
+
+export const defaultDipSettings: DipSettings = {
+    entryMode: 'innage',
+    referenceHeight: 0,
+    datumOffset: 0,
+};
+
+/**
+ * Converts a dip reading to a product level on the chart datum.
+ * @param entryMode Overrides the configured mode, e.g. for a file whose column is headed "Ullage".
+ */
+export const toChartLevel = (reading: number, settings: DipSettings, entryMode = settings.entryMode): number => {
+    if (entryMode === 'innage') return reading + settings.datumOffset;
+    if (!(settings.referenceHeight > 0)) {
+        throw new Error('Ullage readings need the reference height of the dip point.');
+    }
+    const innage = settings.referenceHeight - reading;
+    if (innage < 0) {
+        throw new Error(`Ullage ${reading} is larger than the reference height ${settings.referenceHeight}.`);
+    }
+    return innage + settings.datumOffset;
+};
+
+/**
+ * Moves validation readings onto the chart datum: dips become product levels
+ * and water cuts (always taken up from the dip plate) become water levels.
+ * A cut of zero means no water and stays zero.
+ */
+export const applyDipSettings = <T extends { height: number; conditions?: ReadingConditions }>(
+    readings: T[],
+    settings: DipSettings,
+    entryMode = settings.entryMode
+): T[] => {
+    return readings.map(reading => {
+        const height = toChartLevel(reading.height, settings, entryMode);
+        const waterHeight = reading.conditions?.waterHeight;
+        if (waterHeight === undefined || !(waterHeight > 0)) return { ...reading, height };
+        return { ...reading, height, conditions: { ...reading.conditions, waterHeight: waterHeight + settings.datumOffset } };
+    });
+};
@@ -0,0 +1,175 @@
+import { ParsedTable, SheetImportOptions, SheetRow, WorkbookData } from '../types';
+import { waitForLibrary } from './libraryLoader';
+
+/**
+ * Checks whether a file should be read as a spreadsheet workbook rather than as text.
+ */
+export const isWorkbookFile = (file: File): boolean => /\.(xlsx|xls)$/i.test(file.name);
+
+export const fileToArrayBuffer = (file: File): Promise<ArrayBuffer> => {
+    return new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve(reader.result as ArrayBuffer);
+        reader.onerror = (error) => reject(error);
+        reader.readAsArrayBuffer(file);
+    });
+};
+
+const toCellValue = (cell: unknown): string | number => {
+    if (typeof cell === 'number') return cell;
+    const text = cell === null || cell === undefined ? '' : String(cell).trim();
+    const num = Number(text);
+    return text !== '' && !isNaN(num) ? num : text;
+};
+
+const isNumericCell = (cell: string | number | undefined): boolean => typeof cell === 'number';
+
+const isDataRow = (row: SheetRow): boolean => {
+    return row.filter(isNumericCell).length >= 2 && row.every(cell => isNumericCell(cell) || cell === '');
+};
+
+/**
+ * Reads every sheet of an Excel workbook into rows of cell values.
+ * @param file The uploaded .xlsx or .xls file.
+ * @returns The sheet names in workbook order and the rows of each sheet.
+ */
+export const readWorkbook = async (file: File): Promise<WorkbookData> => {
+    const XLSX = await waitForLibrary<any>('XLSX');
+    const buffer = await fileToArrayBuffer(file);
+    const workbook = XLSX.read(buffer, { type: 'array' });
+
+    if (!workbook.SheetNames || workbook.SheetNames.length === 0) {
+        throw new Error('The workbook does not contain any sheets.');
+    }
+
+    const sheets: Record<string, SheetRow[]> = {};
+    const rowNumbers: Record<string, number[]> = {};
+    workbook.SheetNames.forEach((name: string) => {
+        const rows: unknown[][] = XLSX.utils.sheet_to_json(workbook.Sheets[name], { header: 1, blankrows: false, defval: '' });
+        sheets[name] = rows.map(row => row.map(toCellValue));
+        // SheetJS marks each row with its 0-based index in the sheet, which blank rows and an offset range shift.
+        rowNumbers[name] = rows.map((row, i) => ((row as { __rowNum__?: number }).__rowNum__ ?? i) + 1);
+    });
+
+    return { fileName: file.name, sheetNames: workbook.SheetNames, sheets, rowNumbers };
+};
+
+/**
+ * Finds the header row of a sheet by locating the first data row (at least two
+ * numeric cells and no text) and taking the row above it. Rows before the header, such as a
+ * client/tank title block, are skipped.
+ * @returns The index of the header row, or -1 when the data has no header.
+ */
+export const detectHeaderRowIndex = (rows: SheetRow[]): number => {
+    const firstDataRow = rows.findIndex(isDataRow);
+    if (firstDataRow <= 0) return -1;
+    const candidate = rows[firstDataRow - 1];
+    return candidate.some(cell => typeof cell === 'string' && cell !== '') ? firstDataRow - 1 : -1;
+};
+
+const normaliseHeader = (cell: string | number | undefined): string => String(cell ?? '').trim().toLowerCase();
+
+/**
+ * Detects the side-by-side layout produced by the strapping chart exports, where a
+ * single height/volume header pair is repeated across the sheet.
+ */
+export const detectColumnPairs = (headerRow: SheetRow | undefined): boolean => {
+    if (!headerRow) return false;
+    const cells = [...headerRow];
+    while (cells.length > 0 && normaliseHeader(cells[cells.length - 1]) === '') cells.pop();
+    if (cells.length < 4 || cells.length % 2 !== 0) return false;
+
+    const first = normaliseHeader(cells[0]);
+    const second = normaliseHeader(cells[1]);
+    if (!first || !second || first === second) return false;
+
+    return cells.every((cell, i) => normaliseHeader(cell) === (i % 2 === 0 ? first : second));
+};
+
+const extractUnit = (header: string | number | undefined): string | undefined => {
+    return String(header ?? '').match(/\(([^)]+)\)/)?.[1];
+};
+
+/**
+ * Folds repeated height/volume column pairs back into a single series sorted by height.
+ * Blank cells (the padding at the end of the last pair) and repeated heights are dropped.
+ */
+const unpairColumns = (headerRow: SheetRow | undefined, dataRows: SheetRow[], dataRowNumbers: number[]): ParsedTable => {
+    const firstHeader = normaliseHeader(headerRow?.[0]);
+    const volumeFirst = /vol/.test(firstHeader) && !/^h/.test(firstHeader);
+    const heightUnit = extractUnit(headerRow?.[volumeFirst ? 1 : 0]);
+    const volumeUnit = extractUnit(headerRow?.[volumeFirst ? 0 : 1]);
+    const width = Math.max(headerRow?.length ?? 0, ...dataRows.map(r => r.length));
+
+    const points: { height: number; volume: number; rowNumber: number }[] = [];
+    for (let col = 0; col + 1 < width; col += 2) {
+        dataRows.forEach((row, i) => {
+            const a = row[col];
+            const b = row[col + 1];
+            if (!isNumericCell(a) || !isNumericCell(b)) return;
+            const height = (volumeFirst ? b : a) as number;
+            const volume = (volumeFirst ? a : b) as number;
+            points.push({ height, volume, rowNumber: dataRowNumbers[i] });
+        });
+    }
+
+    points.sort((p, q) => p.height - q.height);
+    const unique = points.filter((p, i) => i === 0 || p.height !== points[i - 1].height);
+
+    if (unique.length === 0) throw new Error('No height/volume pairs were found in the selected sheet.');
+
+    return {
+        headers: [heightUnit ? `Height (${heightUnit})` : 'Height', volumeUnit ? `Volume (${volumeUnit})` : 'Volume'],
+        data: unique.map(p => [p.height, p.volume]),
+        rowNumbers: unique.map(p => p.rowNumber),
+    };
+};
+
+/**
+ * Converts one sheet of a workbook into a table for column mapping.
+ * @param workbook The workbook read by `readWorkbook`.
+ * @param options The sheet to use, where its header row is, and whether to fold column pairs.
+ */
+export const sheetToTable = (workbook: WorkbookData, options: SheetImportOptions): ParsedTable => {
+    const rows = workbook.sheets[options.sheetName];
+    if (!rows || rows.length === 0) throw new Error(`Sheet "${options.sheetName}" is empty.`);
+
+    const headerRow = options.headerRowIndex >= 0 ? rows[options.headerRowIndex] : undefined;
+    const sheetRowNumbers = workbook.rowNumbers[options.sheetName] || [];
+    // Each kept row remembers its sheet row, so rejected rows can be reported where they are in the workbook.
+    const kept = rows
+        .map((row, i) => ({ row, rowNumber: sheetRowNumbers[i] ?? i + 1 }))
+        .slice(options.headerRowIndex + 1)
+        .filter(({ row }) => row.some(cell => cell !== ''));
+    const dataRows = kept.map(k => k.row);
+    const rowNumbers = kept.map(k => k.rowNumber);
+    if (dataRows.length === 0) throw new Error('No data rows found below the selected header row.');
+
+    const format = `Excel workbook (sheet "${options.sheetName}")`;
+    if (options.unpairColumns) {
+        return { ...unpairColumns(headerRow, dataRows, rowNumbers), format: `${format}, side-by-side column pairs`, sheet: options };
+    }
+
+    const width = Math.max(headerRow?.length ?? 0, ...dataRows.map(r => r.length));
+    const headers = Array.from({ length: width }, (_, i) => {
+        const header = headerRow ? String(headerRow[i] ?? '').trim() : '';
+        if (header) return header;
+        if (!headerRow && width >= 2 && i < 2) return i === 0 ? 'Height' : 'Volume';
+        return `Column ${i + 1}`;
+    });
+
+    return { headers, data: dataRows, rowNumbers, format, sheet: options };
+};
+
+/**
+ * Suggests import options for a sheet based on its layout.
+ */
+export const suggestSheetImportOptions = (workbook: WorkbookData, sheetName: string): SheetImportOptions => {
+    const rows = workbook.sheets[sheetName] || [];
+    const headerRowIndex = detectHeaderRowIndex(rows);
+    return {
+        sheetName,
+        headerRowIndex,
+        unpairColumns: detectColumnPairs(headerRowIndex >= 0 ? rows[headerRowIndex] : undefined),
+    };
+};
@@ -1,5 +1,15 @@
-import { ProcessedData, ReportConfig, ValidationStats } from '../types';
-import { generateStrappingChartData } from './dataProcessor';
+import { ProcessedData, ReportConfig, ValidationStats, AppliedCorrection, StrappingChartRow, StrappingChartSettings, ValidationDataset, DeliveryValidationData, ReadingExclusion, ExclusionAuditEntry, UncertaintyBudget, SiteDetails, SiteTank } from '../types';
+import { getStrappingChartSettings, paginateStrappingChart } from './strappingChart';
+import { runComputeTask } from './computeClient';
+import { atgTableUnits, getAtgConsoleProfile, reduceChartPoints, ReducedChart } from './atgExport';
+import { toOutputUnits, datasetToOutputUnits, heightUnitLabel, volumeUnitLabel } from './units';
+import { interpolationMethods } from './interpolation';
+import { describeToleranceProfile } from './tolerance';
+import { auditActionLabels, combinedVerdict } from './validationDatasets';
+import { calculateUncertaintyBudget } from './uncertainty';
+import { summarizeSiteTank, tankLabel } from './siteProject';
+import { restoreReportConfig } from './reportConfig';
+import { applyTiltCorrection } from './tiltCorrection';
 
 declare const jsPDF: any;
 declare const XLSX: any;
@@ -14,7 +24,15 @@ const generateBaseFilename = (config: ReportConfig): string => {
     return `${client}_${tank}`;
 };
 
-const generateHeaders = (config: ReportConfig, hasValidationData: boolean): string[] => {
+const isCompensated = (data: ProcessedData[]): boolean => data.some(d => d.compensation);
+
+const hasToleranceCheck = (data: ProcessedData[]): boolean => data.some(d => d.withinTolerance !== undefined);
+
+const hasExclusions = (rows: { exclusion?: ReadingExclusion }[]): boolean => rows.some(r => r.exclusion);
+
+const hasUncertainty = (rows: { uncertainty?: number }[]): boolean => rows.some(r => r.uncertainty !== undefined);
+
+const generateHeaders = (config: ReportConfig, hasValidationData: boolean, compensated = false, toleranceChecked = false, excluded = false, uncertain = false): string[] => {
     const headers = [];
     if (config.columnOrder === 'height-volume') {
         headers.push(config.heightHeader);
@@ -25,15 +43,38 @@ const generateHeaders = (config: ReportConfig, hasValidationData: boolean): stri
     }
     if (hasValidationData) {
         headers.push(`Field ${config.volumeHeader}`);
-        headers.push('Deviation');
+        if (compensated) {
+            headers.push('Tank Temp (°C)', 'Gross Deviation', 'Net Deviation');
+        } else {
+            headers.push('Deviation');
+        }
+        if (toleranceChecked) headers.push('Tolerance');
+        if (uncertain) headers.push('U (k=2)');
+        if (excluded) headers.push('Exclusion');
     }
     return headers;
 };
 
+const formatValue = (value: number | null | undefined, config: ReportConfig): string =>
+    typeof value === 'number' && !isNaN(value) ? value.toFixed(config.decimalPlaces) : 'N/A';
+
+const formatExclusion = (exclusion?: ReadingExclusion): string =>
+    exclusion ? `Excluded: ${exclusion.reason}` : '';
+
+const formatUncertainty = (row: { uncertainty?: number; withinUncertainty?: boolean }, config: ReportConfig): string =>
+    row.uncertainty === undefined ? 'N/A' : `±${formatValue(row.uncertainty, config)}${row.withinUncertainty === false ? ' (beyond U)' : ''}`;
+
+const formatToleranceCheck = (row: { withinTolerance?: boolean; tolerance?: number }, config: ReportConfig): string =>
+    row.withinTolerance === undefined ? 'N/A' : `${row.withinTolerance ? 'PASS' : 'FAIL'} (±${formatValue(row.tolerance, config)})`;
+
 const generateRows = (data: ProcessedData[], config: ReportConfig, hasValidationData: boolean): (string | number)[][] => {
+    const compensated = isCompensated(data);
+    const toleranceChecked = hasToleranceCheck(data);
+    const excluded = hasExclusions(data);
+    const uncertain = hasUncertainty(data);
     return data.map(row => {
-        const height = row.height.toFixed(config.decimalPlaces);
-        const chartVolume = row.chartVolume.toFixed(config.decimalPlaces);
+        const height = row.height.toFixed(config.decimalPlaces) + (row.outOfRange ? ' (out of range)' : '');
+        const chartVolume = formatValue(row.chartVolume, config);
         
         const rowData: (string|number)[] = [];
         if (config.columnOrder === 'height-volume') {
@@ -43,17 +84,92 @@ const generateRows = (data: ProcessedData[], config: ReportConfig, hasValidation
         }
         
         if (hasValidationData) {
-            rowData.push(row.fieldVolume !== undefined ? row.fieldVolume.toFixed(config.decimalPlaces) : 'N/A');
-            rowData.push(row.deviation !== undefined ? row.deviation.toFixed(config.decimalPlaces) : 'N/A');
+            rowData.push(formatValue(row.fieldVolume, config));
+            if (compensated) {
+                rowData.push(row.conditions?.tankTemperature ?? 'N/A');
+                rowData.push(formatValue(row.compensation ? row.compensation.grossDeviation : row.deviation, config));
+                rowData.push(formatValue(row.compensation?.netDeviation, config));
+            } else {
+                rowData.push(formatValue(row.deviation, config));
+            }
+            if (toleranceChecked) {
+                rowData.push(formatToleranceCheck(row, config));
+            }
+            if (uncertain) {
+                rowData.push(formatUncertainty(row, config));
+            }
+            if (excluded) {
+                rowData.push(formatExclusion(row.exclusion));
+            }
         }
         
         return rowData;
     });
 };
 
-export const exportToPDF = (data: ProcessedData[], config: ReportConfig, title: string, stats: ValidationStats | null, filename?: string) => {
-    const doc = new (window as any).jspdf.jsPDF();
-    const hasValidationData = !!stats;
+const formatDeviationPoint = (point: { height: number; value: number }, config: ReportConfig, sign = ''): string => {
+    return `${sign}${point.value.toFixed(config.decimalPlaces)} ${volumeUnitLabel(config.volumeUnit)} (at ${point.height.toFixed(config.decimalPlaces)} ${heightUnitLabel(config.heightUnit)})`;
+};
+
+const formatVerdict = (stats: ValidationStats): string => {
+    const verdict = stats.verdict;
+    if (!verdict) return 'N/A';
+    return verdict.passed
+        ? `PASS (all ${verdict.checkedCount} within tolerance)`
+        : `FAIL (${verdict.failedCount} of ${verdict.checkedCount} outside tolerance)`;
+};
+
+/**
+ * Summary rows shared by the PDF and Excel reports. Statistics from project
+ * files that predate the extended figures only list the basic ones.
+ */
+const generateStatsRows = (stats: ValidationStats, config: ReportConfig): (string | number)[][] => {
+    const volume = (value: number) => `${value.toFixed(config.decimalPlaces)} ${volumeUnitLabel(config.volumeUnit)}`;
+    const rows: (string | number)[][] = [
+        ["Total Measurements", stats.totalMeasurements],
+        ...(stats.excludedCount ? [["Excluded Readings", `${stats.excludedCount} (not counted)`]] : []),
+        ["Average Deviation", stats.averageDeviation.toFixed(config.decimalPlaces)],
+        ["Max Positive Deviation", formatDeviationPoint(stats.maxDeviation, config, '+')],
+        ["Max Negative Deviation", formatDeviationPoint(stats.minDeviation, config)],
+    ];
+    if (stats.standardDeviation !== undefined) {
+        rows.push(
+            ["Standard Deviation", volume(stats.standardDeviation)],
+            ["RMS Deviation", volume(stats.rmsDeviation ?? 0)],
+            ["Mean Absolute Deviation", volume(stats.meanAbsoluteDeviation ?? 0)],
+            ["Average % Deviation", `${(stats.averagePercentDeviation ?? 0).toFixed(3)} %`],
+        );
+    }
+    if (stats.beyondUncertaintyCount !== undefined) {
+        rows.push(["Beyond Expanded Uncertainty", `${stats.beyondUncertaintyCount} of ${stats.totalMeasurements}`]);
+    }
+    if (stats.verdict) {
+        rows.push(
+            ["Tolerance", `${stats.verdict.profileName} (${describeToleranceProfile(config.tolerance, config)})`],
+            ["Verdict", formatVerdict(stats)],
+        );
+    }
+    return rows;
+};
+
+/**
+ * The uncertainty budget as table rows, shared by the PDF and Excel reports.
+ */
+const generateUncertaintyRows = (budget: UncertaintyBudget, config: ReportConfig): (string | number)[][] => {
+    const volumeUnit = volumeUnitLabel(config.volumeUnit);
+    const relative = budget.volume > 0 ? ` (${(budget.expandedUncertainty / budget.volume * 100).toFixed(3)} % of ${formatValue(budget.volume, config)} ${volumeUnit})` : '';
+    return [
+        ...budget.contributions.map(c => [c.source, c.input, `${formatValue(c.standardUncertainty, config)} ${volumeUnit}`]),
+        ["Combined standard uncertainty", "", `${formatValue(budget.combinedUncertainty, config)} ${volumeUnit}`],
+        [`Expanded uncertainty (k = ${budget.coverageFactor})`, "", `±${formatValue(budget.expandedUncertainty, config)} ${volumeUnit}${relative}`],
+    ];
+};
+
+/**
+ * Writes the report title and the tank and method details, and returns the
+ * position below them.
+ */
+const writePdfHeader = (doc: any, title: string, config: ReportConfig, compensated: boolean): number => {
     let startY = 22;
 
     doc.setFontSize(18);
@@ -68,29 +184,67 @@ export const exportToPDF = (data: ProcessedData[], config: ReportConfig, title:
         `Tank: ${config.tankCode || 'N/A'}`,
         `Date: ${config.calibrationDate || 'N/A'}`,
     ];
+    if (config.tiltAngle) configDetails.push(`Tilt corrected: ${config.tiltAngle.toFixed(3)}°`);
+    if (config.interpolationMethod && config.interpolationMethod !== 'linear') {
+        configDetails.push(`Interpolation: ${interpolationMethods.find(m => m.id === config.interpolationMethod)?.name}`);
+    }
+    if (compensated) {
+        configDetails.push(`Temperature compensated to 15 °C, statistics ${config.temperature.comparisonBasis} to ${config.temperature.comparisonBasis}`);
+    }
     
-    doc.text(configDetails.join(' | '), 14, startY);
-    startY += 15;
+    const detailLines = doc.splitTextToSize(configDetails.join(' | '), 180);
+    doc.text(detailLines, 14, startY);
+    return startY + 10 + detailLines.length * 5;
+};
+
+const writePdfVerdict = (doc: any, text: string, passed: boolean, startY: number): number => {
+    doc.setFontSize(16);
+    doc.setTextColor(...(passed ? [22, 128, 61] : [185, 28, 28]));
+    doc.text(text, 14, startY);
+    doc.setTextColor(100);
+    return startY + 10;
+};
+
+const writePdfStats = (doc: any, stats: ValidationStats, config: ReportConfig, startY: number): number => {
+    if (stats.verdict) startY = writePdfVerdict(doc, `Verdict: ${formatVerdict(stats)}`, stats.verdict.passed, startY);
+    doc.setFontSize(12);
+    doc.text("Validation Summary", 14, startY);
+    startY += 7;
+    const statsData = generateStatsRows(stats, config).map(([label, value]) => [`${label}:`, value]);
+    (doc as any).autoTable({
+        startY,
+        body: statsData,
+        theme: 'grid',
+    });
+    return (doc as any).lastAutoTable.finalY + 10;
+};
+
+const writePdfCorrections = (doc: any, corrections: AppliedCorrection[], startY: number): number => {
+    if (corrections.length === 0) return startY;
+    doc.setFontSize(12);
+    doc.text("Data Corrections Applied", 14, startY);
+    startY += 7;
+    (doc as any).autoTable({
+        startY,
+        body: corrections.map(c => [c.description, c.appliedAt.split('T')[0]]),
+        theme: 'grid',
+    });
+    return (doc as any).lastAutoTable.finalY + 10;
+};
+
+export const exportToPDF = (sourceData: ProcessedData[], sourceConfig: ReportConfig, title: string, sourceStats: ValidationStats | null, filename?: string, corrections: AppliedCorrection[] = []) => {
+    const { data, config, stats } = toOutputUnits(sourceConfig, sourceData, sourceStats);
+    const doc = new (window as any).jspdf.jsPDF();
+    const hasValidationData = !!stats;
+    let startY = writePdfHeader(doc, title, config, isCompensated(data));
 
     if (stats) {
-        doc.setFontSize(12);
-        doc.text("Validation Summary", 14, startY);
-        startY += 7;
-        const statsData = [
-            ["Total Measurements:", stats.totalMeasurements],
-            ["Average Deviation:", stats.averageDeviation.toFixed(config.decimalPlaces)],
-            ["Max Positive Deviation:", `+${stats.maxDeviation.value.toFixed(config.decimalPlaces)} (at ${stats.maxDeviation.height}m)`],
-            ["Max Negative Deviation:", `${stats.minDeviation.value.toFixed(config.decimalPlaces)} (at ${stats.minDeviation.height}m)`],
-        ];
-        (doc as any).autoTable({
-            startY,
-            body: statsData,
-            theme: 'grid',
-        });
-        startY = (doc as any).lastAutoTable.finalY + 10;
+        startY = writePdfStats(doc, stats, config, startY);
     }
 
-    const headers = generateHeaders(config, hasValidationData);
+    startY = writePdfCorrections(doc, corrections, startY);
+
+    const headers = generateHeaders(config, hasValidationData, isCompensated(data), hasToleranceCheck(data), hasExclusions(data), hasUncertainty(data));
     const body = generateRows(data, config, hasValidationData);
 
     (doc as any).autoTable({
@@ -105,9 +259,10 @@ export const exportToPDF = (data: ProcessedData[], config: ReportConfig, title:
     doc.save(finalFilename);
 };
 
-export const exportToExcel = (data: ProcessedData[], config: ReportConfig, filename: string, stats: ValidationStats | null) => {
+export const exportToExcel = (sourceData: ProcessedData[], sourceConfig: ReportConfig, filename: string, sourceStats: ValidationStats | null, corrections: AppliedCorrection[] = []) => {
+    const { data, config, stats } = toOutputUnits(sourceConfig, sourceData, sourceStats);
     const hasValidationData = !!stats;
-    const headers = generateHeaders(config, hasValidationData);
+    const headers = generateHeaders(config, hasValidationData, isCompensated(data), hasToleranceCheck(data), hasExclusions(data), hasUncertainty(data));
     const rows = generateRows(data, config, hasValidationData);
     const worksheetData = [headers, ...rows];
     
@@ -118,48 +273,282 @@ export const exportToExcel = (data: ProcessedData[], config: ReportConfig, filen
     if (stats) {
         const statsData = [
             ["Validation Summary"], [],
-            ["Total Measurements", stats.totalMeasurements],
-            ["Average Deviation", stats.averageDeviation.toFixed(config.decimalPlaces)],
-            ["Max Positive Deviation", `+${stats.maxDeviation.value.toFixed(config.decimalPlaces)} (at ${stats.maxDeviation.height}m)`],
-            ["Max Negative Deviation", `${stats.minDeviation.value.toFixed(config.decimalPlaces)} (at ${stats.minDeviation.height}m)`],
+            ...generateStatsRows(stats, config),
         ];
         const statsWs = XLSX.utils.aoa_to_sheet(statsData);
         XLSX.utils.book_append_sheet(wb, statsWs, 'Statistics');
     }
 
+    appendCorrectionsSheet(wb, corrections);
+
+    XLSX.writeFile(wb, filename);
+};
+
+const appendCorrectionsSheet = (wb: any, corrections: AppliedCorrection[]) => {
+    if (corrections.length === 0) return;
+    const correctionsData = [
+        ["Data Corrections Applied"], [],
+        ["Correction", "Rows Affected", "Applied"],
+        ...corrections.map(c => [c.description, c.rowsAffected, c.appliedAt]),
+    ];
+    XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet(correctionsData), 'Corrections');
+};
+
+// Validation Report Exports
+
+const generateDeliveryHeaders = (config: ReportConfig, deliveries: DeliveryValidationData[]): string[] => {
+    const heightUnit = heightUnitLabel(config.heightUnit);
+    const volumeUnit = volumeUnitLabel(config.volumeUnit);
+    const headers = [
+        `Level Before (${heightUnit})`,
+        `Level After (${heightUnit})`,
+        `Reported Delivery (${volumeUnit})`,
+        `Chart Delivery (${volumeUnit})`,
+    ];
+    if (deliveries.some(d => d.compensation)) {
+        headers.push(`Chart Net Delivery (${volumeUnit})`, 'Gross Deviation', 'Net Deviation');
+    } else {
+        headers.push(`Deviation (${volumeUnit})`);
+    }
+    if (deliveries.some(d => d.withinTolerance !== undefined)) headers.push('Tolerance');
+    if (hasUncertainty(deliveries)) headers.push('U (k=2)');
+    if (hasExclusions(deliveries)) headers.push('Exclusion');
+    return headers;
+};
+
+const generateDeliveryRows = (deliveries: DeliveryValidationData[], config: ReportConfig): (string | number)[][] => {
+    const compensated = deliveries.some(d => d.compensation);
+    const toleranceChecked = deliveries.some(d => d.withinTolerance !== undefined);
+    const excluded = hasExclusions(deliveries);
+    const uncertain = hasUncertainty(deliveries);
+    return deliveries.map(d => {
+        const row: (string | number)[] = [
+            d.heightBefore.toFixed(config.decimalPlaces),
+            d.heightAfter.toFixed(config.decimalPlaces) + (d.outOfRange ? ' (out of range)' : ''),
+            formatValue(d.reportedDelivery, config),
+            formatValue(d.chartCalculatedDelivery, config),
+        ];
+        if (compensated) {
+            row.push(
+                formatValue(d.compensation?.netChartVolume, config),
+                formatValue(d.compensation ? d.compensation.grossDeviation : d.deviation, config),
+                formatValue(d.compensation?.netDeviation, config),
+            );
+        } else {
+            row.push(formatValue(d.deviation, config));
+        }
+        if (toleranceChecked) row.push(formatToleranceCheck(d, config));
+        if (uncertain) row.push(formatUncertainty(d, config));
+        if (excluded) row.push(formatExclusion(d.exclusion));
+        return row;
+    });
+};
+
+const datasetRows = (dataset: ValidationDataset): (ProcessedData | DeliveryValidationData)[] =>
+    dataset.type === 'point' ? dataset.points : dataset.deliveries;
+
+const datasetTable = (dataset: ValidationDataset, config: ReportConfig): { headers: string[]; rows: (string | number)[][] } =>
+    dataset.type === 'point'
+        ? {
+            headers: generateHeaders(config, true, isCompensated(dataset.points), hasToleranceCheck(dataset.points), hasExclusions(dataset.points), hasUncertainty(dataset.points)),
+            rows: generateRows(dataset.points, config, true),
+        }
+        : { headers: generateDeliveryHeaders(config, dataset.deliveries), rows: generateDeliveryRows(dataset.deliveries, config) };
+
+const formatAuditEntry = (entry: ExclusionAuditEntry): string[] =>
+    [entry.at.replace('T', ' ').slice(0, 16), auditActionLabels[entry.action], entry.reading, entry.reason];
+
+/**
+ * autoTable hooks that grey out and strike through the readings excluded
+ * from the statistics. The last column, which holds the reason, is left
+ * readable.
+ */
+const excludedRowHooks = (doc: any, dataset: ValidationDataset) => {
+    const excluded = new Set(datasetRows(dataset).flatMap((row, index) => (row.exclusion ? [index] : [])));
+    return {
+        didParseCell: (data: any) => {
+            if (data.section === 'body' && excluded.has(data.row.index)) data.cell.styles.textColor = 150;
+        },
+        didDrawCell: (data: any) => {
+            if (data.section !== 'body' || !excluded.has(data.row.index) || data.column.index === data.table.columns.length - 1) return;
+            const text = data.cell.text.join(' ');
+            if (!text) return;
+            const x = data.cell.x + data.cell.padding('left');
+            const y = data.cell.y + data.cell.height / 2;
+            doc.setDrawColor(150);
+            doc.line(x, y, x + doc.getTextWidth(text), y);
+        },
+    };
+};
+
+const describeDataset = (dataset: ValidationDataset): string =>
+    `${dataset.name} (${dataset.type === 'point' ? 'point validation' : 'delivery validation'})`;
+
+const formatCombinedVerdict = (datasets: ValidationDataset[]): { text: string; passed: boolean } | null => {
+    const verdict = combinedVerdict(datasets);
+    if (!verdict) return null;
+    return verdict.passed
+        ? { text: 'Overall verdict: PASS', passed: true }
+        : { text: `Overall verdict: FAIL (${verdict.failedDatasets.join(', ')})`, passed: false };
+};
+
+/**
+ * Exports every validation dataset of a project as one report: an overall
+ * verdict, then a summary and the readings of each dataset in turn. Without
+ * datasets the report lists the chart instead.
+ */
+export const exportValidationReportToPDF = (chart: ProcessedData[], sourceConfig: ReportConfig, title: string, sourceDatasets: ValidationDataset[], filename: string, corrections: AppliedCorrection[] = []) => {
+    const { data, config } = toOutputUnits(sourceConfig, chart);
+    const datasets = sourceDatasets.map(d => datasetToOutputUnits(sourceConfig, d));
+    const doc = new (window as any).jspdf.jsPDF();
+    const compensated = datasets.some(d => (d.type === 'point' ? isCompensated(d.points) : d.deliveries.some(x => x.compensation)));
+    let startY = writePdfHeader(doc, title, config, compensated);
+
+    const overall = datasets.length > 1 ? formatCombinedVerdict(datasets) : null;
+    if (overall) startY = writePdfVerdict(doc, overall.text, overall.passed, startY);
+    startY = writePdfCorrections(doc, corrections, startY);
+
+    if (config.uncertainty.enabled && data.length > 1) {
+        doc.setFontSize(12);
+        doc.text("Uncertainty Budget (worst case over the chart)", 14, startY);
+        (doc as any).autoTable({
+            startY: startY + 5,
+            head: [['Source', 'Input', 'Standard Uncertainty']],
+            body: generateUncertaintyRows(calculateUncertaintyBudget(config, data), config),
+            theme: 'grid',
+        });
+        startY = (doc as any).lastAutoTable.finalY + 10;
+    }
+
+    datasets.forEach((dataset, index) => {
+        if (index > 0) {
+            doc.addPage();
+            startY = 22;
+        }
+        doc.setFontSize(14);
+        doc.setTextColor(40);
+        doc.text(describeDataset(dataset), 14, startY);
+        doc.setTextColor(100);
+        startY = writePdfStats(doc, dataset.stats, config, startY + 10);
+        const { headers, rows } = datasetTable(dataset, config);
+        (doc as any).autoTable({
+            startY,
+            head: [headers],
+            body: rows,
+            theme: 'striped',
+            headStyles: { fillColor: [79, 70, 229] },
+            ...excludedRowHooks(doc, dataset),
+        });
+        startY = (doc as any).lastAutoTable.finalY + 10;
+
+        if (dataset.auditTrail && dataset.auditTrail.length > 0) {
+            doc.setFontSize(12);
+            doc.text("Exclusion Log", 14, startY);
+            (doc as any).autoTable({
+                startY: startY + 5,
+                head: [['Date', 'Action', 'Reading', 'Reason']],
+                body: dataset.auditTrail.map(formatAuditEntry),
+                theme: 'grid',
+            });
+            startY = (doc as any).lastAutoTable.finalY + 10;
+        }
+    });
+
+    if (datasets.length === 0) {
+        (doc as any).autoTable({
+            startY,
+            head: [generateHeaders(config, false)],
+            body: generateRows(data, config, false),
+            theme: 'striped',
+            headStyles: { fillColor: [79, 70, 229] },
+        });
+    }
+
+    doc.save(filename);
+};
+
+/**
+ * Sheet names are limited to 31 characters and may not contain []:*?/\.
+ */
+const toSheetName = (name: string, index: number): string => `${index + 1} ${name.replace(/[[\]:*?/\\]/g, '_')}`.slice(0, 31);
+
+export const exportValidationReportToExcel = (chart: ProcessedData[], sourceConfig: ReportConfig, filename: string, sourceDatasets: ValidationDataset[], corrections: AppliedCorrection[] = []) => {
+    const { data, config } = toOutputUnits(sourceConfig, chart);
+    const datasets = sourceDatasets.map(d => datasetToOutputUnits(sourceConfig, d));
+    const wb = XLSX.utils.book_new();
+
+    if (datasets.length > 0) {
+        const overall = formatCombinedVerdict(datasets);
+        const summaryData: (string | number)[][] = [["Validation Summary"], []];
+        if (overall && datasets.length > 1) summaryData.push([overall.text], []);
+        datasets.forEach(dataset => {
+            summaryData.push([describeDataset(dataset)], ...generateStatsRows(dataset.stats, config), []);
+            if (dataset.auditTrail && dataset.auditTrail.length > 0) {
+                summaryData.push(["Exclusion Log"], ['Date', 'Action', 'Reading', 'Reason'], ...dataset.auditTrail.map(formatAuditEntry), []);
+            }
+        });
+        XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet(summaryData), 'Summary');
+        datasets.forEach((dataset, index) => {
+            const { headers, rows } = datasetTable(dataset, config);
+            XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet([headers, ...rows]), toSheetName(dataset.name, index));
+        });
+    } else {
+        XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet([generateHeaders(config, false), ...generateRows(data, config, false)]), 'Report Data');
+    }
+
+    if (config.uncertainty.enabled && data.length > 1) {
+        const uncertaintyData = [
+            ["Uncertainty Budget (worst case over the chart)"], [],
+            ["Source", "Input", "Standard Uncertainty"],
+            ...generateUncertaintyRows(calculateUncertaintyBudget(config, data), config),
+        ];
+        XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet(uncertaintyData), 'Uncertainty');
+    }
+
+    appendCorrectionsSheet(wb, corrections);
+
     XLSX.writeFile(wb, filename);
 };
 
 // Strapping Chart Exports
 
-const generateFormattedHeaderData = (config: ReportConfig): string[][] => {
-    return [
+const generateFormattedHeaderData = (config: ReportConfig, revisionNote?: string): string[][] => {
+    const rows = [
         ['Client:', config.clientName || '', 'Contractor:', config.calibrationCompany || 'N/A'],
         ['Tank:', config.tankCode || 'N/A', 'Tank Dia (mm):', config.tankDiameter || 'N/A'],
         ['Tank Height (mm):', config.tankHeight || 'N/A', 'Tank Capacity (L):', config.tankCapacity || 'N/A'],
         ['Tank Code:', config.tankCode || 'N/A', 'Date of Calib:', config.calibrationDate || 'N/A'],
     ];
+    if (config.tiltAngle) {
+        rows.push(['Tilt Correction:', `${config.tiltAngle.toFixed(3)}°`, 'Dip Point Offset:', config.dipPointOffset || '0']);
+    }
+    if (revisionNote) {
+        rows.push(['Revision:', revisionNote, '', '']);
+    }
+    return rows;
 };
 
-const reshapeStrappingData = (
-    strappingData: ProcessedData[],
-    numColumnPairs: number,
-    formatter: (n: number) => string | number
+interface StrappingCellFormat {
+    height: (n: number) => string | number;
+    volume: (n: number) => string | number;
+}
+
+const layoutStrappingPage = (
+    pageRows: StrappingChartRow[],
+    settings: StrappingChartSettings,
+    format: StrappingCellFormat
 ): (string | number)[][] => {
-    const rowsPerColumn = Math.ceil(strappingData.length / numColumnPairs);
+    const rowsPerColumn = Math.ceil(pageRows.length / settings.columnPairs);
     const tableBody: (string | number)[][] = [];
 
     for (let i = 0; i < rowsPerColumn; i++) {
         const row: (string | number)[] = [];
-        for (let j = 0; j < numColumnPairs; j++) {
-            const dataIndex = i + j * rowsPerColumn;
-            if (dataIndex < strappingData.length) {
-                const point = strappingData[dataIndex];
-                row.push(formatter(point.height));
-                row.push(formatter(point.chartVolume));
-            } else {
-                row.push('');
-                row.push('');
+        for (let j = 0; j < settings.columnPairs; j++) {
+            const point = pageRows[i + j * rowsPerColumn];
+            row.push(point ? format.height(point.height) : '');
+            row.push(point ? format.volume(point.chartVolume) : '');
+            if (settings.includeDelta) {
+                row.push(point && point.delta !== undefined ? format.volume(point.delta) : '');
             }
         }
         tableBody.push(row);
@@ -167,12 +556,40 @@ const reshapeStrappingData = (
     return tableBody;
 };
 
-export const exportStrappingChartToPDF = (data: ProcessedData[], config: ReportConfig) => {
+const strappingColumnHeaders = (config: ReportConfig, settings: StrappingChartSettings): string[] => {
+    const group = [`H(${heightUnitLabel(config.heightUnit)})`, `Vol(${volumeUnitLabel(config.volumeUnit)})`];
+    if (settings.includeDelta) group.push(`Δ/${heightUnitLabel(settings.incrementUnit)}`);
+    return Array(settings.columnPairs).fill(group).flat();
+};
+
+/**
+ * Converts the chart to the report units and lays the strapping chart out
+ * into printed pages according to the project's strapping-chart settings.
+ */
+const prepareStrappingChart = async (sourceData: ProcessedData[], sourceConfig: ReportConfig) => {
+    const { data, config } = toOutputUnits(sourceConfig, sourceData);
+    const settings = getStrappingChartSettings(config);
+    const { rows, heightDecimals } = await runComputeTask('buildStrappingChart', data, config);
+    const format: StrappingCellFormat = {
+        height: (n) => n.toFixed(heightDecimals),
+        volume: (n) => n.toFixed(config.decimalPlaces),
+    };
+    return {
+        config,
+        settings,
+        format,
+        heightDecimals,
+        pages: paginateStrappingChart(rows, settings),
+        headers: strappingColumnHeaders(config, settings),
+    };
+};
+
+export const exportStrappingChartToPDF = async (sourceData: ProcessedData[], sourceConfig: ReportConfig, revisionNote?: string) => {
+    const { config, settings, format, pages, headers } = await prepareStrappingChart(sourceData, sourceConfig);
     const doc = new (window as any).jspdf.jsPDF('p', 'mm', 'a4');
-    const strappingData = generateStrappingChartData(data);
     const usableWidth = 190; // A4 width 210mm - 20mm margins
 
-    const headerBody = generateFormattedHeaderData(config).map(row => {
+    const headerBody = generateFormattedHeaderData(config, revisionNote).map(row => {
         return [
             { content: row[0], styles: { fontStyle: 'bold' } },
             row[1],
@@ -181,99 +598,102 @@ export const exportStrappingChartToPDF = (data: ProcessedData[], config: ReportC
         ];
     });
 
-    (doc as any).autoTable({
-        startY: 10,
-        body: headerBody,
-        theme: 'plain',
-        styles: { fontSize: 9, cellPadding: 1 },
-        columnStyles: {
-            0: { cellWidth: 35 },
-            1: { cellWidth: 60 },
-            2: { cellWidth: 35 },
-            3: { cellWidth: 60 },
-        }
-    });
+    pages.forEach((pageRows, pageIndex) => {
+        if (pageIndex > 0) doc.addPage();
 
-    const headerFinalY = (doc as any).lastAutoTable.finalY;
+        (doc as any).autoTable({
+            startY: 10,
+            body: headerBody,
+            theme: 'plain',
+            styles: { fontSize: 9, cellPadding: 1 },
+            columnStyles: {
+                0: { cellWidth: 35 },
+                1: { cellWidth: 60 },
+                2: { cellWidth: 35 },
+                3: { cellWidth: 60 },
+            }
+        });
 
-    const numColumnPairs = 6;
-    const heightUnit = config.heightHeader.match(/\(([^)]+)\)/)?.[1] || 'mm';
-    const volumeUnit = config.volumeHeader.match(/\(([^)]+)\)/)?.[1] || 'L';
-    const heightHeader = `H(${heightUnit})`;
-    const volumeHeader = `Vol(${volumeUnit})`;
-    
-    const tableHeaders = Array(numColumnPairs).fill([heightHeader, volumeHeader]).flat();
-    
-    const pdfFormatter = (n: number): string => n.toFixed(config.decimalPlaces);
-    const tableBody = reshapeStrappingData(strappingData, numColumnPairs, pdfFormatter);
+        const headerFinalY = (doc as any).lastAutoTable.finalY;
 
-    (doc as any).autoTable({
-        head: [tableHeaders],
-        body: tableBody,
-        startY: headerFinalY,
-        theme: 'grid',
-        styles: { fontSize: 7, cellPadding: 1, overflow: 'hidden' },
-        headStyles: { fillColor: [22, 163, 74], textColor: 255, fontSize: 7, halign: 'center' },
-        columnStyles: Array(12).fill({ cellWidth: usableWidth / 12 }).reduce((acc, style, i) => ({ ...acc, [i]: style }), {}),
+        (doc as any).autoTable({
+            head: [headers],
+            body: layoutStrappingPage(pageRows, settings, format),
+            startY: headerFinalY,
+            theme: 'grid',
+            showHead: 'everyPage',
+            styles: { fontSize: 7, cellPadding: 1, overflow: 'hidden' },
+            headStyles: { fillColor: [22, 163, 74], textColor: 255, fontSize: 7, halign: 'center' },
+            columnStyles: headers.map(() => ({ cellWidth: usableWidth / headers.length })).reduce((acc, style, i) => ({ ...acc, [i]: style }), {}),
+        });
     });
 
+    // Numbered last, since a page that overflows A4 is continued on an extra page.
+    const pageCount = doc.internal.getNumberOfPages();
+    for (let i = 1; i <= pageCount; i++) {
+        doc.setPage(i);
+        doc.setFontSize(8);
+        doc.text(`Page ${i} of ${pageCount}`, 105, 290, { align: 'center' });
+    }
+
     const baseFilename = generateBaseFilename(config);
-    doc.save(`strapping_chart_${baseFilename}.pdf`);
+    doc.save(`strapping_chart_${baseFilename}${revisionNote ? '_revised' : ''}.pdf`);
 };
 
-export const exportStrappingChartToExcel = (data: ProcessedData[], config: ReportConfig) => {
-    const strappingData = generateStrappingChartData(data);
+export const exportStrappingChartToExcel = async (sourceData: ProcessedData[], sourceConfig: ReportConfig, revisionNote?: string) => {
+    const { config, settings, heightDecimals, pages, headers } = await prepareStrappingChart(sourceData, sourceConfig);
     const wb = XLSX.utils.book_new();
-    
-    const excelHeaderRows: any[][] = [];
-    generateFormattedHeaderData(config).forEach(row => {
-        const sparseRow = Array(12).fill(null);
-        sparseRow[0] = row[0];
-        sparseRow[1] = row[1];
-        sparseRow[6] = row[2];
-        sparseRow[7] = row[3];
-        excelHeaderRows.push(sparseRow);
+    const columnCount = headers.length;
+    const half = Math.floor(columnCount / 2);
+    const excelFormat: StrappingCellFormat = {
+        height: (n) => Number(n.toFixed(heightDecimals)),
+        volume: (n) => Number(n.toFixed(config.decimalPlaces)),
+    };
+
+    // Each printed page becomes a block of the sheet with its own header rows.
+    const ws_data: any[][] = [];
+    const merges: any[] = [];
+    pages.forEach((pageRows, pageIndex) => {
+        generateFormattedHeaderData(config, revisionNote).forEach(row => {
+            // A single pair of columns is too narrow for two label/value pairs side by side,
+            // so each pair gets its own row and nothing is merged.
+            if (half < 2) {
+                ws_data.push([row[0], row[1]]);
+                if (row[2]) ws_data.push([row[2], row[3]]);
+                return;
+            }
+            const sparseRow = Array(columnCount).fill(null);
+            sparseRow[0] = row[0];
+            sparseRow[1] = row[1];
+            sparseRow[half] = row[2];
+            sparseRow[half + 1] = row[3];
+            const r = ws_data.length;
+            if (half - 1 > 1) merges.push({ s: { r, c: 1 }, e: { r, c: half - 1 } });
+            if (columnCount - 1 > half + 1) merges.push({ s: { r, c: half + 1 }, e: { r, c: columnCount - 1 } });
+            ws_data.push(sparseRow);
+        });
+        ws_data.push(headers);
+        ws_data.push(...layoutStrappingPage(pageRows, settings, excelFormat));
+        ws_data.push([`Page ${pageIndex + 1} of ${pages.length}`]);
+        ws_data.push([]);
     });
 
-    const numColumnPairs = 6;
-    const heightUnit = config.heightHeader.match(/\(([^)]+)\)/)?.[1] || 'mm';
-    const volumeUnit = config.volumeHeader.match(/\(([^)]+)\)/)?.[1] || 'L';
-    const heightHeader = `H(${heightUnit})`;
-    const volumeHeader = `Vol(${volumeUnit})`;
-    const tableHeaders = Array(numColumnPairs).fill([heightHeader, volumeHeader]).flat();
-
-    const excelFormatter = (n: number): number => Math.round(n);
-    const tableBody = reshapeStrappingData(strappingData, numColumnPairs, excelFormatter);
-
-    const ws_data = [
-        ...excelHeaderRows, // Rows 1-4
-        tableHeaders,       // Row 5
-        ...tableBody        // Rows 6-55
-    ];
-    
     const ws = XLSX.utils.aoa_to_sheet(ws_data);
-    
-    ws['!merges'] = [
-        { s: { r: 0, c: 1 }, e: { r: 0, c: 5 } }, { s: { r: 0, c: 7 }, e: { r: 0, c: 11 } },
-        { s: { r: 1, c: 1 }, e: { r: 1, c: 5 } }, { s: { r: 1, c: 7 }, e: { r: 1, c: 11 } },
-        { s: { r: 2, c: 1 }, e: { r: 2, c: 5 } }, { s: { r: 2, c: 7 }, e: { r: 2, c: 11 } },
-        { s: { r: 3, c: 1 }, e: { r: 3, c: 5 } }, { s: { r: 3, c: 7 }, e: { r: 3, c: 11 } },
-    ];
-    
-    ws['!cols'] = Array(12).fill({ wch: 10 });
+    ws['!merges'] = merges;
+    ws['!cols'] = Array(columnCount).fill({ wch: 10 });
 
     XLSX.utils.book_append_sheet(wb, ws, 'Strapping Chart');
 
     const baseFilename = generateBaseFilename(config);
-    XLSX.writeFile(wb, `strapping_chart_${baseFilename}.xlsx`);
+    XLSX.writeFile(wb, `strapping_chart_${baseFilename}${revisionNote ? '_revised' : ''}.xlsx`);
 };
 
-export const exportStrappingChartToWord = (data: ProcessedData[], config: ReportConfig) => {
-    const strappingData = generateStrappingChartData(data);
+export const exportStrappingChartToWord = async (sourceData: ProcessedData[], sourceConfig: ReportConfig, revisionNote?: string) => {
+    const { config, settings, format, pages, headers } = await prepareStrappingChart(sourceData, sourceConfig);
 
     const headerHtml = `
         <table style="width: 100%; border-collapse: collapse; font-size: 10pt; border: none;">
-            ${generateFormattedHeaderData(config).map(row => `
+            ${generateFormattedHeaderData(config, revisionNote).map(row => `
                 <tr>
                     <td style="font-weight: bold; padding: 2px; width: 15%;">${row[0]}</td>
                     <td style="padding: 2px; width: 35%;">${row[1]}</td>
@@ -284,26 +704,33 @@ export const exportStrappingChartToWord = (data: ProcessedData[], config: Report
         </table>
     `;
 
-    const numColumnPairs = 6;
-    const heightUnit = config.heightHeader.match(/\(([^)]+)\)/)?.[1] || 'mm';
-    const volumeUnit = config.volumeHeader.match(/\(([^)]+)\)/)?.[1] || 'L';
-    const heightHeader = `H(${heightUnit})`;
-    const volumeHeader = `Vol(${volumeUnit})`;
-    
-    const tableHeadersHtml = '<tr>' + 
-        Array(numColumnPairs).fill(
-            `<th style="border: 1px solid #000; padding: 2px; background-color:#f2f2f2; width: 8.33%;">${heightHeader}</th>` +
-            `<th style="border: 1px solid #000; padding: 2px; background-color:#f2f2f2; width: 8.33%;">${volumeHeader}</th>`
-        ).join('') +
+    const columnWidth = (100 / headers.length).toFixed(2);
+    const tableHeadersHtml = '<tr>' +
+        headers.map(header => `<th style="border: 1px solid #000; padding: 2px; background-color:#f2f2f2; width: ${columnWidth}%;">${header}</th>`).join('') +
     '</tr>';
 
-    const wordFormatter = (n: number): string => String(Math.round(n));
-    const tableBody = reshapeStrappingData(strappingData, numColumnPairs, wordFormatter);
-    const tableBodyHtml = tableBody.map(row => `
-        <tr>
-            ${row.map(cell => `<td style="border: 1px solid #000; padding: 2px; text-align: right;">${cell}</td>`).join('')}
-        </tr>
-    `).join('');
+    const pagesHtml = pages.map((pageRows, pageIndex) => {
+        const tableBodyHtml = layoutStrappingPage(pageRows, settings, format).map(row => `
+            <tr>
+                ${row.map(cell => `<td style="border: 1px solid #000; padding: 2px; text-align: right;">${cell}</td>`).join('')}
+            </tr>
+        `).join('');
+
+        return `
+            ${pageIndex > 0 ? '<br clear="all" style="page-break-before: always;"/>' : ''}
+            ${headerHtml}
+            <br/>
+            <table style="font-size: 8pt; text-align: right;">
+                <thead>
+                    ${tableHeadersHtml}
+                </thead>
+                <tbody>
+                    ${tableBodyHtml}
+                </tbody>
+            </table>
+            <p style="text-align: center; font-size: 8pt;">Page ${pageIndex + 1} of ${pages.length}</p>
+        `;
+    }).join('');
 
     const fullHtml = `
         <!DOCTYPE html>
@@ -317,21 +744,126 @@ export const exportStrappingChartToWord = (data: ProcessedData[], config: Report
             </style>
         </head>
         <body>
-            ${headerHtml}
-            <br/>
-            <table style="font-size: 8pt; text-align: right;">
-                <thead>
-                    ${tableHeadersHtml}
-                </thead>
-                <tbody>
-                    ${tableBodyHtml}
-                </tbody>
-            </table>
+            ${pagesHtml}
         </body>
         </html>
     `;
 
     const blob = new Blob([fullHtml], { type: 'application/msword;charset=utf-8' });
     const baseFilename = generateBaseFilename(config);
-    saveAs(blob, `strapping_chart_${baseFilename}.doc`);
-};
\ No newline at end of file
+    saveAs(blob, `strapping_chart_${baseFilename}${revisionNote ? '_revised' : ''}.doc`);
+};
+
+// ATG Console Tank Table Exports
+
+export const exportAtgTankTable = (sourceData: ProcessedData[], sourceConfig: ReportConfig, consoleId: string, maxPoints?: number): ReducedChart => {
+    // Consoles load tables in their own units, whatever units the report is issued in.
+    const profile = getAtgConsoleProfile(consoleId);
+    const units = atgTableUnits(profile, sourceConfig);
+    const { data, config } = toOutputUnits({ ...sourceConfig, outputHeightUnit: units.height, outputVolumeUnit: units.volume }, sourceData);
+    if (data.length < 2) throw new Error('At least two chart points are required to export a tank table.');
+
+    const pointLimit = Math.min(maxPoints ?? profile.maxPoints, profile.maxPoints);
+    const reduced = reduceChartPoints(data, pointLimit);
+    const content = profile.write(reduced.points, config, units);
+
+    const blob = new Blob([content], { type: 'text/plain;charset=utf-8' });
+    const baseFilename = generateBaseFilename(config);
+    saveAs(blob, `atg_table_${profile.id}_${baseFilename}.${profile.extension}`);
+
+    return reduced;
+};
+
+// Site Exports
+
+const generateSiteFilename = (site: SiteDetails): string =>
+    (site.siteName || site.clientName || 'Site').replace(/\s+/g, '_').replace(/[/\\?%*:|"<>]/g, '-');
+
+const siteSummaryHeaders = ['Tank', 'Shape', 'Capacity', 'Chart Points', 'Max Height', 'Max Volume', 'Validation Datasets', 'Measurements', 'Largest Deviation', 'Verdict'];
+
+const siteSummaryRows = (tanks: SiteTank[]): (string | number)[][] =>
+    tanks.map((tank, index) => {
+        const summary = summarizeSiteTank(tank, index);
+        return [
+            summary.label,
+            summary.shape,
+            summary.capacity,
+            summary.chartPoints,
+            summary.maxHeight,
+            summary.maxVolume,
+            summary.datasetCount,
+            summary.measurementCount,
+            summary.largestDeviation,
+            summary.passed === null ? 'N/A' : summary.passed ? 'PASS' : 'FAIL',
+        ];
+    });
+
+const siteDetailRows = (site: SiteDetails): string[][] => [
+    ['Site', site.siteName || 'N/A'],
+    ['Address', site.siteAddress || 'N/A'],
+    ['Client', site.clientName || 'N/A'],
+    ['Calibration Company', site.calibrationCompany || 'N/A'],
+    ['Calibration Date', site.calibrationDate || 'N/A'],
+];
+
+export const exportSiteSummaryToPDF = (site: SiteDetails, tanks: SiteTank[]) => {
+    const doc = new (window as any).jspdf.jsPDF('l');
+    doc.setFontSize(18);
+    doc.text(`Site Summary - ${site.siteName || site.clientName}`, 14, 22);
+    (doc as any).autoTable({
+        startY: 30,
+        body: siteDetailRows(site),
+        theme: 'plain',
+        columnStyles: { 0: { fontStyle: 'bold', cellWidth: 45 } },
+    });
+    (doc as any).autoTable({
+        startY: (doc as any).lastAutoTable.finalY + 8,
+        head: [siteSummaryHeaders],
+        body: siteSummaryRows(tanks),
+        theme: 'striped',
+        headStyles: { fillColor: [79, 70, 229] },
+    });
+    doc.save(`${generateSiteFilename(site)}_Site_Summary.pdf`);
+};
+
+export const exportSiteSummaryToExcel = (site: SiteDetails, tanks: SiteTank[]) => {
+    const wb = XLSX.utils.book_new();
+    const ws = XLSX.utils.aoa_to_sheet([["Site Summary"], [], ...siteDetailRows(site), [], siteSummaryHeaders, ...siteSummaryRows(tanks)]);
+    XLSX.utils.book_append_sheet(wb, ws, 'Site Summary');
+    XLSX.writeFile(wb, `${generateSiteFilename(site)}_Site_Summary.xlsx`);
+};
+
+/**
+ * Exports the strapping chart and validation report of every tank with a
+ * chart, then the site summary. Returns the labels of tanks skipped for
+ * having no chart yet.
+ */
+export const exportSiteReports = async (site: SiteDetails, tanks: SiteTank[], format: 'pdf' | 'excel'): Promise<string[]> => {
+    const skipped: string[] = [];
+    for (const [index, tank] of tanks.entries()) {
+        const label = tankLabel(tank.project, index);
+        const { processedData, validationDatasets = [], qualityCorrections = [] } = tank.project;
+        if (processedData.length === 0) {
+            skipped.push(label);
+            continue;
+        }
+        // Tanks without a code are named by their label so that their files do not overwrite each other.
+        const config = { ...restoreReportConfig(tank.project.reportConfig), tankCode: label };
+        const chart = applyTiltCorrection(processedData, config);
+        const filename = `${generateBaseFilename(config)}_Validation_Report`;
+        if (format === 'pdf') {
+            await exportStrappingChartToPDF(chart, config);
+            if (validationDatasets.length > 0) {
+                exportValidationReportToPDF(chart, config, `${config.clientName} - ${label} - Validation Report`, validationDatasets, `${filename}.pdf`, qualityCorrections);
+            }
+        } else {
+            await exportStrappingChartToExcel(chart, config);
+            if (validationDatasets.length > 0) {
+                exportValidationReportToExcel(chart, config, `${filename}.xlsx`, validationDatasets, qualityCorrections);
+            }
+        }
+    }
+    if (format === 'pdf') exportSiteSummaryToPDF(site, tanks);
+    else exportSiteSummaryToExcel(site, tanks);
+    return skipped;
+};
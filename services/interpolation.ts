@@ -0,0 +1,273 @@
+import { CrossValidationResult, ExtrapolationPolicy, InterpolationMethod, ProcessedData } from '../types';
+
+export const interpolationMethods: { id: InterpolationMethod; name: string; description: string }[] = [
+    { id: 'linear', name: 'Linear', description: 'Straight lines between chart points.' },
+    { id: 'pchip', name: 'Monotone Cubic (PCHIP)', description: 'Smooth curve that never overshoots between points.' },
+    { id: 'spline', name: 'Natural Cubic Spline', description: 'Smoothest curve through the points; may overshoot on uneven charts.' },
+];
+
+export const extrapolationPolicies: { id: ExtrapolationPolicy; name: string; description: string }[] = [
+    { id: 'reject', name: 'Reject', description: 'Readings outside the chart have no chart volume.' },
+    { id: 'clamp', name: 'Clamp', description: 'Readings outside the chart take the volume at the nearest end.' },
+    { id: 'linear', name: 'Linear Extrapolation', description: 'Readings outside the chart continue the first or last chart segment.' },
+];
+
+export type Interpolator = (height: number) => number;
+
+type Knots = ArrayLike<number>;
+
+/**
+ * A chart sorted once into typed arrays, with the method's coefficients
+ * precomputed, so each lookup is a binary search and one polynomial.
+ */
+export interface PreparedChart {
+    method: InterpolationMethod;
+    heights: Float64Array;
+    volumes: Float64Array;
+    /** Heights outside the chart are clamped to its ends. */
+    volumeAt: Interpolator;
+}
+
+/**
+ * Sorts the chart by height and keeps the first point of each repeated height,
+ * since the cubic methods need strictly increasing heights.
+ */
+const toKnots = (chartData: ProcessedData[]): { x: Float64Array; y: Float64Array } => {
+    const sorted = [...chartData].sort((a, b) => a.height - b.height);
+    const x = new Float64Array(sorted.length);
+    const y = new Float64Array(sorted.length);
+    let n = 0;
+    sorted.forEach(p => {
+        if (n > 0 && x[n - 1] === p.height) return;
+        x[n] = p.height;
+        y[n] = p.chartVolume;
+        n++;
+    });
+    return { x: x.subarray(0, n), y: y.subarray(0, n) };
+};
+
+/**
+ * Index of the interval [x[i], x[i + 1]] that contains the height.
+ */
+const findInterval = (x: Knots, height: number): number => {
+    let low = 0;
+    let high = x.length - 1;
+    while (high - low > 1) {
+        const mid = (low + high) >> 1;
+        if (x[mid] <= height) low = mid;
+        else high = mid;
+    }
+    return low;
+};
+
+const hermite = (x: Knots, y: Knots, d: Knots, i: number, height: number): number => {
+    const h = x[i + 1] - x[i];
+    const t = (height - x[i]) / h;
+    const t2 = t * t;
+    const t3 = t2 * t;
+    return (2 * t3 - 3 * t2 + 1) * y[i] + (t3 - 2 * t2 + t) * h * d[i]
+        + (-2 * t3 + 3 * t2) * y[i + 1] + (t3 - t2) * h * d[i + 1];
+};
+
+/**
+ * Fritsch–Carlson slopes for a shape-preserving piecewise cubic Hermite
+ * interpolant, with the three-point end conditions used by PCHIP.
+ */
+const pchipSlopes = (x: Knots, y: Knots): Float64Array => {
+    const n = x.length;
+    const h = new Float64Array(n - 1);
+    const delta = new Float64Array(n - 1);
+    for (let i = 0; i < n - 1; i++) {
+        h[i] = x[i + 1] - x[i];
+        delta[i] = (y[i + 1] - y[i]) / h[i];
+    }
+    const d = new Float64Array(n);
+
+    for (let k = 1; k < n - 1; k++) {
+        if (delta[k - 1] * delta[k] <= 0) continue;
+        const w1 = 2 * h[k] + h[k - 1];
+        const w2 = h[k] + 2 * h[k - 1];
+        d[k] = (w1 + w2) / (w1 / delta[k - 1] + w2 / delta[k]);
+    }
+
+    const endSlope = (h0: number, h1: number, del0: number, del1: number): number => {
+        const slope = ((2 * h0 + h1) * del0 - h0 * del1) / (h0 + h1);
+        if (Math.sign(slope) !== Math.sign(del0)) return 0;
+        if (Math.sign(del0) !== Math.sign(del1) && Math.abs(slope) > Math.abs(3 * del0)) return 3 * del0;
+        return slope;
+    };
+    d[0] = endSlope(h[0], h[1], delta[0], delta[1]);
+    d[n - 1] = endSlope(h[n - 2], h[n - 3], delta[n - 2], delta[n - 3]);
+    return d;
+};
+
+/**
+ * Second derivatives of the natural cubic spline (zero curvature at both ends),
+ * solved with the Thomas algorithm.
+ */
+const splineSecondDerivatives = (x: Knots, y: Knots): Float64Array => {
+    const n = x.length;
+    const m = new Float64Array(n);
+    const c = new Float64Array(n);
+    const r = new Float64Array(n);
+
+    for (let i = 1; i < n - 1; i++) {
+        const h0 = x[i] - x[i - 1];
+        const h1 = x[i + 1] - x[i];
+        const rhs = 6 * ((y[i + 1] - y[i]) / h1 - (y[i] - y[i - 1]) / h0);
+        const diagonal = 2 * (h0 + h1) - h0 * c[i - 1];
+        c[i] = h1 / diagonal;
+        r[i] = (rhs - h0 * r[i - 1]) / diagonal;
+    }
+    for (let i = n - 2; i > 0; i--) {
+        m[i] = r[i] - c[i] * m[i + 1];
+    }
+    return m;
+};
+
+/**
+ * Builds the interpolant for heights within the chart; callers clamp first.
+ */
+const buildInterpolator = (x: Float64Array, y: Float64Array, method: InterpolationMethod): Interpolator => {
+    const n = x.length;
+    if (n === 0) return () => 0;
+    if (n === 1) return () => y[0];
+
+    if (method === 'linear' || n < 3) {
+        return (height) => {
+            const i = findInterval(x, height);
+            if (height === x[i]) return y[i];
+            return y[i] + (y[i + 1] - y[i]) * (height - x[i]) / (x[i + 1] - x[i]);
+        };
+    }
+
+    if (method === 'pchip') {
+        const d = pchipSlopes(x, y);
+        return (height) => {
+            const i = findInterval(x, height);
+            return height === x[i] ? y[i] : hermite(x, y, d, i, height);
+        };
+    }
+
+    const m = splineSecondDerivatives(x, y);
+    return (height) => {
+        const i = findInterval(x, height);
+        if (height === x[i]) return y[i];
+        const h = x[i + 1] - x[i];
+        const a = (x[i + 1] - height) / h;
+        const b = (height - x[i]) / h;
+        return a * y[i] + b * y[i + 1] + ((a * a * a - a) * m[i] + (b * b * b - b) * m[i + 1]) * h * h / 6;
+    };
+};
+
+// Charts are replaced rather than mutated throughout the app, so a prepared
+// chart can be reused for as long as its source array is alive.
+const preparedCharts = new WeakMap<ProcessedData[], Map<InterpolationMethod, PreparedChart>>();
+
+/**
+ * Sorts the chart and precomputes the interpolation coefficients, once per
+ * chart array and method.
+ */
+export const prepareChart = (chartData: ProcessedData[], method: InterpolationMethod = 'linear'): PreparedChart => {
+    let byMethod = preparedCharts.get(chartData);
+    if (!byMethod) {
+        byMethod = new Map();
+        preparedCharts.set(chartData, byMethod);
+    }
+    let prepared = byMethod.get(method);
+    if (!prepared) {
+        const { x, y } = toKnots(chartData);
+        const inRange = buildInterpolator(x, y, method);
+        const last = x.length - 1;
+        const volumeAt: Interpolator = (height) => inRange(Math.min(Math.max(height, x[0]), x[last]));
+        prepared = { method, heights: x, volumes: y, volumeAt };
+        byMethod.set(method, prepared);
+    }
+    return prepared;
+};
+
+/**
+ * Returns a function giving the chart volume at any height using the chosen
+ * method. Heights outside the chart are handled by the extrapolation policy;
+ * rejected heights return NaN. Charts with fewer than three points are always
+ * interpolated linearly.
+ */
+export const createInterpolator = (
+    chartData: ProcessedData[],
+    method: InterpolationMethod = 'linear',
+    extrapolation: ExtrapolationPolicy = 'clamp'
+): Interpolator => {
+    const { heights: x, volumes: y, volumeAt } = prepareChart(chartData, method);
+    const n = x.length;
+    if (extrapolation === 'clamp' || n === 0) return volumeAt;
+    if (extrapolation === 'reject' || n === 1) {
+        return (height) => (height < x[0] || height > x[n - 1] ? NaN : volumeAt(height));
+    }
+    return (height) => {
+        if (height < x[0]) return y[0] + (height - x[0]) * (y[1] - y[0]) / (x[1] - x[0]);
+        if (height > x[n - 1]) return y[n - 1] + (height - x[n - 1]) * (y[n - 1] - y[n - 2]) / (x[n - 1] - x[n - 2]);
+        return volumeAt(height);
+    };
+};
+
+/**
+ * Returns a function giving the slope of the chart (volume per unit of
+ * height) at any height, from the same interpolant as createInterpolator.
+ * Heights outside the chart take the slope at its nearest end.
+ */
+export const createSlopeCalculator = (chartData: ProcessedData[], method: InterpolationMethod = 'linear'): Interpolator => {
+    const { heights: x, volumeAt } = prepareChart(chartData, method);
+    const n = x.length;
+    if (n < 2) return () => 0;
+    const step = (x[n - 1] - x[0]) * 1e-6;
+    return (height) => {
+        const h = Math.min(Math.max(height, x[0]), x[n - 1]);
+        const low = Math.max(h - step, x[0]);
+        const high = Math.min(h + step, x[n - 1]);
+        return (volumeAt(high) - volumeAt(low)) / (high - low);
+    };
+};
+
+/**
+ * Whether a height lies outside the chart's range of heights.
+ */
+export const isOutsideChart = (chartData: ProcessedData[], height: number): boolean => {
+    const { heights } = prepareChart(chartData);
+    return heights.length === 0 || height < heights[0] || height > heights[heights.length - 1];
+};
+
+/**
+ * Leave-one-out cross-validation of an interpolation method on the chart's own
+ * points: each interior point is removed in turn and predicted from the others.
+ * The end points are skipped because removing them would need extrapolation.
+ * A linear prediction only depends on the two neighbours, so it is computed
+ * directly; the cubic methods refit the curve for every point.
+ */
+export const crossValidateInterpolation = (chartData: ProcessedData[], method: InterpolationMethod): CrossValidationResult => {
+    const { x, y } = toKnots(chartData);
+    const knots = Array.from(x, (height, i) => ({ height, chartVolume: y[i] }));
+    let sumSquares = 0;
+    let maxError = 0;
+    let maxErrorHeight = 0;
+
+    for (let i = 1; i < knots.length - 1; i++) {
+        const predicted = method === 'linear'
+            ? y[i - 1] + (x[i] - x[i - 1]) * (y[i + 1] - y[i - 1]) / (x[i + 1] - x[i - 1])
+            : createInterpolator([...knots.slice(0, i), ...knots.slice(i + 1)], method)(x[i]);
+        const error = predicted - y[i];
+        sumSquares += error * error;
+        if (Math.abs(error) > Math.abs(maxError)) {
+            maxError = error;
+            maxErrorHeight = knots[i].height;
+        }
+    }
+
+    const pointCount = Math.max(0, knots.length - 2);
+    return {
+        method,
+        pointCount,
+        rmsError: pointCount > 0 ? Math.sqrt(sumSquares / pointCount) : 0,
+        maxError,
+        maxErrorHeight,
+    };
+};
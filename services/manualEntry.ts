@@ -0,0 +1,126 @@
+import { ManualEntryColumn, ManualEntryRow, ManualValidationEntry, ReadingConditions } from '../types';
+import { parseLocaleNumber } from './csvParser';
+import { MAX_TEMPERATURE, MIN_TEMPERATURE } from './temperatureCorrection';
+
+export const emptyManualRow = (): ManualEntryRow => ({ height: '', volume: '', waterHeight: '', tankTemperature: '' });
+
+export const defaultManualEntry: ManualValidationEntry = {
+    type: 'delivery',
+    rows: [
+        { height: '109', volume: '0', waterHeight: '', tankTemperature: '' },
+        { height: '235', volume: '7150', waterHeight: '', tankTemperature: '' },
+        { height: '436', volume: '7199', waterHeight: '', tankTemperature: '' },
+    ],
+};
+
+/**
+ * The grid's columns in display order; the temperature column only shows with
+ * temperature compensation enabled.
+ */
+export const manualEntryColumns = (temperatureEnabled: boolean): ManualEntryColumn[] =>
+    temperatureEnabled ? ['height', 'volume', 'waterHeight', 'tankTemperature'] : ['height', 'volume', 'waterHeight'];
+
+/**
+ * Short lower-case name of a column, for messages.
+ */
+export const manualColumnName = (column: ManualEntryColumn, type: ManualValidationEntry['type']): string => {
+    switch (column) {
+        case 'height': return 'dip';
+        case 'volume': return type === 'point' ? 'measured volume' : 'delivery';
+        case 'waterHeight': return 'water';
+        case 'tankTemperature': return 'tank temperature';
+    }
+};
+
+const isBlankRow = (row: ManualEntryRow): boolean => Object.values(row).every(v => v.trim() === '');
+
+// A comma followed by groups of three digits ("7,150") is read as a thousands
+// separator; other single commas are decimal commas ("7,15").
+const GROUPED_THOUSANDS = /^-?\d{1,3}(,\d{3})+(\.\d+)?$/;
+
+const parseCell = (value: string): number | null =>
+    parseLocaleNumber(value, GROUPED_THOUSANDS.test(value.trim()) ? '.' : 'auto', '\t');
+
+/**
+ * Checks one cell of the grid. Blank rows are ignored, so their cells are
+ * never in error.
+ * @returns A message for the cell, or null when it is valid.
+ */
+export const validateManualCell = (row: ManualEntryRow, column: ManualEntryColumn, type: ManualValidationEntry['type']): string | null => {
+    if (isBlankRow(row)) return null;
+    const text = row[column].trim();
+    const isRequired = column === 'height' || column === 'volume';
+    if (text === '') return isRequired ? 'Required' : null;
+
+    const value = parseCell(text);
+    if (value === null || isNaN(value)) return 'Not a number';
+    switch (column) {
+        case 'height':
+        case 'waterHeight':
+            return value < 0 ? 'Cannot be negative' : null;
+        case 'volume':
+            return value < 0 ? (type === 'delivery' ? 'Enter the delivered quantity, not a withdrawal' : 'Cannot be negative') : null;
+        case 'tankTemperature':
+            return value < MIN_TEMPERATURE || value > MAX_TEMPERATURE ? `Must be ${MIN_TEMPERATURE}–${MAX_TEMPERATURE} °C` : null;
+    }
+};
+
+/**
+ * Counts the cells of the grid that are in error.
+ */
+export const countManualEntryErrors = (entry: ManualValidationEntry, columns: ManualEntryColumn[]): number =>
+    entry.rows.reduce((count, row) => count + columns.filter(c => validateManualCell(row, c, entry.type) !== null).length, 0);
+
+/**
+ * Writes a block copied from a spreadsheet (tab-separated cells, one row per
+ * line) into the grid from the given cell, adding rows as needed. Cells past
+ * the last column are dropped.
+ */
+export const pasteIntoRows = (
+    rows: ManualEntryRow[],
+    text: string,
+    startRow: number,
+    startColumn: number,
+    columns: ManualEntryColumn[]
+): ManualEntryRow[] => {
+    const lines = text.replace(/\r\n?/g, '\n').replace(/\n$/, '').split('\n');
+    const result = rows.map(row => ({ ...row }));
+    lines.forEach((line, lineIndex) => {
+        const rowIndex = startRow + lineIndex;
+        while (result.length <= rowIndex) result.push(emptyManualRow());
+        line.split('\t').forEach((cell, cellIndex) => {
+            const column = columns[startColumn + cellIndex];
+            if (column) result[rowIndex][column] = cell.trim();
+        });
+    });
+    return result;
+};
+
+/**
+ * Reads the grid into readings, skipping blank rows.
+ * @throws When a cell is in error.
+ */
+export const readManualEntry = (
+    entry: ManualValidationEntry,
+    temperatureEnabled: boolean
+): { height: number; value: number; conditions?: ReadingConditions }[] => {
+    const columns = manualEntryColumns(temperatureEnabled);
+    const readings: { height: number; value: number; conditions?: ReadingConditions }[] = [];
+    entry.rows.forEach((row, index) => {
+        if (isBlankRow(row)) return;
+        const column = columns.find(c => validateManualCell(row, c, entry.type) !== null);
+        if (column) throw new Error(`Row ${index + 1}, ${manualColumnName(column, entry.type)}: ${validateManualCell(row, column, entry.type)}.`);
+
+        const conditions: ReadingConditions = {};
+        const waterHeight = parseCell(row.waterHeight);
+        const tankTemperature = parseCell(row.tankTemperature);
+        if (waterHeight !== null) conditions.waterHeight = waterHeight;
+        if (temperatureEnabled && tankTemperature !== null) conditions.tankTemperature = tankTemperature;
+        readings.push({
+            height: parseCell(row.height) as number,
+            value: parseCell(row.volume) as number,
+            conditions: Object.keys(conditions).length > 0 ? conditions : undefined,
+        });
+    });
+    return readings;
+};
@@ -0,0 +1,58 @@
+import { ColumnRole, SavedColumnMapping } from '../types';
+
+const STORAGE_KEY = 'tankCalibration.columnMappings';
+
+/**
+ * Normalises a header row into a stable key so that files with the same
+ * layout (regardless of spacing or letter case) share a remembered mapping.
+ */
+export const getHeaderSignature = (headers: string[]): string => {
+    return headers.map(h => h.trim().toLowerCase().replace(/\s+/g, ' ')).join('|');
+};
+
+const readMappings = (): SavedColumnMapping[] => {
+    try {
+        const raw = window.localStorage.getItem(STORAGE_KEY);
+        return raw ? JSON.parse(raw) : [];
+    } catch (err) {
+        console.error('Failed to read saved column mappings:', err);
+        return [];
+    }
+};
+
+const mappingsFor = (headers: string[]): SavedColumnMapping[] => {
+    const signature = getHeaderSignature(headers);
+    return readMappings()
+        .filter(m => m.signature === signature && m.roles.length === headers.length)
+        .sort((a, b) => b.savedAt.localeCompare(a.savedAt));
+};
+
+/**
+ * Looks up a remembered mapping for a header layout.
+ * A mapping saved for the same client is preferred over the most recent one saved for any client.
+ * @returns The mapping, whose client tells which of the two was found, or null when the layout has not been seen before.
+ */
+export const loadSavedMapping = (headers: string[], clientName: string): SavedColumnMapping | null => {
+    const matches = mappingsFor(headers);
+    return matches.find(m => m.clientName === clientName) || matches[0] || null;
+};
+
+/**
+ * The clients that have a mapping saved for a header layout, most recent first.
+ */
+export const listMappingClients = (headers: string[]): string[] =>
+    [...new Set(mappingsFor(headers).map(m => m.clientName))];
+
+/**
+ * Remembers the column roles chosen for a header layout and client.
+ */
+export const saveMapping = (headers: string[], clientName: string, roles: ColumnRole[]): void => {
+    const signature = getHeaderSignature(headers);
+    const mappings = readMappings().filter(m => !(m.signature === signature && m.clientName === clientName));
+    mappings.push({ signature, clientName, roles, savedAt: new Date().toISOString() });
+    try {
+        window.localStorage.setItem(STORAGE_KEY, JSON.stringify(mappings));
+    } catch (err) {
+        console.error('Failed to save column mapping:', err);
+    }
+};
@@ -0,0 +1,328 @@
+import { EmbeddedSourceFile, ProjectFile, ProjectState, SiteDetails, TankWorkspace } from '../types';
+import { readProjectDatasets } from './validationDatasets';
+import { siteDetailsFromConfig } from './siteProject';
+import { extrapolationPolicies, interpolationMethods } from './interpolation';
+import { heightUnits, volumeUnits } from './units';
+
+const PROJECT_FORMAT = 'tank-calibration-project';
+
+/** Version written by this build; files of older versions are migrated on opening. */
+export const PROJECT_FILE_VERSION = 4;
+
+export interface LoadedSite {
+    site: SiteDetails;
+    /** Tanks with the files the project carries; a tank's chart file is null when it was not embedded. */
+    tanks: TankWorkspace[];
+    activeTankId: string;
+}
+
+// Runtime checks. Each names the path of the offending value so a damaged
+// file can be found and fixed by hand.
+
+const describe = (value: unknown): string => {
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'a list';
+    if (typeof value === 'object') return 'an object';
+    if (typeof value === 'string') return `"${value.length > 30 ? `${value.slice(0, 30)}…` : value}"`;
+    return String(value);
+};
+
+const invalid = (path: string, expected: string, value: unknown): never => {
+    throw new Error(`Invalid project file: ${path} should be ${expected}, found ${describe(value)}.`);
+};
+
+const checkObject = (value: unknown, path: string): Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value) ? value as Record<string, unknown> : invalid(path, 'an object', value);
+
+const checkArray = (value: unknown, path: string): unknown[] =>
+    Array.isArray(value) ? value : invalid(path, 'a list', value);
+
+const checkString = (value: unknown, path: string): string =>
+    typeof value === 'string' ? value : invalid(path, 'text', value);
+
+/** Numbers that were NaN are saved as null, so null is accepted where a value may be missing. */
+const checkNumber = (value: unknown, path: string, nullable = false): void => {
+    if (typeof value === 'number' || (nullable && value === null)) return;
+    invalid(path, nullable ? 'a number or null' : 'a number', value);
+};
+
+const checkOneOf = (value: unknown, path: string, options: readonly string[]): void => {
+    if (typeof value !== 'string' || !options.includes(value)) invalid(path, `one of ${options.join(', ')}`, value);
+};
+
+/** Checks the fields present on an object; missing fields are filled in with defaults elsewhere. */
+const checkFields = (object: Record<string, unknown>, path: string, checks: Record<string, (value: unknown, path: string) => void>) => {
+    Object.entries(checks).forEach(([key, check]) => {
+        if (object[key] !== undefined) check(object[key], `${path}.${key}`);
+    });
+};
+
+const nullableNumber = (value: unknown, path: string) => checkNumber(value, path, true);
+const heightUnitIds = Object.keys(heightUnits);
+const volumeUnitIds = Object.keys(volumeUnits);
+
+const checkReportConfig = (value: unknown, path: string) => {
+    const config = checkObject(value, path);
+    const text = ['clientName', 'tankCode', 'tankDiameter', 'tankHeight', 'tankLength', 'tankWidth', 'headDepth', 'dipPointOffset',
+        'tankCapacity', 'calibrationDate', 'calibrationCompany', 'heightHeader', 'volumeHeader'];
+    const objects = ['strappingChart', 'temperature', 'dip', 'tolerance', 'uncertainty'];
+    checkFields(config, path, {
+        ...Object.fromEntries(text.map(key => [key, checkString])),
+        ...Object.fromEntries(objects.map(key => [key, checkObject])),
+        tiltAngle: nullableNumber,
+        decimalPlaces: nullableNumber,
+        includeOutOfRangeInStats: (v, p) => { if (typeof v !== 'boolean') invalid(p, 'true or false', v); },
+        tankShape: (v, p) => checkOneOf(v, p, ['horizontal-cylinder', 'vertical-cylinder', 'rectangular']),
+        headType: (v, p) => checkOneOf(v, p, ['flat', 'dished', 'ellipsoidal', 'hemispherical']),
+        columnOrder: (v, p) => checkOneOf(v, p, ['height-volume', 'volume-height']),
+        interpolationMethod: (v, p) => checkOneOf(v, p, interpolationMethods.map(m => m.id)),
+        extrapolation: (v, p) => checkOneOf(v, p, extrapolationPolicies.map(m => m.id)),
+        heightUnit: (v, p) => checkOneOf(v, p, heightUnitIds),
+        volumeUnit: (v, p) => checkOneOf(v, p, volumeUnitIds),
+        outputHeightUnit: (v, p) => checkOneOf(v, p, heightUnitIds),
+        outputVolumeUnit: (v, p) => checkOneOf(v, p, volumeUnitIds),
+    });
+};
+
+/** Required fields must be numbers; optional ones may also be null, as NaN is saved. */
+const checkRows = (value: unknown, path: string, required: string[], optional: string[]) => {
+    checkArray(value, path).forEach((item, i) => {
+        const row = checkObject(item, `${path}[${i}]`);
+        required.forEach(key => checkNumber(row[key], `${path}[${i}].${key}`));
+        checkFields(row, `${path}[${i}]`, Object.fromEntries(optional.map(key => [key, nullableNumber])));
+    });
+};
+
+const checkPoints = (value: unknown, path: string) =>
+    checkRows(value, path, ['height'], ['chartVolume', 'fieldVolume', 'deviation', 'tolerance', 'uncertainty']);
+
+const checkDeliveries = (value: unknown, path: string) =>
+    checkRows(value, path, ['heightBefore', 'heightAfter', 'reportedDelivery'], ['chartCalculatedDelivery', 'deviation', 'tolerance', 'uncertainty']);
+
+const checkCsvOptions = (value: unknown, path: string) => {
+    const options = checkObject(value, path);
+    checkOneOf(options.delimiter, `${path}.delimiter`, ['auto', ',', ';', '\t']);
+    checkOneOf(options.decimalSeparator, `${path}.decimalSeparator`, ['auto', '.', ',']);
+};
+
+const checkChartImport = (value: unknown, path: string) => {
+    const settings = checkObject(value, path);
+    checkCsvOptions(settings.csvOptions, `${path}.csvOptions`);
+    checkArray(settings.columnRoles, `${path}.columnRoles`)
+        .forEach((role, i) => checkOneOf(role, `${path}.columnRoles[${i}]`, ['height', 'chartVolume', 'fieldVolume', 'delivery', 'ignore']));
+    if (settings.sheet !== undefined) {
+        const sheet = checkObject(settings.sheet, `${path}.sheet`);
+        checkString(sheet.sheetName, `${path}.sheet.sheetName`);
+        checkNumber(sheet.headerRowIndex, `${path}.sheet.headerRowIndex`);
+        if (typeof sheet.unpairColumns !== 'boolean') invalid(`${path}.sheet.unpairColumns`, 'true or false', sheet.unpairColumns);
+    }
+};
+
+const checkStats = (value: unknown, path: string) => {
+    const stats = checkObject(value, path);
+    checkNumber(stats.totalMeasurements, `${path}.totalMeasurements`);
+};
+
+const checkDataset = (value: unknown, path: string) => {
+    const dataset = checkObject(value, path);
+    checkString(dataset.id, `${path}.id`);
+    checkString(dataset.name, `${path}.name`);
+    checkOneOf(dataset.type, `${path}.type`, ['point', 'delivery']);
+    checkStats(dataset.stats, `${path}.stats`);
+    if (dataset.type === 'point') checkPoints(dataset.points, `${path}.points`);
+    else checkDeliveries(dataset.deliveries, `${path}.deliveries`);
+    if (dataset.auditTrail !== undefined) checkArray(dataset.auditTrail, `${path}.auditTrail`);
+    if (dataset.csvOptions !== undefined) checkCsvOptions(dataset.csvOptions, `${path}.csvOptions`);
+};
+
+const checkProjectState = (value: unknown, path: string) => {
+    const project = checkObject(value, path);
+    checkReportConfig(project.reportConfig, `${path}.reportConfig`);
+    checkPoints(project.processedData, `${path}.processedData`);
+    checkString(project.chartFileName, `${path}.chartFileName`);
+    if (project.validationStats !== null && project.validationStats !== undefined) checkStats(project.validationStats, `${path}.validationStats`);
+    checkFields(project, path, {
+        validationDatasets: (v, p) => checkArray(v, p).forEach((d, i) => checkDataset(d, `${p}[${i}]`)),
+        qualityCorrections: checkArray,
+        sourceFormat: checkString,
+    });
+    if (project.manualEntry) {
+        const entry = checkObject(project.manualEntry, `${path}.manualEntry`);
+        checkOneOf(entry.type, `${path}.manualEntry.type`, ['point', 'delivery']);
+        checkArray(entry.rows, `${path}.manualEntry.rows`);
+    }
+    if (project.wetCalibrationLog) checkObject(project.wetCalibrationLog, `${path}.wetCalibrationLog`);
+    if (project.chartImport) checkChartImport(project.chartImport, `${path}.chartImport`);
+};
+
+const checkSite = (value: unknown, path: string) => {
+    const site = checkObject(value, path);
+    ['siteName', 'siteAddress', 'clientName', 'calibrationCompany', 'calibrationDate'].forEach(key => checkString(site[key], `${path}.${key}`));
+};
+
+const checkSourceFile = (value: unknown, path: string, tankIds: string[]) => {
+    const file = checkObject(value, path);
+    checkOneOf(file.role, `${path}.role`, ['chart', 'validation']);
+    checkOneOf(file.tankId, `${path}.tankId`, tankIds);
+    checkString(file.name, `${path}.name`);
+    checkString(file.data, `${path}.data`);
+    checkNumber(file.size, `${path}.size`);
+    checkString(file.sha256, `${path}.sha256`);
+    if (file.datasetId !== undefined) checkString(file.datasetId, `${path}.datasetId`);
+};
+
+const checkProjectFile = (value: unknown): ProjectFile => {
+    const file = checkObject(value, 'file');
+    const tanks = checkArray(file.tanks, 'tanks');
+    if (tanks.length === 0) invalid('tanks', 'a list of at least one tank', tanks);
+    const tankIds = tanks.map((item, i) => {
+        const tank = checkObject(item, `tanks[${i}]`);
+        checkProjectState(tank.project, `tanks[${i}].project`);
+        return checkString(tank.id, `tanks[${i}].id`);
+    });
+    checkSite(file.site, 'site');
+    checkOneOf(file.activeTankId, 'activeTankId', tankIds);
+    checkArray(file.sourceFiles, 'sourceFiles').forEach((f, i) => checkSourceFile(f, `sourceFiles[${i}]`, tankIds));
+    return value as ProjectFile;
+};
+
+// Migrations, each from the version it is keyed by to the next one.
+
+const migrations: Record<number, (file: Record<string, unknown>) => Record<string, unknown>> = {
+    // Version 1 is the unversioned file: a bare project state holding at most one validation.
+    1: (state) => {
+        const project = { ...state } as unknown as ProjectState;
+        if (!project.validationDatasets) {
+            const hasLegacyValidation = !!(project.pointValidationData || project.deliveryValidationData);
+            project.validationDatasets = readProjectDatasets(project);
+            // The statistics belonged to the converted validation, not to field volumes in the chart.
+            if (hasLegacyValidation) project.validationStats = null;
+        }
+        delete project.pointValidationData;
+        delete project.deliveryValidationData;
+        return { format: PROJECT_FORMAT, version: 2, savedAt: '', project, sourceFiles: [] };
+    },
+    // Version 2 held a single tank; it becomes a site of one tank with the client details as the site's.
+    2: (file) => {
+        const project = checkObject(file.project, 'project') as unknown as ProjectState;
+        const tankId = 'tank-1';
+        const sourceFiles = checkArray(file.sourceFiles, 'sourceFiles').map((f, i) => ({ ...checkObject(f, `sourceFiles[${i}]`), tankId }));
+        const site = project.reportConfig ? siteDetailsFromConfig(project.reportConfig) : undefined;
+        return { format: PROJECT_FORMAT, version: 3, savedAt: file.savedAt, site, tanks: [{ id: tankId, project }], activeTankId: tankId, sourceFiles };
+    },
+    // Version 3 did not record how the source files were read. Its charts have no import settings and
+    // are only re-processed once uploaded again; its validation files are read with the default options.
+    3: (file) => ({ ...file, version: 4 }),
+};
+
+const fileVersion = (file: Record<string, unknown>): number => {
+    if (file.format === undefined) return 1;
+    if (file.format !== PROJECT_FORMAT) invalid('format', `"${PROJECT_FORMAT}"`, file.format);
+    if (typeof file.version !== 'number' || !Number.isInteger(file.version) || file.version < 2) invalid('version', 'a whole number from 2', file.version);
+    return file.version as number;
+};
+
+// Source files are stored as base64 so workbooks survive as well as text.
+
+const toBase64 = (bytes: Uint8Array): string => {
+    let binary = '';
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+        binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    }
+    return btoa(binary);
+};
+
+const fromBase64 = (data: string): Uint8Array => {
+    const binary = atob(data);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+    return bytes;
+};
+
+const sha256 = async (bytes: Uint8Array): Promise<string> => {
+    const digest = await crypto.subtle.digest('SHA-256', bytes);
+    return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+};
+
+const embedFile = async (file: File, role: EmbeddedSourceFile['role'], tankId: string, datasetId?: string): Promise<EmbeddedSourceFile> => {
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    const embedded: EmbeddedSourceFile = { role, name: file.name, tankId, data: toBase64(bytes), size: bytes.length, sha256: await sha256(bytes) };
+    if (datasetId) embedded.datasetId = datasetId;
+    return embedded;
+};
+
+const extractFile = async (embedded: EmbeddedSourceFile): Promise<File> => {
+    let bytes: Uint8Array;
+    try {
+        bytes = fromBase64(embedded.data);
+    } catch (err) {
+        throw new Error(`The embedded file "${embedded.name}" is damaged: its contents are not valid base64.`);
+    }
+    if (bytes.length !== embedded.size || await sha256(bytes) !== embedded.sha256) {
+        throw new Error(`The embedded file "${embedded.name}" is damaged: its checksum does not match.`);
+    }
+    return new File([bytes], embedded.name);
+};
+
+const embedTankFiles = (tank: TankWorkspace): Promise<EmbeddedSourceFile>[] => {
+    const datasetIds = new Set((tank.project.validationDatasets || []).map(d => d.id));
+    return [
+        ...(tank.chartFile ? [embedFile(tank.chartFile, 'chart', tank.id)] : []),
+        ...Object.entries(tank.validationFiles)
+            .filter(([datasetId]) => datasetIds.has(datasetId))
+            .map(([datasetId, file]) => embedFile(file, 'validation', tank.id, datasetId)),
+    ];
+};
+
+/**
+ * Writes a site's tanks and the files they were built from as the text of an .adf file.
+ */
+export const writeProjectFile = async (site: SiteDetails, tanks: TankWorkspace[], activeTankId: string): Promise<string> => {
+    const sourceFiles = await Promise.all(tanks.flatMap(embedTankFiles));
+    const file: ProjectFile = {
+        format: PROJECT_FORMAT,
+        version: PROJECT_FILE_VERSION,
+        savedAt: new Date().toISOString(),
+        site,
+        tanks: tanks.map(({ id, project }) => ({ id, project })),
+        activeTankId,
+        sourceFiles,
+    };
+    return JSON.stringify(file);
+};
+
+/**
+ * Reads the text of an .adf file of any version: migrates it to the current
+ * format, checks its structure and restores the embedded source files.
+ * @throws With the path of the first invalid value, or when an embedded file fails its checksum.
+ */
+export const readProjectFile = async (text: string): Promise<LoadedSite> => {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(text);
+    } catch (err) {
+        throw new Error('This is not a project file: its contents are not valid JSON.');
+    }
+    let file = checkObject(parsed, 'file');
+    let version = fileVersion(file);
+    if (version > PROJECT_FILE_VERSION) {
+        throw new Error(`This project was saved by a newer version of the app (format ${version}); this version reads up to format ${PROJECT_FILE_VERSION}.`);
+    }
+    while (version < PROJECT_FILE_VERSION) {
+        file = migrations[version](file);
+        version = fileVersion(file);
+    }
+
+    const { site, tanks, activeTankId, sourceFiles } = checkProjectFile(file);
+    const workspaces: TankWorkspace[] = [];
+    for (const { id, project } of tanks) {
+        const tankFiles = sourceFiles.filter(f => f.tankId === id);
+        const chartSource = tankFiles.find(f => f.role === 'chart');
+        const validationFiles: Record<string, File> = {};
+        for (const source of tankFiles) {
+            if (source.role === 'validation' && source.datasetId) validationFiles[source.datasetId] = await extractFile(source);
+        }
+        workspaces.push({ id, project, chartFile: chartSource ? await extractFile(chartSource) : null, validationFiles });
+    }
+    return { site, tanks: workspaces, activeTankId };
+};
@@ -0,0 +1,122 @@
+import { LibraryProject, SiteDetails, SiteTank } from '../types';
+import { tankLabel } from './siteProject';
+
+const DB_NAME = 'tankCalibration';
+const DB_VERSION = 1;
+// Listing reads only the small entries; the .adf text is kept apart and read when a project is opened.
+const PROJECTS_STORE = 'projects';
+const CONTENTS_STORE = 'projectContents';
+const ACTIVE_PROJECT_KEY = 'tankCalibration.activeLibraryProject';
+
+let projectCounter = 0;
+
+export const nextLibraryProjectId = (): string => `project-${Date.now()}-${++projectCounter}`;
+
+const openLibrary = (): Promise<IDBDatabase> => new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+        reject(new Error('This browser cannot keep projects: IndexedDB is not available.'));
+        return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+        request.result.createObjectStore(PROJECTS_STORE, { keyPath: 'id' });
+        request.result.createObjectStore(CONTENTS_STORE);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+});
+
+/** Runs one transaction and resolves with the result of the last request once it has committed. */
+const runTransaction = async <T>(mode: IDBTransactionMode, run: (tx: IDBTransaction) => IDBRequest<T> | void): Promise<T> => {
+    const db = await openLibrary();
+    try {
+        return await new Promise<T>((resolve, reject) => {
+            const tx = db.transaction([PROJECTS_STORE, CONTENTS_STORE], mode);
+            const request = run(tx);
+            tx.oncomplete = () => resolve(request ? request.result : (undefined as T));
+            tx.onerror = () => reject(tx.error);
+            tx.onabort = () => reject(tx.error || new Error('The project library transaction was aborted.'));
+        });
+    } finally {
+        db.close();
+    }
+};
+
+/**
+ * The library entry of a site, named by the site and its tanks so that it can be searched.
+ */
+export const describeLibraryProject = (id: string, site: SiteDetails, tanks: SiteTank[]): LibraryProject => ({
+    id,
+    siteName: site.siteName,
+    clientName: site.clientName,
+    tankCodes: tanks.map((t, i) => tankLabel(t.project, i)),
+    calibrationDate: site.calibrationDate,
+    updatedAt: new Date().toISOString(),
+});
+
+/**
+ * Saves a project and the text of its .adf file, replacing an earlier save under the same id.
+ */
+export const saveLibraryProject = (project: LibraryProject, contents: string): Promise<void> =>
+    runTransaction<void>('readwrite', tx => {
+        tx.objectStore(PROJECTS_STORE).put(project);
+        tx.objectStore(CONTENTS_STORE).put(contents, project.id);
+    });
+
+/**
+ * The saved projects, most recently changed first.
+ */
+export const listLibraryProjects = async (): Promise<LibraryProject[]> => {
+    const projects = await runTransaction<LibraryProject[]>('readonly', tx => tx.objectStore(PROJECTS_STORE).getAll());
+    return projects.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+};
+
+/**
+ * The text of a saved project's .adf file.
+ * @throws When the project is no longer in the library.
+ */
+export const loadLibraryProject = async (id: string): Promise<string> => {
+    const contents = await runTransaction<string | undefined>('readonly', tx => tx.objectStore(CONTENTS_STORE).get(id));
+    if (contents === undefined) throw new Error('This project is no longer in the project library.');
+    return contents;
+};
+
+export const deleteLibraryProject = (id: string): Promise<void> =>
+    runTransaction<void>('readwrite', tx => {
+        tx.objectStore(PROJECTS_STORE).delete(id);
+        tx.objectStore(CONTENTS_STORE).delete(id);
+    });
+
+/**
+ * Filters projects by words matched against the site, client, tank codes and
+ * calibration date; every word has to match.
+ */
+export const searchLibraryProjects = (projects: LibraryProject[], query: string): LibraryProject[] => {
+    const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+    if (words.length === 0) return projects;
+    return projects.filter(p => {
+        const text = [p.siteName, p.clientName, ...p.tankCodes, p.calibrationDate].join(' ').toLowerCase();
+        return words.every(word => text.includes(word));
+    });
+};
+
+// The project being worked on is remembered until it is closed, so that it
+// can be offered for restoring after a refresh or crash.
+
+export const readActiveLibraryProjectId = (): string | null => {
+    try {
+        return window.localStorage.getItem(ACTIVE_PROJECT_KEY);
+    } catch (err) {
+        console.error('Failed to read the active project:', err);
+        return null;
+    }
+};
+
+export const writeActiveLibraryProjectId = (id: string | null): void => {
+    try {
+        if (id) window.localStorage.setItem(ACTIVE_PROJECT_KEY, id);
+        else window.localStorage.removeItem(ACTIVE_PROJECT_KEY);
+    } catch (err) {
+        console.error('Failed to remember the active project:', err);
+    }
+};
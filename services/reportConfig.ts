@@ -0,0 +1,51 @@
+import { ReportConfig } from '../types';
+import { defaultStrappingChartSettings } from './strappingChart';
+import { defaultTemperatureSettings } from './temperatureCorrection';
+import { defaultDipSettings } from './dipReadings';
+import { defaultToleranceProfile } from './tolerance';
+import { defaultUncertaintySettings } from './uncertainty';
+import { withDetectedUnits } from './units';
+
+export const DEFAULT_CLIENT_NAME = 'Default Client';
+
+export const createDefaultReportConfig = (): ReportConfig => ({
+    clientName: DEFAULT_CLIENT_NAME,
+    tankCode: '',
+    tankDiameter: '',
+    tankHeight: '',
+    tankLength: '',
+    tankWidth: '',
+    tankShape: 'horizontal-cylinder',
+    headType: 'flat',
+    headDepth: '',
+    tiltAngle: 0,
+    dipPointOffset: '',
+    tankCapacity: '',
+    calibrationDate: new Date().toISOString().split('T')[0],
+    calibrationCompany: '',
+    heightHeader: 'Height (m)',
+    volumeHeader: 'Volume (L)',
+    columnOrder: 'height-volume',
+    decimalPlaces: 2,
+    interpolationMethod: 'linear',
+    extrapolation: 'reject',
+    includeOutOfRangeInStats: false,
+    strappingChart: defaultStrappingChartSettings,
+    temperature: defaultTemperatureSettings,
+    dip: defaultDipSettings,
+    tolerance: defaultToleranceProfile,
+    uncertainty: defaultUncertaintySettings,
+    heightUnit: 'm',
+    volumeUnit: 'L',
+    outputHeightUnit: 'm',
+    outputVolumeUnit: 'L',
+});
+
+/**
+ * Fills in the settings a saved tank configuration predates with their defaults.
+ */
+export const restoreReportConfig = (saved: ReportConfig): ReportConfig => {
+    const { heightUnit, volumeUnit, outputHeightUnit, outputVolumeUnit, ...defaults } = createDefaultReportConfig();
+    // Units missing from older project files are read from the column headers instead of defaulted.
+    return withDetectedUnits({ ...defaults, ...saved });
+};
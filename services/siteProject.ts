@@ -0,0 +1,87 @@
+import { ProjectState, ReportConfig, SiteDetails, SiteTank, TankShape } from '../types';
+import { applyTiltCorrection } from './tiltCorrection';
+import { datasetToOutputUnits, heightUnitLabel, toOutputUnits, volumeUnitLabel } from './units';
+import { combinedVerdict } from './validationDatasets';
+import { restoreReportConfig } from './reportConfig';
+
+let tankCounter = 0;
+
+export const nextTankId = (): string => `tank-${Date.now()}-${++tankCounter}`;
+
+const tankShapeNames: Record<TankShape, string> = {
+    'horizontal-cylinder': 'Horizontal cylinder',
+    'vertical-cylinder': 'Vertical cylinder',
+    'rectangular': 'Rectangular',
+};
+
+/**
+ * The site details held by a tank's configuration, keeping the site-only
+ * fields of the current details.
+ */
+export const siteDetailsFromConfig = (config: ReportConfig, site?: SiteDetails): SiteDetails => ({
+    siteName: site?.siteName ?? '',
+    siteAddress: site?.siteAddress ?? '',
+    clientName: config.clientName,
+    calibrationCompany: config.calibrationCompany,
+    calibrationDate: config.calibrationDate,
+});
+
+/**
+ * Copies the shared site details into a tank's configuration, which is what
+ * the reports and exports of each tank read them from.
+ */
+export const withSiteDetails = (config: ReportConfig, site: SiteDetails): ReportConfig => ({
+    ...config,
+    clientName: site.clientName,
+    calibrationCompany: site.calibrationCompany,
+    calibrationDate: site.calibrationDate,
+});
+
+export const tankLabel = (project: ProjectState, index: number): string => project.reportConfig.tankCode || `Tank ${index + 1}`;
+
+export interface SiteTankSummary {
+    id: string;
+    label: string;
+    shape: string;
+    capacity: string;
+    chartPoints: number;
+    /** Highest chart reading, in the tank's output units. */
+    maxHeight: string;
+    maxVolume: string;
+    datasetCount: number;
+    measurementCount: number;
+    /** Largest deviation of any validation reading, in the tank's output units. */
+    largestDeviation: string;
+    /** Null when no dataset was checked against a tolerance. */
+    passed: boolean | null;
+}
+
+/**
+ * One row of the site summary: the chart and validation results of a tank.
+ */
+export const summarizeSiteTank = (tank: SiteTank, index: number): SiteTankSummary => {
+    const { processedData } = tank.project;
+    const reportConfig = restoreReportConfig(tank.project.reportConfig);
+    const datasets = tank.project.validationDatasets || [];
+    const { data, config } = toOutputUnits(reportConfig, applyTiltCorrection(processedData, reportConfig));
+    const volumes = data.map(d => d.chartVolume).filter((v): v is number => v !== null && !isNaN(v));
+    const deviations = datasets
+        .map(d => datasetToOutputUnits(reportConfig, d).stats)
+        .flatMap(s => [Math.abs(s.maxDeviation.value), Math.abs(s.minDeviation.value)]);
+    const heightUnit = heightUnitLabel(config.heightUnit);
+    const volumeUnit = volumeUnitLabel(config.volumeUnit);
+
+    return {
+        id: tank.id,
+        label: tankLabel(tank.project, index),
+        shape: tankShapeNames[reportConfig.tankShape] || reportConfig.tankShape,
+        capacity: reportConfig.tankCapacity || '—',
+        chartPoints: data.length,
+        maxHeight: data.length > 0 ? `${Math.max(...data.map(d => d.height)).toFixed(config.decimalPlaces)} ${heightUnit}` : '—',
+        maxVolume: volumes.length > 0 ? `${Math.max(...volumes).toFixed(config.decimalPlaces)} ${volumeUnit}` : '—',
+        datasetCount: datasets.length,
+        measurementCount: datasets.reduce((sum, d) => sum + d.stats.totalMeasurements, 0),
+        largestDeviation: deviations.length > 0 ? `${Math.max(...deviations).toFixed(config.decimalPlaces)} ${volumeUnit}` : '—',
+        passed: combinedVerdict(datasets)?.passed ?? null,
+    };
+};
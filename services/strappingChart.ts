@@ -0,0 +1,93 @@
+import { ProcessedData, ReportConfig, StrappingChartRow, StrappingChartSettings } from '../types';
+import { generateStrappingChartData } from './dataProcessor';
+import { createInterpolator } from './interpolation';
+import { convertHeight } from './units';
+
+export const defaultStrappingChartSettings: StrappingChartSettings = {
+    mode: 'points',
+    points: 300,
+    increment: 1,
+    incrementUnit: 'mm',
+    columnPairs: 6,
+    rowsPerPage: 50,
+    includeDelta: false,
+};
+
+const MAX_STRAPPING_ROWS = 20000;
+
+export const getStrappingChartSettings = (config: ReportConfig): StrappingChartSettings => ({
+    ...defaultStrappingChartSettings,
+    ...config.strappingChart,
+});
+
+/**
+ * Number of decimals needed to print multiples of a step exactly (0.005 → 3).
+ */
+export const decimalsForStep = (step: number): number => {
+    for (let decimals = 0; decimals < 6; decimals++) {
+        const scaled = step * 10 ** decimals;
+        if (Math.abs(scaled - Math.round(scaled)) < 1e-9 * Math.max(1, scaled)) return decimals;
+    }
+    return 6;
+};
+
+/**
+ * Builds the rows of the printed strapping chart from a chart in the report's
+ * units. In increment mode the heights are the multiples of the increment that
+ * fall within the chart, so the first row starts on a round number.
+ * @returns The rows and the number of decimals needed to print their heights.
+ */
+export const buildStrappingChart = (data: ProcessedData[], config: ReportConfig): { rows: StrappingChartRow[]; heightDecimals: number } => {
+    const settings = getStrappingChartSettings(config);
+    if (data.length < 2) return { rows: data.map(d => ({ height: d.height, chartVolume: d.chartVolume })), heightDecimals: config.decimalPlaces };
+
+    let rows: StrappingChartRow[];
+    let heightDecimals = config.decimalPlaces;
+
+    if (settings.mode === 'increment') {
+        const increment = convertHeight(settings.increment, settings.incrementUnit, config.heightUnit);
+        if (!(increment > 0)) throw new Error('The strapping chart increment must be greater than zero.');
+
+        const heights = data.map(d => d.height);
+        const first = Math.ceil(Math.min(...heights) / increment - 1e-9);
+        const last = Math.floor(Math.max(...heights) / increment + 1e-9);
+        const count = last - first + 1;
+        if (count > MAX_STRAPPING_ROWS) {
+            throw new Error(`An increment of ${settings.increment} ${settings.incrementUnit} gives ${count} rows; the limit is ${MAX_STRAPPING_ROWS}. Choose a larger increment.`);
+        }
+
+        heightDecimals = decimalsForStep(increment);
+        const volumeAt = createInterpolator(data, config.interpolationMethod);
+        rows = Array.from({ length: Math.max(0, count) }, (_, i) => {
+            // Rounding keeps heights such as 0.3 m from printing as 0.30000000000000004.
+            const height = Number(((first + i) * increment).toFixed(heightDecimals + 3));
+            return { height, chartVolume: volumeAt(height) };
+        });
+    } else {
+        const points = Math.min(Math.max(2, Math.round(settings.points) || 2), MAX_STRAPPING_ROWS);
+        rows = generateStrappingChartData(data, points, config.interpolationMethod).map(d => ({ height: d.height, chartVolume: d.chartVolume }));
+    }
+
+    if (settings.includeDelta) {
+        rows.forEach((row, i) => {
+            const next = rows[i + 1];
+            if (!next || next.height === row.height) return;
+            row.delta = (next.chartVolume - row.chartVolume) / convertHeight(next.height - row.height, config.heightUnit, settings.incrementUnit);
+        });
+    }
+
+    return { rows, heightDecimals };
+};
+
+/**
+ * Splits the strapping chart rows into printed pages of `columnPairs` columns
+ * with up to `rowsPerPage` rows each.
+ */
+export const paginateStrappingChart = (rows: StrappingChartRow[], settings: StrappingChartSettings): StrappingChartRow[][] => {
+    const pageSize = Math.max(1, settings.columnPairs) * Math.max(1, settings.rowsPerPage);
+    const pages: StrappingChartRow[][] = [];
+    for (let i = 0; i < rows.length; i += pageSize) {
+        pages.push(rows.slice(i, i + pageSize));
+    }
+    return pages.length > 0 ? pages : [[]];
+};
@@ -0,0 +1,135 @@
+import { ProcessedData, ReportConfig, TankGeometry, TheoreticalComparison } from '../types';
+import { parseLocaleNumber } from './csvParser';
+import { convertHeight, convertVolume, detectHeightUnit } from './units';
+
+const MM3_PER_LITRE = 1e6;
+
+/**
+ * Reads a free-text dimension such as "3m", "2,500 mm" or "96 in" into millimetres.
+ * A value without a unit is taken to be in the chart's height unit.
+ * @returns The dimension in millimetres, or null when the text holds no number.
+ */
+export const parseDimension = (text: string, config: ReportConfig): number | null => {
+    const numeric = text.replace(/[^\d.,-]/g, ' ').trim().split(/\s+/)[0];
+    if (!numeric) return null;
+    const value = parseLocaleNumber(numeric, 'auto');
+    if (value === null) return null;
+    const unitText = text.replace(/[\d.,\s-]/g, '');
+    const unit = (unitText && detectHeightUnit(unitText)) || config.heightUnit || 'mm';
+    return convertHeight(value, unit, 'mm');
+};
+
+/**
+ * Builds the tank geometry from the report configuration.
+ * @returns The geometry, or an error message naming the missing dimension.
+ */
+export const getTankGeometry = (config: ReportConfig): { geometry: TankGeometry | null; error: string | null } => {
+    const diameter = parseDimension(config.tankDiameter || '', config) ?? 0;
+    const length = parseDimension(config.tankLength || '', config) ?? 0;
+    const width = parseDimension(config.tankWidth || '', config) ?? 0;
+    const height = parseDimension(config.tankHeight || '', config) ?? 0;
+    const shape = config.tankShape || 'horizontal-cylinder';
+    const headType = config.headType || 'flat';
+
+    const missing = (name: string) => ({ geometry: null, error: `Enter the tank ${name} to compute a theoretical chart.` });
+    if (shape !== 'rectangular' && diameter <= 0) return missing('diameter');
+    if (shape !== 'vertical-cylinder' && length <= 0) return missing('length');
+    if (shape === 'rectangular' && width <= 0) return missing('width');
+    if (shape !== 'horizontal-cylinder' && height <= 0) return missing('height');
+
+    // Default head depths: 2:1 ellipsoidal heads are D/4 deep, ASME flanged & dished heads about 0.169 D.
+    const defaultHeadDepth = headType === 'hemispherical' ? diameter / 2
+        : headType === 'ellipsoidal' ? diameter / 4
+        : headType === 'dished' ? 0.169 * diameter
+        : 0;
+    const headDepth = headType === 'flat' ? 0 : parseDimension(config.headDepth || '', config) || defaultHeadDepth;
+
+    return {
+        geometry: {
+            shape,
+            headType: shape === 'horizontal-cylinder' ? headType : 'flat',
+            diameter,
+            length,
+            width,
+            height: shape === 'horizontal-cylinder' ? diameter : height,
+            headDepth: headType === 'hemispherical' ? diameter / 2 : headDepth,
+        },
+        error: null,
+    };
+};
+
+/**
+ * Cross-sectional area of a circular segment of radius r filled to depth h.
+ */
+const segmentArea = (r: number, h: number): number => {
+    return r * r * Math.acos((r - h) / r) - (r - h) * Math.sqrt(2 * r * h - h * h);
+};
+
+/**
+ * Liquid volume in litres at a fill height (mm) for the given geometry.
+ *
+ * Horizontal cylinders are the cylindrical shell plus both heads. The heads are
+ * treated as halves of a spheroid with the given depth: exact for hemispherical
+ * and ellipsoidal heads, and the usual approximation for dished (torispherical) heads.
+ */
+export const volumeAtHeight = (geometry: TankGeometry, heightMm: number): number => {
+    const h = Math.max(0, Math.min(heightMm, geometry.height));
+
+    switch (geometry.shape) {
+        case 'rectangular':
+            return geometry.length * geometry.width * h / MM3_PER_LITRE;
+        case 'vertical-cylinder': {
+            const r = geometry.diameter / 2;
+            return Math.PI * r * r * h / MM3_PER_LITRE;
+        }
+        case 'horizontal-cylinder': {
+            const r = geometry.diameter / 2;
+            const shell = segmentArea(r, h) * geometry.length;
+            // Both heads together form a spheroid whose liquid volume is a scaled spherical cap.
+            const heads = geometry.headType === 'flat' || geometry.headDepth <= 0
+                ? 0
+                : (geometry.headDepth / r) * Math.PI * h * h * (3 * r - h) / 3;
+            return (shell + heads) / MM3_PER_LITRE;
+        }
+    }
+};
+
+/**
+ * Generates a theoretical height-to-volume chart for the tank, in the chart's
+ * height and volume units.
+ * @param points The number of evenly spaced heights from empty to full.
+ */
+export const generateTheoreticalChart = (geometry: TankGeometry, config: ReportConfig, points: number = 201): ProcessedData[] => {
+    const heightUnit = config.heightUnit || 'mm';
+    const volumeUnit = config.volumeUnit || 'L';
+    const step = geometry.height / (points - 1);
+    return Array.from({ length: points }, (_, i) => {
+        const heightMm = i * step;
+        return {
+            height: convertHeight(heightMm, 'mm', heightUnit),
+            chartVolume: convertVolume(volumeAtHeight(geometry, heightMm), 'L', volumeUnit),
+        };
+    });
+};
+
+/**
+ * Compares every point of an uploaded chart with the theoretical volume at
+ * the same height. Deviations are chart minus theoretical.
+ */
+export const compareWithTheoretical = (chartData: ProcessedData[], geometry: TankGeometry, config: ReportConfig): TheoreticalComparison[] => {
+    const heightUnit = config.heightUnit || 'mm';
+    const volumeUnit = config.volumeUnit || 'L';
+    return [...chartData]
+        .sort((a, b) => a.height - b.height)
+        .map(point => {
+            const theoreticalVolume = convertVolume(volumeAtHeight(geometry, convertHeight(point.height, heightUnit, 'mm')), 'L', volumeUnit);
+            const deviation = point.chartVolume - theoreticalVolume;
+            return {
+                height: point.height,
+                chartVolume: point.chartVolume,
+                theoreticalVolume,
+                deviation,
+                percentDeviation: theoreticalVolume !== 0 ? (deviation / theoreticalVolume) * 100 : 0,
+            };
+        });
+};
@@ -0,0 +1,137 @@
+import { DeliveryValidationData, ProcessedData, ProductType, ReadingConditions, TemperatureCompensation, TemperatureSettings } from '../types';
+
+export const productTypes: { id: ProductType; name: string; table: '54A' | '54B'; typicalDensity: number }[] = [
+    { id: 'crude', name: 'Crude Oil', table: '54A', typicalDensity: 870 },
+    { id: 'gasoline', name: 'Gasoline', table: '54B', typicalDensity: 745 },
+    { id: 'kerosene', name: 'Kerosene / Jet Fuel', table: '54B', typicalDensity: 800 },
+    { id: 'diesel', name: 'Diesel / Gas Oil', table: '54B', typicalDensity: 840 },
+];
+
+export const defaultTemperatureSettings: TemperatureSettings = {
+    enabled: false,
+    productType: 'diesel',
+    density: 840,
+    reportedBasis: 'net',
+    comparisonBasis: 'net',
+};
+
+const REFERENCE_TEMPERATURE = 15;
+export const MIN_TEMPERATURE = -18;
+export const MAX_TEMPERATURE = 150;
+
+/**
+ * Thermal expansion coefficient at 15 °C from ASTM D1250 / API MPMS 11.1
+ * Table 54A (crude) or 54B (refined products). Table 54B picks its constants
+ * by density, not by product name, so the product type only selects the table.
+ */
+export const expansionCoefficient = (productType: ProductType, density: number): number => {
+    if (productType === 'crude') {
+        if (density < 610.5 || density > 1075) throw new Error(`Density ${density} kg/m³ is outside Table 54A (610.5–1075 kg/m³).`);
+        return 613.9723 / (density * density);
+    }
+    if (density < 653 || density > 1075) throw new Error(`Density ${density} kg/m³ is outside Table 54B (653–1075 kg/m³).`);
+    if (density < 770.5) return 346.4228 / (density * density) + 0.4388 / density;
+    if (density < 787.5) return -0.00336312 + 2680.3206 / (density * density);
+    if (density < 838.5) return 594.5418 / (density * density);
+    return 186.9696 / (density * density) + 0.4862 / density;
+};
+
+/**
+ * Volume correction factor from the observed temperature to 15 °C, so that
+ * net volume = gross observed volume × VCF.
+ * @param density Density at 15 °C in kg/m³.
+ * @param temperature Product temperature in °C.
+ */
+export const calculateVcf = (productType: ProductType, density: number, temperature: number): number => {
+    if (temperature < MIN_TEMPERATURE || temperature > MAX_TEMPERATURE) {
+        throw new Error(`Temperature ${temperature} °C is outside the range of the volume correction tables.`);
+    }
+    const alpha = expansionCoefficient(productType, density);
+    const dt = temperature - REFERENCE_TEMPERATURE;
+    return Math.exp(-alpha * dt * (1 + 0.8 * alpha * dt));
+};
+
+/**
+ * Reads a product type from free text such as a "Product" column.
+ */
+export const parseProductType = (text: string): ProductType | undefined => {
+    const value = text.toLowerCase();
+    if (/crude/.test(value)) return 'crude';
+    if (/kero|jet|avtur|paraffin/.test(value)) return 'kerosene';
+    if (/diesel|gas\s*oil|\bago\b|fuel\s*oil/.test(value)) return 'diesel';
+    if (/gasoline|petrol|mogas|unleaded|\bulp\b|\bpms\b/.test(value)) return 'gasoline';
+    return undefined;
+};
+
+const vcfFor = (conditions: ReadingConditions | undefined, settings: TemperatureSettings, temperature: number): number =>
+    calculateVcf(conditions?.productType || settings.productType, conditions?.density || settings.density, temperature);
+
+/**
+ * Adds the gross and net comparison to a validated point and sets its
+ * deviation to the configured basis. Points without a tank temperature, or
+ * with compensation disabled, are returned unchanged.
+ */
+export const compensatePoint = (point: ProcessedData, settings: TemperatureSettings): ProcessedData => {
+    const { compensation, ...uncompensated } = point;
+    const temperature = point.conditions?.tankTemperature;
+    if (!settings.enabled || temperature === undefined || point.fieldVolume === undefined) return uncompensated;
+
+    const vcf = vcfFor(point.conditions, settings, temperature);
+    const netReportedVolume = settings.reportedBasis === 'net' ? point.fieldVolume : point.fieldVolume * vcf;
+    const result: TemperatureCompensation = {
+        grossChartVolume: point.chartVolume,
+        netChartVolume: point.chartVolume * vcf,
+        grossReportedVolume: netReportedVolume / vcf,
+        netReportedVolume,
+        grossDeviation: netReportedVolume / vcf - point.chartVolume,
+        netDeviation: netReportedVolume - point.chartVolume * vcf,
+    };
+    return {
+        ...uncompensated,
+        compensation: result,
+        deviation: settings.comparisonBasis === 'net' ? result.netDeviation : result.grossDeviation,
+    };
+};
+
+/**
+ * Adds the gross and net comparison to a delivery. The chart's net delivery is
+ * the difference of the net tank contents after and before; a gross delivery
+ * note is corrected at its own temperature (or the tank temperature after the
+ * delivery when it has none). Deliveries without both tank temperatures are
+ * returned unchanged.
+ */
+export const compensateDelivery = (
+    delivery: DeliveryValidationData,
+    volumeBefore: number,
+    volumeAfter: number,
+    settings: TemperatureSettings
+): DeliveryValidationData => {
+    const { compensation, ...uncompensated } = delivery;
+    const temperatureBefore = delivery.conditionsBefore?.tankTemperature;
+    const temperatureAfter = delivery.conditionsAfter?.tankTemperature;
+    if (!settings.enabled || temperatureBefore === undefined || temperatureAfter === undefined) return uncompensated;
+
+    // The delivered product is the one in the tank afterwards.
+    const conditions = { ...delivery.conditionsBefore, ...delivery.conditionsAfter };
+    const vcfBefore = vcfFor(conditions, settings, temperatureBefore);
+    const vcfAfter = vcfFor(conditions, settings, temperatureAfter);
+    const netReportedVolume = settings.reportedBasis === 'net'
+        ? delivery.reportedDelivery
+        : delivery.reportedDelivery * vcfFor(conditions, settings, conditions.deliveryTemperature ?? temperatureAfter);
+    const grossChartVolume = volumeAfter - volumeBefore;
+    const netChartVolume = volumeAfter * vcfAfter - volumeBefore * vcfBefore;
+
+    const result: TemperatureCompensation = {
+        grossChartVolume,
+        netChartVolume,
+        grossReportedVolume: netReportedVolume / vcfAfter,
+        netReportedVolume,
+        grossDeviation: netReportedVolume / vcfAfter - grossChartVolume,
+        netDeviation: netReportedVolume - netChartVolume,
+    };
+    return {
+        ...uncompensated,
+        compensation: result,
+        deviation: settings.comparisonBasis === 'net' ? result.netDeviation : result.grossDeviation,
+    };
+};
@@ -0,0 +1,123 @@
+import { ProcessedData, ReportConfig, TiltEstimate, TiltParameters } from '../types';
+import { createInterpolator, Interpolator } from './interpolation';
+import { parseDimension } from './tankGeometry';
+import { convertHeight } from './units';
+
+const SLICES = 64;
+const MAX_ESTIMATED_TILT = 2;
+const ESTIMATE_GRID_STEP = 0.05;
+
+/**
+ * Reads the tilt and dip-point position from the configuration.
+ * @returns The parameters in the chart's height unit, or null with an error when
+ * the tank is level or the tank length needed for the correction is missing.
+ */
+export const getTiltParameters = (config: ReportConfig): { params: TiltParameters | null; error: string | null } => {
+    const tiltAngle = config.tiltAngle || 0;
+    if (tiltAngle === 0) return { params: null, error: null };
+
+    const lengthMm = parseDimension(config.tankLength || '', config) ?? 0;
+    if (lengthMm <= 0) return { params: null, error: 'Enter the tank length to apply a tilt correction.' };
+    const offsetMm = parseDimension(config.dipPointOffset || '', config) ?? 0;
+    if (Math.abs(offsetMm) > lengthMm / 2) return { params: null, error: 'The dip-point offset is larger than half the tank length.' };
+
+    const unit = config.heightUnit || 'mm';
+    return {
+        params: {
+            length: convertHeight(lengthMm, 'mm', unit),
+            dipPointOffset: convertHeight(offsetMm, 'mm', unit),
+            slope: Math.tan(tiltAngle * Math.PI / 180),
+        },
+        error: null,
+    };
+};
+
+/**
+ * Volume of a tilted tank for a level reading at the dip point.
+ *
+ * The liquid depth changes linearly along the shell, so the level chart is
+ * evaluated at the depth of each slice of the shell and averaged. Depths
+ * outside the chart are held at its empty and full ends. The heads are
+ * treated as part of the shell, which is accurate while the tilt is small.
+ */
+const tiltedVolume = (dipHeight: number, volumeAt: Interpolator, range: [number, number], params: TiltParameters): number => {
+    let total = 0;
+    for (let i = 0; i < SLICES; i++) {
+        const position = ((i + 0.5) / SLICES - 0.5) * params.length;
+        const depth = dipHeight + (position - params.dipPointOffset) * params.slope;
+        total += volumeAt(Math.min(range[1], Math.max(range[0], depth)));
+    }
+    return total / SLICES;
+};
+
+const heightRange = (chartData: ProcessedData[]): [number, number] => {
+    const heights = chartData.map(p => p.height);
+    return [Math.min(...heights), Math.max(...heights)];
+};
+
+/**
+ * Corrects a level-tank chart for the tilt and dip-point position in the
+ * configuration. Points keep their order, so row numbers still refer to the
+ * uploaded chart. The chart is returned unchanged for a level tank.
+ */
+export const applyTiltCorrection = (chartData: ProcessedData[], config: ReportConfig): ProcessedData[] => {
+    const { params } = getTiltParameters(config);
+    if (!params || chartData.length < 2) return chartData;
+    const volumeAt = createInterpolator(chartData, config.interpolationMethod);
+    const range = heightRange(chartData);
+    return chartData.map(point => ({ ...point, chartVolume: tiltedVolume(point.height, volumeAt, range, params) }));
+};
+
+/**
+ * Estimates the tilt that best explains point-validation residuals, keeping the
+ * configured dip-point offset. The tilt is searched on a grid within ±2° and
+ * refined by golden-section search around the best grid value.
+ */
+export const estimateTilt = (
+    chartData: ProcessedData[],
+    validationPoints: ProcessedData[],
+    config: ReportConfig
+): TiltEstimate => {
+    const points = validationPoints.filter(p => p.fieldVolume !== undefined && !isNaN(p.fieldVolume));
+    if (points.length < 2) throw new Error('At least two point-validation measurements are needed to estimate the tilt.');
+    if (chartData.length < 2) throw new Error('The chart needs at least two points to estimate the tilt.');
+
+    const { params, error } = getTiltParameters({ ...config, tiltAngle: 1 });
+    if (!params) throw new Error(error || 'The tilt could not be estimated.');
+
+    const volumeAt = createInterpolator(chartData, config.interpolationMethod);
+    const range = heightRange(chartData);
+    const rms = (tiltAngle: number): number => {
+        const slope = Math.tan(tiltAngle * Math.PI / 180);
+        const sumSquares = points.reduce((sum, p) => {
+            const volume = slope === 0 ? volumeAt(p.height) : tiltedVolume(p.height, volumeAt, range, { ...params, slope });
+            return sum + (p.fieldVolume! - volume) ** 2;
+        }, 0);
+        return Math.sqrt(sumSquares / points.length);
+    };
+
+    let best = 0;
+    let bestRms = rms(0);
+    const rmsBefore = bestRms;
+    for (let angle = -MAX_ESTIMATED_TILT; angle <= MAX_ESTIMATED_TILT + 1e-9; angle += ESTIMATE_GRID_STEP) {
+        const value = rms(angle);
+        if (value < bestRms) {
+            best = angle;
+            bestRms = value;
+        }
+    }
+
+    const ratio = (Math.sqrt(5) - 1) / 2;
+    let low = best - ESTIMATE_GRID_STEP;
+    let high = best + ESTIMATE_GRID_STEP;
+    for (let i = 0; i < 30; i++) {
+        const a = high - ratio * (high - low);
+        const b = low + ratio * (high - low);
+        if (rms(a) < rms(b)) high = b;
+        else low = a;
+    }
+    const refined = (low + high) / 2;
+    const tiltAngle = rms(refined) < bestRms ? refined : best;
+
+    return { tiltAngle, rmsBefore, rmsAfter: rms(tiltAngle), pointCount: points.length };
+};
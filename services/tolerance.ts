@@ -0,0 +1,74 @@
+import { ProcessedData, ToleranceMode, ToleranceProfile, ValidationSettings } from '../types';
+import { parseDeclaredCapacity } from './dataQuality';
+import { convertHeight, convertVolume, heightUnitLabel, volumeUnitLabel } from './units';
+
+export const toleranceModes: { id: ToleranceMode; name: string; description: string }[] = [
+    { id: 'absolute', name: 'Absolute', description: 'A fixed number of litres at every level.' },
+    { id: 'percent-reading', name: '% of Reading', description: 'A percentage of the reported volume or delivery.' },
+    { id: 'percent-capacity', name: '% of Capacity', description: 'A percentage of the declared tank capacity, or the chart maximum when none is set.' },
+    { id: 'height-bands', name: 'Bands by Height', description: 'Litres per height band, for charts with looser limits near the bottom.' },
+];
+
+export const builtInToleranceProfiles: ToleranceProfile[] = [
+    { id: 'reading-0.5', name: '±0.5 % of reading', mode: 'percent-reading', value: 0.5, bands: [] },
+    { id: 'reading-0.2', name: '±0.2 % of reading', mode: 'percent-reading', value: 0.2, bands: [] },
+    { id: 'capacity-0.1', name: '±0.1 % of capacity', mode: 'percent-capacity', value: 0.1, bands: [] },
+    { id: 'absolute-50', name: '±50 L', mode: 'absolute', value: 50, bands: [] },
+];
+
+export const defaultToleranceProfile = builtInToleranceProfiles[0];
+
+/**
+ * Returns the allowed deviation, in the chart volume unit, for a reading at a
+ * height (in the chart height unit) with a reported volume or delivery.
+ */
+export const createToleranceCalculator = (
+    settings: Pick<ValidationSettings, 'tolerance' | 'tankCapacity' | 'heightUnit' | 'volumeUnit'>,
+    chartData: ProcessedData[]
+): ((height: number, reported: number) => number) => {
+    const profile = settings.tolerance;
+    const fromLitres = (litres: number) => convertVolume(litres, 'L', settings.volumeUnit);
+
+    switch (profile.mode) {
+        case 'absolute': {
+            const tolerance = fromLitres(profile.value);
+            return () => tolerance;
+        }
+        case 'percent-reading':
+            return (_height, reported) => Math.abs(reported) * profile.value / 100;
+        case 'percent-capacity': {
+            const declared = parseDeclaredCapacity(settings.tankCapacity || '');
+            const capacity = declared && declared > 0 ? declared : Math.max(0, ...chartData.map(d => d.chartVolume));
+            const tolerance = capacity * profile.value / 100;
+            return () => tolerance;
+        }
+        case 'height-bands': {
+            if (profile.bands.length === 0) throw new Error(`Tolerance profile "${profile.name}" has no height bands.`);
+            const bands = [...profile.bands]
+                .sort((a, b) => a.upToHeight - b.upToHeight)
+                .map(b => ({ upToHeight: convertHeight(b.upToHeight, 'mm', settings.heightUnit), tolerance: fromLitres(b.tolerance) }));
+            return (height) => (bands.find(b => height <= b.upToHeight) || bands[bands.length - 1]).tolerance;
+        }
+    }
+};
+
+/** A converted limit to four significant figures, e.g. 13.21 gal or 39.37 in. */
+const formatLimit = (n: number): string => String(Number(n.toPrecision(4)));
+
+/**
+ * Describes a profile's criterion for report headers, e.g. "±0.5 % of reading",
+ * with absolute limits and band heights in the units the report is shown in.
+ */
+export const describeToleranceProfile = (profile: ToleranceProfile, units: Pick<ValidationSettings, 'heightUnit' | 'volumeUnit'>): string => {
+    const volume = (litres: number) => `${formatLimit(convertVolume(litres, 'L', units.volumeUnit))} ${volumeUnitLabel(units.volumeUnit)}`;
+    const height = (mm: number) => `${formatLimit(convertHeight(mm, 'mm', units.heightUnit))} ${heightUnitLabel(units.heightUnit)}`;
+    switch (profile.mode) {
+        case 'absolute': return `±${volume(profile.value)}`;
+        case 'percent-reading': return `±${profile.value} % of reading`;
+        case 'percent-capacity': return `±${profile.value} % of capacity`;
+        case 'height-bands': return [...profile.bands]
+            .sort((a, b) => a.upToHeight - b.upToHeight)
+            .map(b => `±${volume(b.tolerance)} to ${height(b.upToHeight)}`)
+            .join(', ');
+    }
+};
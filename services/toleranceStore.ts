@@ -0,0 +1,62 @@
+import { ToleranceProfile } from '../types';
+import { builtInToleranceProfiles } from './tolerance';
+
+const PROFILES_KEY = 'tankCalibration.toleranceProfiles';
+const CLIENTS_KEY = 'tankCalibration.clientToleranceProfiles';
+
+const readStorage = <T>(key: string, fallback: T): T => {
+    try {
+        const raw = window.localStorage.getItem(key);
+        return raw ? JSON.parse(raw) : fallback;
+    } catch (err) {
+        console.error('Failed to read saved tolerance profiles:', err);
+        return fallback;
+    }
+};
+
+const writeStorage = (key: string, value: unknown): void => {
+    try {
+        window.localStorage.setItem(key, JSON.stringify(value));
+    } catch (err) {
+        console.error('Failed to save tolerance profiles:', err);
+    }
+};
+
+/**
+ * The built-in profiles followed by the ones saved in this browser.
+ */
+export const loadToleranceProfiles = (): ToleranceProfile[] => [
+    ...builtInToleranceProfiles,
+    ...readStorage<ToleranceProfile[]>(PROFILES_KEY, []),
+];
+
+/**
+ * Saves a custom profile, replacing a saved profile with the same id.
+ * Built-in profiles cannot be overwritten.
+ */
+export const saveToleranceProfile = (profile: ToleranceProfile): void => {
+    if (builtInToleranceProfiles.some(p => p.id === profile.id)) {
+        throw new Error(`"${profile.name}" is a built-in profile; save the changes under a new name.`);
+    }
+    const profiles = readStorage<ToleranceProfile[]>(PROFILES_KEY, []).filter(p => p.id !== profile.id);
+    profiles.push(profile);
+    writeStorage(PROFILES_KEY, profiles);
+};
+
+/**
+ * The profile attached to a client, or null when the client has none or its
+ * profile has since been deleted.
+ */
+export const loadClientToleranceProfile = (clientName: string): ToleranceProfile | null => {
+    const profileId = readStorage<Record<string, string>>(CLIENTS_KEY, {})[clientName];
+    return loadToleranceProfiles().find(p => p.id === profileId) || null;
+};
+
+/**
+ * Attaches a profile to a client so their new reports start with it.
+ */
+export const attachToleranceProfile = (clientName: string, profileId: string): void => {
+    const assignments = readStorage<Record<string, string>>(CLIENTS_KEY, {});
+    assignments[clientName] = profileId;
+    writeStorage(CLIENTS_KEY, assignments);
+};
@@ -0,0 +1,117 @@
+import { DeliveryValidationData, ProcessedData, ReadingConditions, UncertaintyBudget, UncertaintyContribution, UncertaintySettings, ValidationSettings } from '../types';
+import { createSlopeCalculator, prepareChart } from './interpolation';
+import { expansionCoefficient } from './temperatureCorrection';
+import { convertHeight } from './units';
+
+/** Coverage factor of the expanded uncertainties, for a confidence of about 95 %. */
+export const COVERAGE_FACTOR = 2;
+
+export const defaultUncertaintySettings: UncertaintySettings = {
+    enabled: false,
+    dipResolution: 1,
+    readingUncertainty: 1,
+    meterUncertainty: 0.1,
+    temperatureUncertainty: 0.5,
+};
+
+const rootSumSquare = (terms: number[]): number => Math.sqrt(terms.reduce((sum, t) => sum + t * t, 0));
+
+/**
+ * Standard uncertainty of one dip reading in the chart height unit: the
+ * resolution as a rectangular distribution combined with the reading
+ * uncertainty.
+ */
+const dipUncertainty = (settings: ValidationSettings): number => {
+    const { dipResolution, readingUncertainty } = settings.uncertainty;
+    return convertHeight(Math.hypot(dipResolution / Math.sqrt(12), readingUncertainty), 'mm', settings.heightUnit);
+};
+
+const thermalExpansion = (conditions: ReadingConditions | undefined, settings: ValidationSettings): number =>
+    expansionCoefficient(conditions?.productType || settings.temperature.productType, conditions?.density || settings.temperature.density);
+
+export interface UncertaintyCalculator {
+    /** Expanded uncertainty of a valued point reading's deviation. */
+    point: (point: ProcessedData) => number;
+    /** Expanded uncertainty of a valued delivery's deviation, given the chart volumes either side of it. */
+    delivery: (delivery: DeliveryValidationData, volumeBefore: number, volumeAfter: number) => number;
+}
+
+/**
+ * Propagates the budget inputs into the expanded uncertainty of each
+ * validation reading. A dip reading counts through the chart slope at its
+ * height, the meter through the reported volume, and the tank temperature
+ * only through the gross-to-net conversion of compensated readings.
+ */
+export const createUncertaintyCalculator = (settings: ValidationSettings, chartData: ProcessedData[]): UncertaintyCalculator => {
+    const slopeAt = createSlopeCalculator(chartData, settings.interpolationMethod);
+    const uDip = dipUncertainty(settings);
+    const meter = settings.uncertainty.meterUncertainty / 100;
+    const uTemperature = settings.uncertainty.temperatureUncertainty;
+    const { reportedBasis, comparisonBasis } = settings.temperature;
+
+    return {
+        point: (point) => {
+            const fieldVolume = point.fieldVolume ?? 0;
+            const terms = [slopeAt(point.height) * uDip, fieldVolume * meter];
+            if (point.compensation) {
+                // Volumes converted with the same VCF move together, so only their difference counts.
+                const converted = (comparisonBasis === 'net' ? point.chartVolume : 0) - (reportedBasis !== comparisonBasis ? fieldVolume : 0);
+                terms.push(converted * thermalExpansion(point.conditions, settings) * uTemperature);
+            }
+            return COVERAGE_FACTOR * rootSumSquare(terms);
+        },
+        delivery: (delivery, volumeBefore, volumeAfter) => {
+            const terms = [
+                slopeAt(delivery.heightBefore) * uDip,
+                slopeAt(delivery.heightAfter) * uDip,
+                delivery.reportedDelivery * meter,
+            ];
+            if (delivery.compensation) {
+                const alpha = thermalExpansion({ ...delivery.conditionsBefore, ...delivery.conditionsAfter }, settings);
+                if (comparisonBasis === 'net') terms.push(volumeBefore * alpha * uTemperature, volumeAfter * alpha * uTemperature);
+                if (reportedBasis !== comparisonBasis) terms.push(delivery.reportedDelivery * alpha * uTemperature);
+            }
+            return COVERAGE_FACTOR * rootSumSquare(terms);
+        },
+    };
+};
+
+/**
+ * The uncertainty budget of the chart as a whole: the dip terms at the
+ * steepest part of the chart and the meter and temperature terms at its
+ * largest volume, so the result bounds the uncertainty at any height.
+ * @throws When temperature compensation is on and the product density is outside the VCF tables.
+ */
+export const calculateUncertaintyBudget = (settings: ValidationSettings, chartData: ProcessedData[]): UncertaintyBudget => {
+    const { heights, volumes } = prepareChart(chartData, settings.interpolationMethod);
+    const slopeAt = createSlopeCalculator(chartData, settings.interpolationMethod);
+    let maxSlope = 0;
+    heights.forEach((height, i) => {
+        maxSlope = Math.max(maxSlope, Math.abs(slopeAt(height)));
+        if (i > 0) maxSlope = Math.max(maxSlope, Math.abs(slopeAt((heights[i - 1] + height) / 2)));
+    });
+    const volume = volumes.reduce((max, v) => Math.max(max, v), 0);
+    const { dipResolution, readingUncertainty, meterUncertainty, temperatureUncertainty } = settings.uncertainty;
+    const toChartHeight = (mm: number) => convertHeight(mm, 'mm', settings.heightUnit);
+
+    const contributions: UncertaintyContribution[] = [
+        { source: 'Dip tape / probe resolution', input: `${dipResolution} mm`, standardUncertainty: maxSlope * toChartHeight(dipResolution / Math.sqrt(12)) },
+        { source: 'Dip reading', input: `${readingUncertainty} mm`, standardUncertainty: maxSlope * toChartHeight(readingUncertainty) },
+        { source: 'Meter', input: `${meterUncertainty} %`, standardUncertainty: volume * meterUncertainty / 100 },
+    ];
+    if (settings.temperature.enabled) {
+        contributions.push({
+            source: 'Tank temperature',
+            input: `${temperatureUncertainty} °C`,
+            standardUncertainty: volume * thermalExpansion(undefined, settings) * temperatureUncertainty,
+        });
+    }
+    const combinedUncertainty = rootSumSquare(contributions.map(c => c.standardUncertainty));
+    return {
+        contributions,
+        combinedUncertainty,
+        coverageFactor: COVERAGE_FACTOR,
+        expandedUncertainty: COVERAGE_FACTOR * combinedUncertainty,
+        volume,
+    };
+};
@@ -0,0 +1,205 @@
+import { DeliveryValidationData, HeightUnit, ProcessedData, ReportConfig, TemperatureCompensation, ValidationDataset, ValidationStats, VolumeUnit } from '../types';
+
+export const heightUnits: Record<HeightUnit, { label: string; name: string; toMillimetres: number }> = {
+    mm: { label: 'mm', name: 'Millimetres', toMillimetres: 1 },
+    cm: { label: 'cm', name: 'Centimetres', toMillimetres: 10 },
+    m: { label: 'm', name: 'Metres', toMillimetres: 1000 },
+    in: { label: 'in', name: 'Inches', toMillimetres: 25.4 },
+    ft: { label: 'ft', name: 'Feet', toMillimetres: 304.8 },
+};
+
+export const volumeUnits: Record<VolumeUnit, { label: string; name: string; toLitres: number }> = {
+    L: { label: 'L', name: 'Litres', toLitres: 1 },
+    m3: { label: 'm³', name: 'Cubic metres', toLitres: 1000 },
+    usgal: { label: 'US gal', name: 'US gallons', toLitres: 3.785411784 },
+    impgal: { label: 'imp gal', name: 'Imperial gallons', toLitres: 4.54609 },
+    bbl: { label: 'bbl', name: 'Barrels (42 US gal)', toLitres: 158.987294928 },
+};
+
+export const convertHeight = (value: number, from: HeightUnit, to: HeightUnit): number => {
+    if (from === to) return value;
+    return value * heightUnits[from].toMillimetres / heightUnits[to].toMillimetres;
+};
+
+export const convertVolume = (value: number, from: VolumeUnit, to: VolumeUnit): number => {
+    if (from === to) return value;
+    return value * volumeUnits[from].toLitres / volumeUnits[to].toLitres;
+};
+
+/**
+ * Recognises a height unit in a column header or unit label such as "Height (mm)" or "Dip in inches".
+ */
+export const detectHeightUnit = (text: string): HeightUnit | undefined => {
+    const unit = text.match(/\(([^)]+)\)/)?.[1] ?? text;
+    if (/\bmm\b|millimet/i.test(unit)) return 'mm';
+    if (/\bcm\b|centimet/i.test(unit)) return 'cm';
+    if (/\bin\b|inch|"/i.test(unit)) return 'in';
+    if (/\bft\b|feet|foot|'/i.test(unit)) return 'ft';
+    if (/\bm\b|met(er|re)s?\b/i.test(unit)) return 'm';
+    return undefined;
+};
+
+/**
+ * Recognises a volume unit in a column header or unit label such as "Volume (L)" or "Contents m3".
+ */
+export const detectVolumeUnit = (text: string): VolumeUnit | undefined => {
+    const unit = text.match(/\(([^)]+)\)/)?.[1] ?? text;
+    if (/m3|m³|cubic/i.test(unit)) return 'm3';
+    if (/imp(erial)?\.?\s*gal/i.test(unit)) return 'impgal';
+    if (/gal/i.test(unit)) return 'usgal';
+    if (/\bbbls?\b|barrel/i.test(unit)) return 'bbl';
+    if (/\bl\b|ltrs?\b|lit(er|re)s?/i.test(unit)) return 'L';
+    return undefined;
+};
+
+export const heightUnitLabel = (unit: HeightUnit | undefined): string => heightUnits[unit || 'mm'].label;
+
+export const volumeUnitLabel = (unit: VolumeUnit | undefined): string => volumeUnits[unit || 'L'].label;
+
+/**
+ * Replaces the unit in parentheses at the end of a column header, or appends one.
+ */
+export const withUnitLabel = (header: string, unitLabel: string): string => {
+    const base = header.replace(/\s*\([^)]*\)\s*$/, '').trim();
+    return `${base} (${unitLabel})`;
+};
+
+/**
+ * Fills in the height and volume units of a configuration that predates unit
+ * support, reading them from the column headers.
+ */
+export const withDetectedUnits = (config: ReportConfig): ReportConfig => {
+    const heightUnit = config.heightUnit || detectHeightUnit(config.heightHeader || '') || 'mm';
+    const volumeUnit = config.volumeUnit || detectVolumeUnit(config.volumeHeader || '') || 'L';
+    return {
+        ...config,
+        heightUnit,
+        volumeUnit,
+        outputHeightUnit: config.outputHeightUnit || heightUnit,
+        outputVolumeUnit: config.outputVolumeUnit || volumeUnit,
+    };
+};
+
+const convertCompensation = (
+    compensation: TemperatureCompensation | undefined,
+    from: VolumeUnit,
+    to: VolumeUnit
+): TemperatureCompensation | undefined => {
+    if (!compensation) return undefined;
+    const v = (n: number) => convertVolume(n, from, to);
+    return {
+        grossChartVolume: v(compensation.grossChartVolume),
+        netChartVolume: v(compensation.netChartVolume),
+        grossReportedVolume: v(compensation.grossReportedVolume),
+        netReportedVolume: v(compensation.netReportedVolume),
+        grossDeviation: v(compensation.grossDeviation),
+        netDeviation: v(compensation.netDeviation),
+    };
+};
+
+export const convertProcessedData = (
+    data: ProcessedData[],
+    from: { height: HeightUnit; volume: VolumeUnit },
+    to: { height: HeightUnit; volume: VolumeUnit }
+): ProcessedData[] => {
+    if (from.height === to.height && from.volume === to.volume) return data;
+    const v = (n: number | undefined) => (n === undefined ? undefined : convertVolume(n, from.volume, to.volume));
+    return data.map(d => ({
+        ...d,
+        height: convertHeight(d.height, from.height, to.height),
+        chartVolume: convertVolume(d.chartVolume, from.volume, to.volume),
+        fieldVolume: v(d.fieldVolume),
+        deviation: v(d.deviation),
+        compensation: convertCompensation(d.compensation, from.volume, to.volume),
+        tolerance: v(d.tolerance),
+        uncertainty: v(d.uncertainty),
+    }));
+};
+
+export const convertStats = (
+    stats: ValidationStats | null,
+    from: { height: HeightUnit; volume: VolumeUnit },
+    to: { height: HeightUnit; volume: VolumeUnit }
+): ValidationStats | null => {
+    if (!stats) return null;
+    const point = (p: { height: number; value: number }) => ({
+        height: convertHeight(p.height, from.height, to.height),
+        value: convertVolume(p.value, from.volume, to.volume),
+    });
+    const v = (n: number | undefined) => (n === undefined ? undefined : convertVolume(n, from.volume, to.volume));
+    return {
+        ...stats,
+        averageDeviation: convertVolume(stats.averageDeviation, from.volume, to.volume),
+        maxDeviation: point(stats.maxDeviation),
+        minDeviation: point(stats.minDeviation),
+        standardDeviation: v(stats.standardDeviation),
+        rmsDeviation: v(stats.rmsDeviation),
+        meanAbsoluteDeviation: v(stats.meanAbsoluteDeviation),
+    };
+};
+
+export const convertDeliveryData = (
+    data: DeliveryValidationData[],
+    from: { height: HeightUnit; volume: VolumeUnit },
+    to: { height: HeightUnit; volume: VolumeUnit }
+): DeliveryValidationData[] => {
+    const h = (n: number) => convertHeight(n, from.height, to.height);
+    const v = (n: number) => convertVolume(n, from.volume, to.volume);
+    return data.map(d => ({
+        ...d,
+        heightBefore: h(d.heightBefore),
+        heightAfter: h(d.heightAfter),
+        reportedDelivery: v(d.reportedDelivery),
+        chartCalculatedDelivery: v(d.chartCalculatedDelivery),
+        deviation: v(d.deviation),
+        compensation: convertCompensation(d.compensation, from.volume, to.volume),
+        tolerance: d.tolerance === undefined ? undefined : v(d.tolerance),
+        uncertainty: d.uncertainty === undefined ? undefined : v(d.uncertainty),
+    }));
+};
+
+const dataUnits = (config: ReportConfig) => ({ height: config.heightUnit || 'mm', volume: config.volumeUnit || 'L' });
+const outputUnits = (config: ReportConfig) => ({
+    height: config.outputHeightUnit || config.heightUnit || 'mm',
+    volume: config.outputVolumeUnit || config.volumeUnit || 'L',
+});
+
+/**
+ * Converts a data set into the report's output units and returns a matching
+ * configuration whose units and column headers describe the converted values.
+ * Exporters call this so that one chart can be issued in each client's units.
+ */
+export const toOutputUnits = (
+    config: ReportConfig,
+    data: ProcessedData[],
+    stats: ValidationStats | null = null
+): { config: ReportConfig; data: ProcessedData[]; stats: ValidationStats | null } => {
+    const from = dataUnits(config);
+    const to = outputUnits(config);
+    const outputConfig: ReportConfig = {
+        ...config,
+        heightUnit: to.height,
+        volumeUnit: to.volume,
+        outputHeightUnit: to.height,
+        outputVolumeUnit: to.volume,
+        heightHeader: from.height === to.height ? config.heightHeader : withUnitLabel(config.heightHeader, heightUnitLabel(to.height)),
+        volumeHeader: from.volume === to.volume ? config.volumeHeader : withUnitLabel(config.volumeHeader, volumeUnitLabel(to.volume)),
+    };
+    return {
+        config: outputConfig,
+        data: convertProcessedData(data, from, to),
+        stats: convertStats(stats, from, to),
+    };
+};
+
+/**
+ * Converts a validation dataset into the report's output units.
+ */
+export const datasetToOutputUnits = (config: ReportConfig, dataset: ValidationDataset): ValidationDataset => {
+    const from = dataUnits(config);
+    const to = outputUnits(config);
+    const stats = convertStats(dataset.stats, from, to) as ValidationStats;
+    return dataset.type === 'point'
+        ? { ...dataset, points: convertProcessedData(dataset.points, from, to), stats }
+        : { ...dataset, deliveries: convertDeliveryData(dataset.deliveries, from, to), stats };
+};
@@ -0,0 +1,142 @@
+import { DeliveryValidationData, ExclusionAuditEntry, ProcessedData, ProjectState, ReadingExclusion, RejectedRow, ValidationDataset, ValidationSettings, ValidationStats } from '../types';
+import { calculateDeliveryStats, calculatePointStats, calculatePointValidation, recalculateDeliveryValidation } from './dataProcessor';
+import { heightUnitLabel } from './units';
+
+let datasetCounter = 0;
+
+const nextDatasetId = (): string => `dataset-${Date.now()}-${++datasetCounter}`;
+
+export const createPointDataset = (name: string, points: ProcessedData[], stats: ValidationStats, rejectedRows: RejectedRow[] = []): ValidationDataset =>
+    ({ id: nextDatasetId(), name, type: 'point', points, stats, ...(rejectedRows.length > 0 && { rejectedRows }) });
+
+export const createDeliveryDataset = (name: string, deliveries: DeliveryValidationData[], stats: ValidationStats, rejectedRows: RejectedRow[] = []): ValidationDataset =>
+    ({ id: nextDatasetId(), name, type: 'delivery', deliveries, stats, ...(rejectedRows.length > 0 && { rejectedRows }) });
+
+/**
+ * Values every dataset again against a changed chart or changed validation settings.
+ */
+export const revalueDatasets = (datasets: ValidationDataset[], chartData: ProcessedData[], settings: ValidationSettings): ValidationDataset[] =>
+    datasets.map(dataset => {
+        if (dataset.type === 'point') {
+            const points = dataset.points.map(p => ({ height: p.height, fieldVolume: p.fieldVolume as number, conditions: p.conditions, exclusion: p.exclusion }));
+            const { combinedData, stats } = calculatePointValidation(points, chartData, settings);
+            return { ...dataset, points: combinedData, stats };
+        }
+        const { deliveryData, stats } = recalculateDeliveryValidation(dataset.deliveries, chartData, settings);
+        return { ...dataset, deliveries: deliveryData, stats };
+    });
+
+export const auditActionLabels: Record<ExclusionAuditEntry['action'], string> = {
+    excluded: 'Excluded',
+    restored: 'Restored',
+    reset: 'Exclusion reset',
+};
+
+/**
+ * A reading as it is named in the audit trail, e.g. "1200.00 mm" or "800.00 → 1200.00 mm".
+ */
+const readingLabel = (dataset: ValidationDataset, index: number, unit: string): string => {
+    if (dataset.type === 'point') return `${dataset.points[index].height.toFixed(2)} ${unit}`;
+    const delivery = dataset.deliveries[index];
+    return `${delivery.heightBefore.toFixed(2)} → ${delivery.heightAfter.toFixed(2)} ${unit}`;
+};
+
+/**
+ * Excludes a reading of a dataset from its statistics, or restores it when
+ * the reason is null, and records the change in the dataset's audit trail.
+ * @throws When a reading is excluded without a reason.
+ */
+export const setReadingExclusion = (dataset: ValidationDataset, index: number, reason: string | null, settings: ValidationSettings): ValidationDataset => {
+    const at = new Date().toISOString();
+    const exclusion = reason === null ? undefined : { reason: reason.trim(), excludedAt: at };
+    if (exclusion && !exclusion.reason) {
+        throw new Error('Give a reason for excluding the reading.');
+    }
+
+    const reading = readingLabel(dataset, index, heightUnitLabel(settings.heightUnit));
+    let previousReason: string;
+    let updated: ValidationDataset;
+    if (dataset.type === 'point') {
+        previousReason = dataset.points[index].exclusion?.reason || '';
+        const points = dataset.points.map((p, i) => (i === index ? { ...p, exclusion } : p));
+        updated = { ...dataset, points, stats: calculatePointStats(points, settings) };
+    } else {
+        previousReason = dataset.deliveries[index].exclusion?.reason || '';
+        const deliveries = dataset.deliveries.map((d, i) => (i === index ? { ...d, exclusion } : d));
+        updated = { ...dataset, deliveries, stats: calculateDeliveryStats(deliveries, settings) };
+    }
+
+    const entry: ExclusionAuditEntry = exclusion
+        ? { action: 'excluded', reading, reason: exclusion.reason, at }
+        : { action: 'restored', reading, reason: previousReason, at };
+    return { ...updated, auditTrail: [...(dataset.auditTrail || []), entry] };
+};
+
+/**
+ * Carries the exclusions and audit trail of a dataset onto the dataset a
+ * re-run produced in its place. Each excluded reading is matched to the same
+ * reading of the re-run; an exclusion whose reading is gone is dropped and
+ * recorded as reset in the audit trail.
+ */
+export const carryOverExclusions = (previous: ValidationDataset, rerun: ValidationDataset, settings: ValidationSettings): ValidationDataset => {
+    const unit = heightUnitLabel(settings.heightUnit);
+    const readings: (ProcessedData | DeliveryValidationData)[] = previous.type === 'point' ? previous.points : previous.deliveries;
+    const rerunReadings: (ProcessedData | DeliveryValidationData)[] = rerun.type === 'point' ? rerun.points : rerun.deliveries;
+    const rerunLabels = rerunReadings.map((_, i) => readingLabel(rerun, i, unit));
+    const exclusions = new Map<number, ReadingExclusion>();
+    const resets: ExclusionAuditEntry[] = [];
+    const at = new Date().toISOString();
+
+    readings.forEach((r, i) => {
+        if (!r.exclusion) return;
+        const reading = readingLabel(previous, i, unit);
+        const match = previous.type === rerun.type
+            ? rerunLabels.findIndex((label, j) => label === reading && !exclusions.has(j))
+            : -1;
+        if (match === -1) resets.push({ action: 'reset', reading, reason: r.exclusion.reason, at });
+        else exclusions.set(match, r.exclusion);
+    });
+
+    const auditTrail = [...(previous.auditTrail || []), ...resets];
+    let carried: ValidationDataset = rerun;
+    if (exclusions.size > 0) {
+        if (rerun.type === 'point') {
+            const points = rerun.points.map((p, i) => (exclusions.has(i) ? { ...p, exclusion: exclusions.get(i) } : p));
+            carried = { ...rerun, points, stats: calculatePointStats(points, settings) };
+        } else {
+            const deliveries = rerun.deliveries.map((d, i) => (exclusions.has(i) ? { ...d, exclusion: exclusions.get(i) } : d));
+            carried = { ...rerun, deliveries, stats: calculateDeliveryStats(deliveries, settings) };
+        }
+    }
+    return auditTrail.length > 0 ? { ...carried, auditTrail } : carried;
+};
+
+/**
+ * The field measurements of all point datasets, e.g. for estimating the tilt.
+ */
+export const allValidationPoints = (datasets: ValidationDataset[]): ProcessedData[] =>
+    datasets.flatMap(d => (d.type === 'point' ? d.points : []));
+
+/**
+ * The overall verdict of a report: it passes only when every dataset checked
+ * against a tolerance passes. Null when no dataset has a verdict.
+ */
+export const combinedVerdict = (datasets: ValidationDataset[]): { passed: boolean; failedDatasets: string[] } | null => {
+    const judged = datasets.filter(d => d.stats.verdict);
+    if (judged.length === 0) return null;
+    const failedDatasets = judged.filter(d => !d.stats.verdict?.passed).map(d => d.name);
+    return { passed: failedDatasets.length === 0, failedDatasets };
+};
+
+/**
+ * Reads the validation datasets of a project file, including the single
+ * point or delivery validation that older project files held.
+ */
+export const readProjectDatasets = (projectState: ProjectState): ValidationDataset[] => {
+    if (projectState.validationDatasets) return projectState.validationDatasets;
+    const stats = projectState.validationStats;
+    if (!stats) return [];
+    if (projectState.deliveryValidationData) return [createDeliveryDataset('Delivery validation', projectState.deliveryValidationData, stats)];
+    if (projectState.pointValidationData) return [createPointDataset('Point validation', projectState.pointValidationData, stats)];
+    return [];
+};
@@ -0,0 +1,98 @@
+import { CsvImportOptions, ProcessedData, WetCalibrationEntry, WetCalibrationLog } from '../types';
+import { defaultCsvImportOptions } from './csvParser';
+import { parseFileContent } from './dataProcessor';
+import { createInterpolator } from './interpolation';
+import { detectHeightUnit, detectVolumeUnit } from './units';
+
+export const defaultWetCalibrationLog: WetCalibrationLog = {
+    entries: [],
+    volumeMode: 'increment',
+    meterStartReading: 0,
+    heelVolume: 0,
+    heelHeight: 0,
+    chartPoints: 201,
+    heightUnit: 'mm',
+    volumeUnit: 'L',
+};
+
+/**
+ * Reads an increment log (dip height and metered volume per fill) from a
+ * delimited text file. Columns are found by their headers (dip/height and
+ * metered/volume); a headerless file is read as [Height, Volume].
+ */
+export const parseWetCalibrationLog = (
+    text: string,
+    options: CsvImportOptions = defaultCsvImportOptions
+): Pick<WetCalibrationLog, 'entries'> & Partial<WetCalibrationLog> => {
+    const table = parseFileContent(text, options);
+    const heightIndex = table.headers.findIndex(h => /height|depth|level|dip|innage/i.test(h));
+    const volumeIndex = table.headers.findIndex((h, i) => i !== heightIndex && /meter|increment|volume|deliver|quantity|qty|lit(er|re)s?|gal/i.test(h));
+    if (heightIndex === -1 || volumeIndex === -1) {
+        throw new Error('The increment log must have a height (dip) column and a metered volume column.');
+    }
+
+    // Parsed numbers arrive as numbers; anything else (blank cells, notes) is not a fill.
+    const entries: WetCalibrationEntry[] = table.data
+        .filter(row => typeof row[heightIndex] === 'number' && typeof row[volumeIndex] === 'number')
+        .map(row => ({ height: row[heightIndex] as number, volume: row[volumeIndex] as number }));
+    if (entries.length === 0) throw new Error('No increments with a numeric height and volume were found in the file.');
+
+    const heightUnit = detectHeightUnit(table.headers[heightIndex]);
+    const volumeUnit = detectVolumeUnit(table.headers[volumeIndex]);
+    return {
+        entries,
+        ...(heightUnit ? { heightUnit } : {}),
+        ...(volumeUnit ? { volumeUnit } : {}),
+        ...(/total|cumulative|meter\s*reading|totali[sz]er/i.test(table.headers[volumeIndex]) ? { volumeMode: 'cumulative' as const } : {}),
+    };
+};
+
+/**
+ * Turns the increment log into measured chart points: the heel, then the
+ * total volume in the tank after each fill. Cumulative readings are counted
+ * from the meter start reading.
+ * @throws When a fill has a negative volume or does not raise the dip.
+ */
+export const accumulateWetCalibration = (log: WetCalibrationLog): ProcessedData[] => {
+    const points: ProcessedData[] = [{ height: log.heelHeight, chartVolume: log.heelVolume }];
+    let previousReading = log.meterStartReading || 0;
+
+    log.entries.forEach((entry, i) => {
+        const increment = log.volumeMode === 'cumulative' ? entry.volume - previousReading : entry.volume;
+        previousReading = entry.volume;
+        const previous = points[points.length - 1];
+        if (increment < 0) {
+            throw new Error(`Fill ${i + 1} has a negative metered volume (${increment}).`);
+        }
+        if (entry.height <= previous.height) {
+            throw new Error(`Fill ${i + 1} has a dip of ${entry.height}, which is not above the previous dip of ${previous.height}.`);
+        }
+        points.push({ height: entry.height, chartVolume: previous.chartVolume + increment });
+    });
+
+    return points;
+};
+
+/**
+ * Builds a calibration chart from a wet calibration. A monotone cubic (PCHIP)
+ * curve is fitted through the measured points, which keeps the chart smooth
+ * without letting the volume dip between fills, and is sampled at evenly
+ * spaced heights from the heel to the last fill.
+ * @returns The sampled chart and the measured points it was fitted through.
+ */
+export const buildWetCalibrationChart = (log: WetCalibrationLog): { chart: ProcessedData[]; measured: ProcessedData[] } => {
+    if (log.entries.length < 2) throw new Error('Enter at least two metered fills to build a chart.');
+    const measured = accumulateWetCalibration(log);
+
+    const volumeAt = createInterpolator(measured, 'pchip');
+    const minHeight = measured[0].height;
+    const maxHeight = measured[measured.length - 1].height;
+    const points = Math.max(2, Math.round(log.chartPoints) || defaultWetCalibrationLog.chartPoints);
+    const step = (maxHeight - minHeight) / (points - 1);
+    const chart = Array.from({ length: points }, (_, i) => {
+        const height = i === points - 1 ? maxHeight : minHeight + i * step;
+        return { height, chartVolume: volumeAt(height) };
+    });
+
+    return { chart, measured };
+};
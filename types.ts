@@ -2,10 +2,120 @@
 
 export enum Step {
     UploadChart = 1,
+    MapColumns,
     Configure,
     Analysis,
     ValidateData,
     FinalReport,
+    WetCalibration,
+}
+
+export type HeightUnit = 'mm' | 'cm' | 'm' | 'in' | 'ft';
+
+export type VolumeUnit = 'L' | 'm3' | 'usgal' | 'impgal' | 'bbl';
+
+export type TankShape = 'horizontal-cylinder' | 'vertical-cylinder' | 'rectangular';
+
+export type TankHeadType = 'flat' | 'dished' | 'ellipsoidal' | 'hemispherical';
+
+export type InterpolationMethod = 'linear' | 'pchip' | 'spline';
+
+/** How heights outside the chart are valued: not at all, at the nearest end, or along the end segment. */
+export type ExtrapolationPolicy = 'reject' | 'clamp' | 'linear';
+
+export interface StrappingChartSettings {
+    /** 'points' spreads a fixed number of rows over the chart; 'increment' steps in fixed heights from a round start. */
+    mode: 'points' | 'increment';
+    points: number;
+    increment: number;
+    incrementUnit: HeightUnit;
+    columnPairs: number;
+    rowsPerPage: number;
+    /** Adds the volume change per increment unit (e.g. litres per mm) next to each volume. */
+    includeDelta: boolean;
+}
+
+export type ProductType = 'crude' | 'gasoline' | 'kerosene' | 'diesel';
+
+/** 'gross' is observed volume at the product temperature; 'net' is corrected to 15 °C. */
+export type VolumeBasis = 'gross' | 'net';
+
+export interface TemperatureSettings {
+    enabled: boolean;
+    productType: ProductType;
+    /** Density at 15 °C in kg/m³, used for readings that do not carry their own. */
+    density: number;
+    /** Basis of the reported deliveries and field volumes; delivery notes are usually net. */
+    reportedBasis: VolumeBasis;
+    /** Which of the two deviations the validation statistics use. */
+    comparisonBasis: VolumeBasis;
+}
+
+export interface DipSettings {
+    /** 'ullage' readings are taken down from the reference point to the product surface. */
+    entryMode: 'innage' | 'ullage';
+    /** Height of the dip reference point above the dip plate; ullage readings are subtracted from it. */
+    referenceHeight: number;
+    /** Height of the dip plate above the chart datum, added to every reading. */
+    datumOffset: number;
+}
+
+/** How the allowed deviation of a validation reading is set. */
+export type ToleranceMode = 'absolute' | 'percent-reading' | 'percent-capacity' | 'height-bands';
+
+export interface ToleranceBand {
+    /** Upper edge of the band in millimetres; a reading belongs to the first band it does not exceed. */
+    upToHeight: number;
+    /** Allowed deviation in litres. */
+    tolerance: number;
+}
+
+/**
+ * An acceptance criterion for validation deviations. Profiles are stored in
+ * millimetres and litres so one profile can be used for charts in any unit.
+ */
+export interface ToleranceProfile {
+    id: string;
+    name: string;
+    mode: ToleranceMode;
+    /** Allowed deviation: litres for 'absolute', percent for the percentage modes. */
+    value: number;
+    /** Used by 'height-bands'; readings above the last band use its tolerance. */
+    bands: ToleranceBand[];
+}
+
+/**
+ * Inputs of the uncertainty budget. Heights are in millimetres so the
+ * settings suit charts in any unit.
+ */
+export interface UncertaintySettings {
+    enabled: boolean;
+    /** Smallest step of the dip tape or probe, mm. */
+    dipResolution: number;
+    /** Standard uncertainty of a single dip reading, mm. */
+    readingUncertainty: number;
+    /** Standard uncertainty of the meter behind reported volumes and deliveries, percent of the volume. */
+    meterUncertainty: number;
+    /** Standard uncertainty of the tank temperature, °C. */
+    temperatureUncertainty: number;
+}
+
+export interface UncertaintyContribution {
+    source: string;
+    /** The entered value with its unit, e.g. "1 mm". */
+    input: string;
+    /** Standard uncertainty it adds, in the chart volume unit. */
+    standardUncertainty: number;
+}
+
+/** The uncertainty of the chart volume, worst case over the chart. */
+export interface UncertaintyBudget {
+    contributions: UncertaintyContribution[];
+    combinedUncertainty: number;
+    coverageFactor: number;
+    expandedUncertainty: number;
+    /** Volume the meter and temperature terms are taken at: the chart's largest. */
+    volume: number;
 }
 
 export interface ReportConfig {
@@ -14,6 +124,14 @@ export interface ReportConfig {
     tankDiameter: string;
     tankHeight: string;
     tankLength: string;
+    tankWidth: string;
+    tankShape: TankShape;
+    headType: TankHeadType;
+    headDepth: string;
+    /** Tilt in degrees along the tank axis; positive when end A is lower. */
+    tiltAngle: number;
+    /** Distance of the dip point from the tank centre, positive towards end A. */
+    dipPointOffset: string;
     tankCapacity: string;
     calibrationDate: string;
     calibrationCompany: string;
@@ -21,6 +139,77 @@ export interface ReportConfig {
     volumeHeader: string;
     columnOrder: 'height-volume' | 'volume-height';
     decimalPlaces: number;
+    interpolationMethod: InterpolationMethod;
+    extrapolation: ExtrapolationPolicy;
+    /** Counts validation readings outside the chart range in the statistics. */
+    includeOutOfRangeInStats: boolean;
+    strappingChart: StrappingChartSettings;
+    temperature: TemperatureSettings;
+    /** Dip conventions of the validation readings, in the chart height unit. */
+    dip: DipSettings;
+    tolerance: ToleranceProfile;
+    uncertainty: UncertaintySettings;
+    heightUnit: HeightUnit;
+    volumeUnit: VolumeUnit;
+    outputHeightUnit: HeightUnit;
+    outputVolumeUnit: VolumeUnit;
+}
+
+/** The report settings that decide how validation readings are valued against the chart. */
+export type ValidationSettings = Pick<ReportConfig,
+    'interpolationMethod' | 'extrapolation' | 'includeOutOfRangeInStats' | 'temperature' | 'dip' | 'tolerance' | 'uncertainty' | 'tankCapacity' | 'heightUnit' | 'volumeUnit'>;
+
+export type ColumnRole = 'height' | 'chartVolume' | 'fieldVolume' | 'delivery' | 'ignore';
+
+export interface RejectedRow {
+    rowNumber: number;
+    reason: string;
+}
+
+export interface ParsedTable {
+    headers: string[];
+    data: (string | number)[][];
+    format?: string;
+    rowNumbers?: number[];
+    rejectedRows?: RejectedRow[];
+    /** The sheet and header row a workbook table was read from. */
+    sheet?: SheetImportOptions;
+}
+
+export interface CsvImportOptions {
+    delimiter: 'auto' | ',' | ';' | '\t';
+    decimalSeparator: 'auto' | '.' | ',';
+}
+
+export type SheetRow = (string | number)[];
+
+export interface WorkbookData {
+    fileName: string;
+    sheetNames: string[];
+    sheets: Record<string, SheetRow[]>;
+    /** The 1-based sheet row of each row in `sheets`; blank rows are not read. */
+    rowNumbers: Record<string, number[]>;
+}
+
+export interface SheetImportOptions {
+    sheetName: string;
+    headerRowIndex: number;
+    unpairColumns: boolean;
+}
+
+/** How a chart file was read, so that its embedded copy can be processed again. */
+export interface ChartImportSettings {
+    csvOptions: CsvImportOptions;
+    /** Absent for delimited text files. */
+    sheet?: SheetImportOptions;
+    columnRoles: ColumnRole[];
+}
+
+export interface SavedColumnMapping {
+    signature: string;
+    clientName: string;
+    roles: ColumnRole[];
+    savedAt: string;
 }
 
 export interface ProcessedData {
@@ -28,6 +217,127 @@ export interface ProcessedData {
     chartVolume: number;
     fieldVolume?: number;
     deviation?: number;
+    /** The reading lies outside the chart's height range. */
+    outOfRange?: boolean;
+    conditions?: ReadingConditions;
+    compensation?: TemperatureCompensation;
+    /** Allowed deviation under the report's tolerance profile, in the chart volume unit. */
+    tolerance?: number;
+    withinTolerance?: boolean;
+    /** Expanded uncertainty (k = 2) of the deviation, in the chart volume unit. */
+    uncertainty?: number;
+    /** The deviation is no larger than its expanded uncertainty. */
+    withinUncertainty?: boolean;
+    /** Set when the reading is left out of the statistics. */
+    exclusion?: ReadingExclusion;
+}
+
+/** Why a validation reading was left out of the statistics. */
+export interface ReadingExclusion {
+    reason: string;
+    excludedAt: string;
+}
+
+/**
+ * One exclusion or restore of a reading, kept so the report shows what was left out, when and why.
+ * 'reset' records an exclusion dropped because its reading was gone when the dataset was re-run.
+ */
+export interface ExclusionAuditEntry {
+    action: 'excluded' | 'restored' | 'reset';
+    /** The reading as shown when it was changed, e.g. "1200.00 mm". */
+    reading: string;
+    reason: string;
+    at: string;
+}
+
+/** Optional per-reading product data read from the validation file. */
+export interface ReadingConditions {
+    productType?: ProductType;
+    /** Density at 15 °C in kg/m³. */
+    density?: number;
+    /** Product temperature in the tank, °C. */
+    tankTemperature?: number;
+    /** Product temperature stated on the delivery note, °C. */
+    deliveryTemperature?: number;
+    /** Water level under the product; on the chart datum once the dip settings are applied. */
+    waterHeight?: number;
+}
+
+/** The same comparison on both volume bases; for deliveries the volumes are the delivered quantities. */
+export interface TemperatureCompensation {
+    grossChartVolume: number;
+    netChartVolume: number;
+    grossReportedVolume: number;
+    netReportedVolume: number;
+    grossDeviation: number;
+    netDeviation: number;
+}
+
+export interface WetCalibrationEntry {
+    height: number;
+    /** Metered volume of the fill, or the meter reading after it for cumulative logs. */
+    volume: number;
+}
+
+export interface WetCalibrationLog {
+    entries: WetCalibrationEntry[];
+    volumeMode: 'increment' | 'cumulative';
+    /** Meter reading before the first fill of a cumulative log; the first fill is measured from it. */
+    meterStartReading?: number;
+    /** Liquid already in the tank before the first metered fill, and its dip. */
+    heelVolume: number;
+    heelHeight: number;
+    chartPoints: number;
+    heightUnit: HeightUnit;
+    volumeUnit: VolumeUnit;
+}
+
+export interface TankGeometry {
+    shape: TankShape;
+    headType: TankHeadType;
+    /** All dimensions in millimetres. */
+    diameter: number;
+    length: number;
+    width: number;
+    height: number;
+    headDepth: number;
+}
+
+export interface TheoreticalComparison {
+    height: number;
+    chartVolume: number;
+    theoreticalVolume: number;
+    deviation: number;
+    percentDeviation: number;
+}
+
+export interface StrappingChartRow {
+    height: number;
+    chartVolume: number;
+    delta?: number;
+}
+
+export interface CrossValidationResult {
+    method: InterpolationMethod;
+    pointCount: number;
+    rmsError: number;
+    /** Signed error (predicted minus chart) with the largest magnitude. */
+    maxError: number;
+    maxErrorHeight: number;
+}
+
+export interface TiltParameters {
+    /** Shell length, dip-point offset and slope in the chart's height unit. */
+    length: number;
+    dipPointOffset: number;
+    slope: number;
+}
+
+export interface TiltEstimate {
+    tiltAngle: number;
+    rmsBefore: number;
+    rmsAfter: number;
+    pointCount: number;
 }
 
 export interface DeviationPoint {
@@ -35,11 +345,30 @@ export interface DeviationPoint {
     value: number;
 }
 
+export interface ToleranceVerdict {
+    profileName: string;
+    passed: boolean;
+    checkedCount: number;
+    failedCount: number;
+}
+
 export interface ValidationStats {
     totalMeasurements: number;
     averageDeviation: number;
     maxDeviation: DeviationPoint;
     minDeviation: DeviationPoint;
+    // The fields below are missing from project files saved before tolerance profiles.
+    /** Sample standard deviation of the deviations. */
+    standardDeviation?: number;
+    rmsDeviation?: number;
+    meanAbsoluteDeviation?: number;
+    /** Mean of the deviations as a percentage of the reported volume. */
+    averagePercentDeviation?: number;
+    verdict?: ToleranceVerdict;
+    /** Readings left out of the statistics by hand. */
+    excludedCount?: number;
+    /** Readings whose deviation is larger than its expanded uncertainty, when uncertainties were estimated. */
+    beyondUncertaintyCount?: number;
 }
 
 export interface DeliveryValidationData {
@@ -48,12 +377,161 @@ export interface DeliveryValidationData {
     reportedDelivery: number;
     chartCalculatedDelivery: number;
     deviation: number;
+    /** A reading before or after the delivery lies outside the chart's height range. */
+    outOfRange?: boolean;
+    conditionsBefore?: ReadingConditions;
+    conditionsAfter?: ReadingConditions;
+    compensation?: TemperatureCompensation;
+    tolerance?: number;
+    withinTolerance?: boolean;
+    uncertainty?: number;
+    withinUncertainty?: boolean;
+    exclusion?: ReadingExclusion;
+}
+
+export type ManualEntryColumn = 'height' | 'volume' | 'waterHeight' | 'tankTemperature';
+
+/** One row of the manual entry grid, kept as typed so half-finished entries survive saving. */
+export type ManualEntryRow = Record<ManualEntryColumn, string>;
+
+export interface ManualValidationEntry {
+    /** 'point' rows pair a dip with a measured volume; 'delivery' rows pair a dip with the delivery before it. */
+    type: 'point' | 'delivery';
+    rows: ManualEntryRow[];
+    /** The dataset made by the last run, replaced when the entry is run again. */
+    datasetId?: string;
+}
+
+interface ValidationDatasetBase {
+    id: string;
+    /** The uploaded file name, or a label for manually entered readings. */
+    name: string;
+    stats: ValidationStats;
+    /** Every exclusion and restore of a reading, oldest first. */
+    auditTrail?: ExclusionAuditEntry[];
+    /** Rows of the uploaded file that could not be read. */
+    rejectedRows?: RejectedRow[];
+    /** How the uploaded file was read; absent for manually entered readings. */
+    csvOptions?: CsvImportOptions;
+}
+
+/** One set of validation readings in a project; a project can hold several of either type. */
+export type ValidationDataset =
+    | (ValidationDatasetBase & { type: 'point'; points: ProcessedData[] })
+    | (ValidationDatasetBase & { type: 'delivery'; deliveries: DeliveryValidationData[] });
+
+export type QualitySeverity = 'error' | 'warning' | 'info';
+
+export type QualityFix = 'sort' | 'drop-duplicates' | 'remove-negative' | 'remove-outliers';
+
+export interface CorrectionKnot {
+    height: number;
+    correction: number;
+}
+
+export interface ChartCorrectionProposal {
+    source: 'point' | 'delivery';
+    /** The smoothed correction curve, as the knots it was fitted through. */
+    knots: CorrectionKnot[];
+    originalChart: ProcessedData[];
+    correctedChart: ProcessedData[];
+    maxCorrection: number;
+    maxCorrectionHeight: number;
+}
+
+export interface QualityIssue {
+    id: string;
+    severity: QualitySeverity;
+    title: string;
+    message: string;
+    rows: number[];
+    fix?: QualityFix;
+}
+
+export interface AppliedCorrection {
+    fix: QualityFix;
+    description: string;
+    rowsAffected: number;
+    appliedAt: string;
 }
 
 export interface ProjectState {
     reportConfig: ReportConfig;
     processedData: ProcessedData[];
+    /** Statistics of field volumes in the chart file itself; older files keep the single validation's statistics here. */
     validationStats: ValidationStats | null;
     chartFileName: string;
+    validationDatasets?: ValidationDataset[];
+    manualEntry?: ManualValidationEntry | null;
+    /** The single validation of older project files, read into `validationDatasets` when opened. */
     deliveryValidationData?: DeliveryValidationData[] | null;
+    pointValidationData?: ProcessedData[] | null;
+    wetCalibrationLog?: WetCalibrationLog | null;
+    sourceFormat?: string;
+    qualityCorrections?: AppliedCorrection[];
+    /** How the chart file was read; absent for charts from geometry, a wet calibration or older files. */
+    chartImport?: ChartImportSettings | null;
+}
+
+/** Details shared by every tank calibrated on one site visit. */
+export interface SiteDetails {
+    siteName: string;
+    siteAddress: string;
+    clientName: string;
+    calibrationCompany: string;
+    calibrationDate: string;
+}
+
+/** A tank of a site project as it is saved. */
+export interface SiteTank {
+    id: string;
+    project: ProjectState;
+}
+
+/** A tank of the open site, with the files its chart and validations were read from. */
+export interface TankWorkspace extends SiteTank {
+    chartFile: File | null;
+    /** Uploaded validation files by the id of the dataset each produced. */
+    validationFiles: Record<string, File>;
+}
+
+/** A project autosaved in this browser, as listed under Recent Projects. */
+export interface LibraryProject {
+    id: string;
+    siteName: string;
+    clientName: string;
+    tankCodes: string[];
+    calibrationDate: string;
+    /** ISO timestamp of the last autosave. */
+    updatedAt: string;
+}
+
+/** An uploaded file kept in a project so that it can be processed again. */
+export interface EmbeddedSourceFile {
+    role: 'chart' | 'validation';
+    name: string;
+    /** The tank the file belongs to. */
+    tankId: string;
+    /** The dataset a validation file produced. */
+    datasetId?: string;
+    /** The file contents, base64-encoded. */
+    data: string;
+    size: number;
+    /** SHA-256 of the contents, hex. */
+    sha256: string;
+}
+
+/**
+ * The contents of an .adf project file. Files saved before the format was
+ * versioned hold a bare ProjectState and are read as version 1; version 2
+ * files hold a single tank's project.
+ */
+export interface ProjectFile {
+    format: 'tank-calibration-project';
+    version: number;
+    savedAt: string;
+    site: SiteDetails;
+    tanks: SiteTank[];
+    activeTankId: string;
+    sourceFiles: EmbeddedSourceFile[];
 }
\ No newline at end of file